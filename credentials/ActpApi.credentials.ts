@@ -12,6 +12,11 @@ import type {
  * - Mock: Local testing, no wallet needed
  * - Testnet: Base Sepolia (free test tokens)
  * - Mainnet: Base Mainnet (real USDC)
+ *
+ * Testnet/Mainnet wallets can be a private key, a mnemonic, a keystore JSON,
+ * or a remote signing service that keeps the key outside n8n.
+ *
+ * An optional spending policy (limits and allow/deny lists) guards outgoing payments.
  */
 export class ActpApi implements ICredentialType {
 	name = 'actpApi';
@@ -60,6 +65,42 @@ export class ActpApi implements ICredentialType {
 			},
 		},
 
+		// Testnet/Mainnet: How the wallet is stored
+		{
+			displayName: 'Wallet Type',
+			name: 'walletType',
+			type: 'options',
+			options: [
+				{
+					name: 'Private Key',
+					value: 'privateKey',
+					description: 'Raw hex private key',
+				},
+				{
+					name: 'Mnemonic (HD Wallet)',
+					value: 'mnemonic',
+					description: 'BIP-39 recovery phrase with account index or derivation path',
+				},
+				{
+					name: 'Keystore JSON',
+					value: 'keystore',
+					description: 'Encrypted JSON keystore (V3) with its password',
+				},
+				{
+					name: 'Remote Signer',
+					value: 'remote',
+					description: 'External signing service (Web3Signer-style JSON-RPC). The key never enters n8n.',
+				},
+			],
+			default: 'privateKey',
+			description: 'How your wallet secret is stored',
+			displayOptions: {
+				show: {
+					environment: ['testnet', 'mainnet'],
+				},
+			},
+		},
+
 		// Testnet/Mainnet: Private Key
 		{
 			displayName: 'Private Key',
@@ -76,6 +117,142 @@ export class ActpApi implements ICredentialType {
 			displayOptions: {
 				show: {
 					environment: ['testnet', 'mainnet'],
+					walletType: ['privateKey'],
+				},
+			},
+		},
+
+		// Testnet/Mainnet: Mnemonic
+		{
+			displayName: 'Mnemonic',
+			name: 'mnemonic',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			placeholder: 'word1 word2 ... word12',
+			required: true,
+			description: 'BIP-39 recovery phrase (encrypted by n8n). Never share this!',
+			displayOptions: {
+				show: {
+					environment: ['testnet', 'mainnet'],
+					walletType: ['mnemonic'],
+				},
+			},
+		},
+		{
+			displayName: 'Account Index',
+			name: 'accountIndex',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 0,
+			description: "Account to derive on the standard Ethereum path m/44'/60'/0'/0/{index}",
+			displayOptions: {
+				show: {
+					environment: ['testnet', 'mainnet'],
+					walletType: ['mnemonic'],
+				},
+			},
+		},
+		{
+			displayName: 'Derivation Path (Optional)',
+			name: 'derivationPath',
+			type: 'string',
+			default: '',
+			placeholder: "m/44'/60'/0'/0/0",
+			description: 'Custom derivation path. Overrides Account Index when set.',
+			displayOptions: {
+				show: {
+					environment: ['testnet', 'mainnet'],
+					walletType: ['mnemonic'],
+				},
+			},
+		},
+
+		// Testnet/Mainnet: Keystore
+		{
+			displayName: 'Keystore JSON',
+			name: 'keystoreJson',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			placeholder: '{"address":"...","crypto":{...},"version":3}',
+			required: true,
+			description: 'Encrypted JSON keystore file contents (encrypted by n8n)',
+			displayOptions: {
+				show: {
+					environment: ['testnet', 'mainnet'],
+					walletType: ['keystore'],
+				},
+			},
+		},
+		{
+			displayName: 'Keystore Password',
+			name: 'keystorePassword',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			required: true,
+			description: 'Password that decrypts the keystore',
+			displayOptions: {
+				show: {
+					environment: ['testnet', 'mainnet'],
+					walletType: ['keystore'],
+				},
+			},
+		},
+
+		// Testnet/Mainnet: Remote signer
+		{
+			displayName: 'Signer URL',
+			name: 'signerUrl',
+			type: 'string',
+			default: '',
+			placeholder: 'https://signer.internal:9000',
+			required: true,
+			description: 'JSON-RPC endpoint of the signing service (eth_accounts, eth_signTransaction)',
+			displayOptions: {
+				show: {
+					environment: ['testnet', 'mainnet'],
+					walletType: ['remote'],
+				},
+			},
+		},
+		{
+			displayName: 'Signer Address (Optional)',
+			name: 'signerAddress',
+			type: 'string',
+			default: '',
+			placeholder: '0x...',
+			description: 'Account to sign with. Leave empty to use the first account the signer reports.',
+			displayOptions: {
+				show: {
+					environment: ['testnet', 'mainnet'],
+					walletType: ['remote'],
+				},
+			},
+		},
+		{
+			displayName: 'Signer Authorization (Optional)',
+			name: 'signerAuthorization',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			placeholder: 'Bearer ...',
+			description: 'Authorization header value sent to the signing service',
+			displayOptions: {
+				show: {
+					environment: ['testnet', 'mainnet'],
+					walletType: ['remote'],
 				},
 			},
 		},
@@ -95,6 +272,22 @@ export class ActpApi implements ICredentialType {
 			},
 		},
 
+		// Testnet/Mainnet: EAS delivery schema (optional)
+		{
+			displayName: 'Attestation Schema UID (Optional)',
+			name: 'attestationSchemaUid',
+			type: 'string',
+			default: '',
+			placeholder: '0x... (leave empty for the ACTP delivery schema)',
+			description:
+				'EAS schema UID used for delivery attestations. It must be registered in the EAS SchemaRegistry on this network and encode (bytes32 transactionId, bytes32 contentHash, address provider).',
+			displayOptions: {
+				show: {
+					environment: ['testnet', 'mainnet'],
+				},
+			},
+		},
+
 		// Mock mode: State directory (advanced)
 		{
 			displayName: 'State Directory (Advanced)',
@@ -109,6 +302,96 @@ export class ActpApi implements ICredentialType {
 				},
 			},
 		},
+
+		// Spending policy (all environments)
+		{
+			displayName: 'Max Per Transaction (USDC)',
+			name: 'maxPerTransaction',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+				numberPrecision: 6,
+			},
+			default: 0,
+			description: 'Refuse any single payment above this amount. 0 = no limit.',
+		},
+		{
+			displayName: 'Max Per 24 Hours (USDC)',
+			name: 'maxPer24Hours',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+				numberPrecision: 6,
+			},
+			default: 0,
+			description: 'Refuse payments once this wallet has spent this much in the last 24 hours (tracked per workflow). 0 = no limit.',
+		},
+		{
+			displayName: 'Recipient Allowlist',
+			name: 'recipientAllowlist',
+			type: 'string',
+			default: '',
+			placeholder: '0xabc..., 0xdef...',
+			description: 'Comma-separated recipient addresses. When set, payments to any other address are refused.',
+		},
+		{
+			displayName: 'Recipient Denylist',
+			name: 'recipientDenylist',
+			type: 'string',
+			default: '',
+			placeholder: '0xabc..., 0xdef...',
+			description: 'Comma-separated recipient addresses that payments are never sent to',
+		},
+		{
+			displayName: 'x402 Host Allowlist',
+			name: 'x402HostAllowlist',
+			type: 'string',
+			default: '',
+			placeholder: 'api.example.com, paid.example.org',
+			description: 'Comma-separated hostnames (subdomains included). When set, x402 payments to other hosts are refused.',
+		},
+		{
+			displayName: 'x402 Host Denylist',
+			name: 'x402HostDenylist',
+			type: 'string',
+			default: '',
+			placeholder: 'untrusted.example.com',
+			description: 'Comma-separated hostnames (subdomains included) that x402 payments are never sent to',
+		},
+
+		// Gas price cap (testnet/mainnet)
+		{
+			displayName: 'Max Gas Price (Gwei)',
+			name: 'maxGasPriceGwei',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+				numberPrecision: 9,
+			},
+			default: 0,
+			description: 'Abort before sending if the network max fee per gas is above this. 0 = no cap.',
+			displayOptions: {
+				show: {
+					environment: ['testnet', 'mainnet'],
+				},
+			},
+		},
+		{
+			displayName: 'Max Priority Fee (Gwei)',
+			name: 'maxPriorityFeeGwei',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+				numberPrecision: 9,
+			},
+			default: 0,
+			description: 'Abort before sending if the network priority fee (tip) is above this. 0 = no cap.',
+			displayOptions: {
+				show: {
+					environment: ['testnet', 'mainnet'],
+				},
+			},
+		},
 	];
 
 	// Test the credential by checking RPC connectivity (testnet/mainnet only)
@@ -8,4 +8,5 @@
  */
 
 export * from './nodes/ACTP/ACTP.node';
+export * from './nodes/ActpTrigger/ActpTrigger.node';
 export * from './credentials/ActpApi.credentials';
@@ -7,6 +7,8 @@
  * Features:
  * - Simple mode: Easy operations for common payment flows
  * - Advanced mode: Full protocol control for power users
+ * - Sandbox mode: Mock runtime controls for end-to-end test workflows
+ * - Dry Run: Validate and estimate state-changing operations without sending
  * - Flexible inputs: Human-friendly amount, deadline, and address parsing
  * - Rich outputs: Formatted data with raw values for chaining
  *
@@ -23,15 +25,25 @@ import { NodeOperationError } from 'n8n-workflow';
 import type { ACTPClient } from '@agirails/sdk';
 
 // Import field descriptions
-import { modeField, simpleFields, advancedFields } from './descriptions';
+import {
+	modeField,
+	dryRunField,
+	optionsField,
+	simpleFields,
+	advancedFields,
+	sandboxFields,
+} from './descriptions';
 
 // Import handlers
 import {
 	// Simple mode
 	handleSendPayment,
+	handleSendPaymentBatch,
 	handleCheckStatus,
 	handleStartWork,
 	handleMarkDelivered,
+	handleClaimAfterDisputeWindow,
+	handleVerifyDelivery,
 	handleReleasePayment,
 	handleRaiseDispute,
 	handleCancelSimple,
@@ -41,8 +53,16 @@ import {
 	handleTransitionState,
 	handleReleaseEscrow,
 	handleGetTransaction,
+	handleWaitForState,
 	handleGetEscrowBalance,
 	handleCancelAdvanced,
+	handleSweepExpired,
+	// EAS attestations
+	handleCreateAttestation,
+	// Quote flow
+	handleSubmitQuote,
+	handleAcceptQuote,
+	handleRejectQuote,
 	// x402
 	handlePaidHttpRequest,
 	handleX402Pay,
@@ -52,10 +72,25 @@ import {
 	handleVerifyAgent,
 	handleReportReputation,
 	handleGetReputation,
+	// Wallet
+	handleGetWalletBalance,
+	// Listing
+	handleListTransactions,
+	handleListIncomingJobs,
+	// Sandbox mode
+	handleMintTokens,
+	handleAdvanceTime,
+	handleResetState,
+	handleDumpState,
 } from './handlers';
 
 // Import utilities
-import { createActpClient, sanitizeError } from './utils';
+import {
+	createActpClient,
+	reportRetries,
+	toActpError,
+	formatFailedItem,
+} from './utils';
 
 /**
  * Execute Simple mode operation
@@ -79,6 +114,15 @@ async function executeSimpleOperation(
 		case 'markDelivered':
 			return handleMarkDelivered(context, client, itemIndex);
 
+		case 'claimAfterDisputeWindow':
+			return handleClaimAfterDisputeWindow(context, client, itemIndex);
+
+		case 'listIncomingJobs':
+			return handleListIncomingJobs(context, client, itemIndex);
+
+		case 'verifyDelivery':
+			return handleVerifyDelivery(context, client, itemIndex);
+
 		case 'releasePayment':
 			return handleReleasePayment(context, client, itemIndex);
 
@@ -94,6 +138,12 @@ async function executeSimpleOperation(
 		case 'lookupAgent':
 			return handleLookupAgent(context, client, itemIndex);
 
+		case 'getWalletBalance':
+			return handleGetWalletBalance(context, client, itemIndex);
+
+		case 'listTransactions':
+			return handleListTransactions(context, client, itemIndex);
+
 		default:
 			throw new NodeOperationError(
 				context.getNode(),
@@ -122,18 +172,36 @@ async function executeAdvancedOperation(
 		case 'transitionState':
 			return handleTransitionState(context, client, itemIndex);
 
+		case 'submitQuote':
+			return handleSubmitQuote(context, client, itemIndex);
+
+		case 'acceptQuote':
+			return handleAcceptQuote(context, client, itemIndex);
+
+		case 'rejectQuote':
+			return handleRejectQuote(context, client, itemIndex);
+
 		case 'releaseEscrow':
 			return handleReleaseEscrow(context, client, itemIndex);
 
+		case 'createAttestation':
+			return handleCreateAttestation(context, client, itemIndex);
+
 		case 'getTransaction':
 			return handleGetTransaction(context, client, itemIndex);
 
+		case 'waitForState':
+			return handleWaitForState(context, client, itemIndex);
+
 		case 'getEscrowBalance':
 			return handleGetEscrowBalance(context, client, itemIndex);
 
 		case 'cancelAdvanced':
 			return handleCancelAdvanced(context, client, itemIndex);
 
+		case 'sweepExpired':
+			return handleSweepExpired(context, client, itemIndex);
+
 		case 'x402Pay':
 			return handleX402Pay(context, client, itemIndex);
 
@@ -149,6 +217,12 @@ async function executeAdvancedOperation(
 		case 'getReputation':
 			return handleGetReputation(context, client, itemIndex);
 
+		case 'getWalletBalance':
+			return handleGetWalletBalance(context, client, itemIndex);
+
+		case 'listTransactions':
+			return handleListTransactions(context, client, itemIndex);
+
 		default:
 			throw new NodeOperationError(
 				context.getNode(),
@@ -158,6 +232,37 @@ async function executeAdvancedOperation(
 	}
 }
 
+/**
+ * Execute Sandbox mode operation (mock runtime only)
+ */
+async function executeSandboxOperation(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	operation: string,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	switch (operation) {
+		case 'mintTokens':
+			return handleMintTokens(context, client, itemIndex);
+
+		case 'advanceTime':
+			return handleAdvanceTime(context, client, itemIndex);
+
+		case 'resetState':
+			return handleResetState(context, client, itemIndex);
+
+		case 'dumpState':
+			return handleDumpState(context, client, itemIndex);
+
+		default:
+			throw new NodeOperationError(
+				context.getNode(),
+				`Unknown Sandbox mode operation: ${operation}`,
+				{ itemIndex },
+			);
+	}
+}
+
 /**
  * ACTP Node Implementation
  *
@@ -192,6 +297,15 @@ export class Actp implements INodeType {
 
 			// Advanced mode operations and fields
 			...advancedFields,
+
+			// Sandbox mode operations and fields (mock credentials only)
+			...sandboxFields,
+
+			// Dry Run toggle for state-changing operations
+			dryRunField,
+
+			// Timeout and retry policy
+			optionsField,
 		],
 	};
 
@@ -205,6 +319,25 @@ export class Actp implements INodeType {
 		// Get mode and operation
 		const mode = this.getNodeParameter('mode', 0) as string;
 
+		// Batch Send Payment handles all items in one call
+		if (
+			mode === 'simple' &&
+			this.getNodeParameter('operation', 0) === 'sendPayment' &&
+			(this.getNodeParameter('batchMode', 0, false) as boolean)
+		) {
+			try {
+				const client = await createActpClient(this, 0);
+				return [await handleSendPaymentBatch(this, client, items)];
+			} catch (error) {
+				const actpError = toActpError(this.getNode(), error);
+				if (this.continueOnFail()) {
+					// Every input item fails (the Error output also gets each item's input back)
+					return [items.map((_item, i) => formatFailedItem(this, actpError, i))];
+				}
+				throw actpError;
+			}
+		}
+
 		for (let i = 0; i < items.length; i++) {
 			try {
 				// Create ACTP client from credentials
@@ -218,24 +351,21 @@ export class Actp implements INodeType {
 				// Route to appropriate handler based on mode and operation
 				if (mode === 'simple') {
 					result = await executeSimpleOperation(this, client, operation, i);
+				} else if (mode === 'sandbox') {
+					result = await executeSandboxOperation(this, client, operation, i);
 				} else {
 					result = await executeAdvancedOperation(this, client, operation, i);
 				}
 
-				returnData.push(...result);
+				returnData.push(...reportRetries(this, i, result));
 			} catch (error) {
-				// Handle errors with item context
+				// Handle errors with item context (code, retryable, description)
+				const actpError = toActpError(this.getNode(), error, i);
 				if (this.continueOnFail()) {
-					returnData.push({
-						json: {
-							success: false,
-							error: sanitizeError(error as Error),
-							itemIndex: i,
-						},
-					});
+					returnData.push(formatFailedItem(this, actpError, i));
 					continue;
 				}
-				throw error;
+				throw actpError;
 			}
 		}
 
@@ -11,6 +11,7 @@ import {
 	deadlineField,
 	disputeWindowField,
 	escrowIdField,
+	idempotencyKeyField,
 } from './common.fields';
 import { x402PayFields } from './x402.description';
 import {
@@ -19,6 +20,10 @@ import {
 	reportReputationFields,
 	getReputationFields,
 } from './erc8004.description';
+import { getWalletBalanceAdvancedFields } from './wallet.description';
+import { listTransactionsAdvancedFields } from './listing.description';
+import { autoAttestationField, createAttestationFields } from './attestation.description';
+import { submitQuoteFields, acceptQuoteFields, rejectQuoteFields } from './quote.description';
 
 /**
  * Advanced mode operation selector
@@ -53,6 +58,25 @@ export const advancedOperationField: INodeProperties = {
 			description: 'Manually transition transaction state',
 			action: 'Transition transaction state',
 		},
+		// === Quote Flow ===
+		{
+			name: 'Submit Quote',
+			value: 'submitQuote',
+			description: 'Provider proposes a price for the job (INITIATED → QUOTED)',
+			action: 'Submit a quote',
+		},
+		{
+			name: 'Accept Quote',
+			value: 'acceptQuote',
+			description: 'Requester accepts the quote and funds escrow (QUOTED → COMMITTED)',
+			action: 'Accept a quote',
+		},
+		{
+			name: 'Reject Quote',
+			value: 'rejectQuote',
+			description: 'Requester rejects the quote and cancels (QUOTED → CANCELLED)',
+			action: 'Reject a quote',
+		},
 		// === Escrow Operations ===
 		{
 			name: 'Release Escrow',
@@ -60,12 +84,24 @@ export const advancedOperationField: INodeProperties = {
 			description: 'Release escrow funds to provider',
 			action: 'Release escrow',
 		},
+		{
+			name: 'Create Attestation',
+			value: 'createAttestation',
+			description: 'Create an EAS delivery attestation for a transaction and return its UID',
+			action: 'Create delivery attestation',
+		},
 		{
 			name: 'Get Escrow Balance',
 			value: 'getEscrowBalance',
 			description: 'Check escrow balance',
 			action: 'Get escrow balance',
 		},
+		{
+			name: 'Get Wallet Balance',
+			value: 'getWalletBalance',
+			description: 'Get USDC and ETH balance of your wallet or any address',
+			action: 'Get wallet balance',
+		},
 		// === Query Operations ===
 		{
 			name: 'Get Transaction',
@@ -73,6 +109,18 @@ export const advancedOperationField: INodeProperties = {
 			description: 'Get full transaction details',
 			action: 'Get transaction details',
 		},
+		{
+			name: 'List Transactions',
+			value: 'listTransactions',
+			description: 'Search your transactions with filters and pagination',
+			action: 'List transactions',
+		},
+		{
+			name: 'Wait for State',
+			value: 'waitForState',
+			description: 'Poll a transaction until it reaches one of the target states',
+			action: 'Wait for transaction state',
+		},
 		// === Cancel ===
 		{
 			name: 'Cancel',
@@ -80,6 +128,12 @@ export const advancedOperationField: INodeProperties = {
 			description: 'Cancel transaction (before DELIVERED)',
 			action: 'Cancel transaction',
 		},
+		{
+			name: 'Sweep Expired',
+			value: 'sweepExpired',
+			description: 'Find your transactions past their deadline and optionally cancel them to reclaim escrow',
+			action: 'Sweep expired transactions',
+		},
 		// === x402 Operations ===
 		{
 			name: 'x402 Pay',
@@ -178,6 +232,15 @@ export const createTransactionFields: INodeProperties[] = [
 			},
 		},
 	},
+	{
+		...idempotencyKeyField,
+		displayOptions: {
+			show: {
+				mode: ['advanced'],
+				operation: ['createTransaction'],
+			},
+		},
+	},
 ];
 
 /**
@@ -301,6 +364,15 @@ export const releaseEscrowFields: INodeProperties[] = [
 			},
 		},
 	},
+	{
+		...autoAttestationField,
+		displayOptions: {
+			show: {
+				mode: ['advanced'],
+				operation: ['releaseEscrow'],
+			},
+		},
+	},
 ];
 
 /**
@@ -333,6 +405,79 @@ export const getTransactionFields: INodeProperties[] = [
 	},
 ];
 
+/**
+ * Wait For State fields
+ */
+export const waitForStateFields: INodeProperties[] = [
+	{
+		...transactionIdField,
+		displayOptions: {
+			show: {
+				mode: ['advanced'],
+				operation: ['waitForState'],
+			},
+		},
+	},
+	{
+		displayName: 'Target States',
+		name: 'targetStates',
+		type: 'multiOptions',
+		required: true,
+		options: [
+			{ name: 'INITIATED', value: 'INITIATED' },
+			{ name: 'QUOTED', value: 'QUOTED' },
+			{ name: 'COMMITTED', value: 'COMMITTED' },
+			{ name: 'IN_PROGRESS', value: 'IN_PROGRESS' },
+			{ name: 'DELIVERED', value: 'DELIVERED' },
+			{ name: 'SETTLED', value: 'SETTLED' },
+			{ name: 'DISPUTED', value: 'DISPUTED' },
+			{ name: 'CANCELLED', value: 'CANCELLED' },
+		],
+		default: ['DELIVERED'],
+		description:
+			'Stop waiting when the transaction reaches any of these states. Fails early if it ends in SETTLED or CANCELLED instead.',
+		displayOptions: {
+			show: {
+				mode: ['advanced'],
+				operation: ['waitForState'],
+			},
+		},
+	},
+	{
+		displayName: 'Poll Interval (Seconds)',
+		name: 'pollInterval',
+		type: 'number',
+		typeOptions: {
+			minValue: 1,
+		},
+		default: 10,
+		description: 'How often to check the transaction state',
+		displayOptions: {
+			show: {
+				mode: ['advanced'],
+				operation: ['waitForState'],
+			},
+		},
+	},
+	{
+		displayName: 'Max Wait (Seconds)',
+		name: 'maxWait',
+		type: 'number',
+		typeOptions: {
+			minValue: 1,
+		},
+		default: 300,
+		description:
+			'Maximum time to wait. On timeout the node outputs timedOut: true with the current state instead of failing.',
+		displayOptions: {
+			show: {
+				mode: ['advanced'],
+				operation: ['waitForState'],
+			},
+		},
+	},
+];
+
 /**
  * Cancel fields (Advanced mode)
  */
@@ -348,6 +493,40 @@ export const cancelAdvancedFields: INodeProperties[] = [
 	},
 ];
 
+/**
+ * Sweep Expired fields
+ */
+export const sweepExpiredFields: INodeProperties[] = [
+	{
+		displayName: 'Cancel Expired',
+		name: 'cancelExpired',
+		type: 'boolean',
+		default: false,
+		displayOptions: {
+			show: {
+				mode: ['advanced'],
+				operation: ['sweepExpired'],
+			},
+		},
+		description:
+			'Whether to cancel each expired transaction and return its escrow to you. Off only reports them.',
+	},
+	{
+		displayName: 'From Block',
+		name: 'fromBlock',
+		type: 'number',
+		default: 0,
+		displayOptions: {
+			show: {
+				mode: ['advanced'],
+				operation: ['sweepExpired'],
+			},
+		},
+		description:
+			'Testnet/mainnet only: first block to scan for transactions. 0 scans the last 100,000 blocks (~2.3 days).',
+	},
+];
+
 /**
  * All Advanced mode fields combined
  */
@@ -356,13 +535,21 @@ export const advancedFields: INodeProperties[] = [
 	...createTransactionFields,
 	...linkEscrowFields,
 	...transitionStateFields,
+	...submitQuoteFields,
+	...acceptQuoteFields,
+	...rejectQuoteFields,
 	...releaseEscrowFields,
+	...createAttestationFields,
 	...getEscrowBalanceFields,
 	...getTransactionFields,
+	...waitForStateFields,
 	...cancelAdvancedFields,
+	...sweepExpiredFields,
 	...x402PayFields,
 	...resolveAgentFields,
 	...verifyAgentFields,
 	...reportReputationFields,
 	...getReputationFields,
+	...getWalletBalanceAdvancedFields,
+	...listTransactionsAdvancedFields,
 ];
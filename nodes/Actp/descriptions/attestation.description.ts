@@ -0,0 +1,88 @@
+/**
+ * EAS Attestation Field Descriptions
+ *
+ * Delivery attestations for escrow release.
+ * Advanced mode: createAttestation
+ * Simple/Advanced release: auto attestation option
+ */
+
+import type { INodeProperties } from 'n8n-workflow';
+import { transactionIdField } from './common.fields';
+
+/**
+ * Auto attestation option for releases (base definition, displayOptions overridden per mode)
+ */
+export const autoAttestationField: INodeProperties = {
+	displayName: 'Auto Attestation',
+	name: 'autoAttestation',
+	type: 'options',
+	options: [
+		{
+			name: 'Off',
+			value: 'none',
+			description: 'Release without an attestation unless a UID is pasted',
+		},
+		{
+			name: 'Look Up',
+			value: 'lookUp',
+			description: 'Use the latest existing delivery attestation; fail if there is none',
+		},
+		{
+			name: 'Create',
+			value: 'create',
+			description: 'Create a new delivery attestation from your wallet',
+		},
+		{
+			name: 'Look Up or Create',
+			value: 'lookUpOrCreate',
+			description: 'Use an existing delivery attestation, or create one if none exists',
+		},
+	],
+	default: 'none',
+	description: 'How to get an EAS attestation when Attestation UID is empty',
+};
+
+/**
+ * Create Attestation fields (Advanced mode)
+ */
+export const createAttestationFields: INodeProperties[] = [
+	{
+		...transactionIdField,
+		displayOptions: {
+			show: {
+				mode: ['advanced'],
+				operation: ['createAttestation'],
+			},
+		},
+	},
+	{
+		displayName: 'Content Hash',
+		name: 'contentHash',
+		type: 'string',
+		required: false,
+		default: '',
+		placeholder: '0x... (leave empty to use the transaction content hash)',
+		description: 'Deliverable hash to attest. Leave empty to use the content hash recorded on the transaction.',
+		displayOptions: {
+			show: {
+				mode: ['advanced'],
+				operation: ['createAttestation'],
+			},
+		},
+	},
+	{
+		displayName: 'Schema UID',
+		name: 'schemaUID',
+		type: 'string',
+		required: false,
+		default: '',
+		placeholder: '0x... (leave empty for the credential\'s delivery schema)',
+		description: 'Custom EAS schema UID. It must be registered on the network and encode (bytes32 transactionId, bytes32 contentHash, address provider).',
+		displayOptions: {
+			show: {
+				mode: ['advanced'],
+				operation: ['createAttestation'],
+			},
+		},
+	},
+];
@@ -7,7 +7,7 @@
 import type { INodeProperties } from 'n8n-workflow';
 
 /**
- * Mode selector (Simple vs Advanced)
+ * Mode selector (Simple, Advanced, or Sandbox for mock runtime controls)
  */
 export const modeField: INodeProperties = {
 	displayName: 'Mode',
@@ -25,11 +25,116 @@ export const modeField: INodeProperties = {
 			value: 'advanced',
 			description: 'Full control over ACTP protocol operations',
 		},
+		{
+			name: 'Sandbox (Mock Only)',
+			value: 'sandbox',
+			description: 'Control the mock runtime: mint tokens, advance time, reset or dump state',
+		},
 	],
 	default: 'simple',
 	description: 'Choose Simple for ease-of-use or Advanced for full protocol control',
 };
 
+/**
+ * Dry Run toggle (node-level, shown only for operations that support it)
+ */
+export const dryRunField: INodeProperties = {
+	displayName: 'Dry Run',
+	name: 'dryRun',
+	type: 'boolean',
+	default: false,
+	description:
+		'Whether to validate inputs, check preconditions and price typical gas without sending anything. Returns the would-be result with dryRun: true.',
+	displayOptions: {
+		show: {
+			mode: ['simple', 'advanced'],
+			operation: [
+				'sendPayment',
+				'releasePayment',
+				'cancel',
+				'linkEscrow',
+				'transitionState',
+				'releaseEscrow',
+				'cancelAdvanced',
+				'sweepExpired',
+				'reportReputation',
+			],
+		},
+	},
+};
+
+/**
+ * Node-level Options (timeout and retry policy for SDK calls)
+ */
+export const optionsField: INodeProperties = {
+	displayName: 'Options',
+	name: 'options',
+	type: 'collection',
+	placeholder: 'Add Option',
+	default: {},
+	options: [
+		{
+			displayName: 'Timeout (Seconds)',
+			name: 'timeout',
+			type: 'number',
+			typeOptions: {
+				minValue: 1,
+			},
+			default: 30,
+			description: 'How long each SDK call may take before it fails. Raise this on mainnet when confirmations are slow.',
+		},
+		{
+			displayName: 'Max Attempts',
+			name: 'maxAttempts',
+			type: 'number',
+			typeOptions: {
+				minValue: 1,
+				maxValue: 10,
+			},
+			default: 3,
+			description: 'Total attempts per SDK call, including the first. 1 = no retries.',
+		},
+		{
+			displayName: 'Retry Base Delay (Ms)',
+			name: 'retryBaseDelay',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 1000,
+			description: 'Delay before the first retry. Doubles on each further retry.',
+		},
+		{
+			displayName: 'Retry Jitter',
+			name: 'retryJitter',
+			type: 'boolean',
+			default: false,
+			description: 'Whether to randomize each retry delay between 50% and 100% of the backoff, so parallel executions do not retry in lockstep',
+		},
+		{
+			displayName: 'Retry On',
+			name: 'retryOn',
+			type: 'multiOptions',
+			options: [
+				{
+					name: 'Rate Limits',
+					value: 'rateLimit',
+				},
+				{
+					name: 'Network Errors',
+					value: 'network',
+				},
+				{
+					name: 'RPC Timeouts',
+					value: 'timeout',
+				},
+			],
+			default: ['rateLimit', 'network', 'timeout'],
+			description: 'Transient errors that are retried. A call that hits the node timeout is never retried, since it may still complete.',
+		},
+	],
+};
+
 /**
  * Transaction ID field (reusable)
  */
@@ -43,6 +148,19 @@ export const transactionIdField: INodeProperties = {
 	description: 'The 66-character transaction ID (0x + 64 hex characters)',
 };
 
+/**
+ * Idempotency key field (base definition, displayOptions overridden per operation)
+ */
+export const idempotencyKeyField: INodeProperties = {
+	displayName: 'Idempotency Key',
+	name: 'idempotencyKey',
+	type: 'string',
+	default: '',
+	placeholder: '={{ $json.orderId }}',
+	description:
+		'Optional unique key for this payment, such as an order ID. The key is bound to the transaction through its service description; if a payment with the same key was already created from this wallet, the existing transaction is returned instead of paying again.',
+};
+
 /**
  * Amount field (user-friendly parsing)
  */
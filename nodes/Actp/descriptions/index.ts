@@ -4,9 +4,10 @@
  * Exports all field definitions for the n8n UI.
  */
 
-export { modeField } from './common.fields';
+export { modeField, dryRunField, optionsField } from './common.fields';
 export { simpleFields, simpleOperationField } from './simple.description';
 export { advancedFields, advancedOperationField } from './advanced.description';
+export { sandboxFields, sandboxOperationField } from './sandbox.description';
 
 // Re-export individual field groups for flexibility
 export * from './common.fields';
@@ -14,3 +15,8 @@ export * from './simple.description';
 export * from './advanced.description';
 export * from './x402.description';
 export * from './erc8004.description';
+export * from './wallet.description';
+export * from './quote.description';
+export * from './listing.description';
+export * from './attestation.description';
+export * from './sandbox.description';
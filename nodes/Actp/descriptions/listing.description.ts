@@ -0,0 +1,195 @@
+/**
+ * Transaction Listing Field Descriptions
+ *
+ * Search the wallet's transactions with filters and pagination.
+ * Simple and Advanced mode: listTransactions
+ * Simple mode: listIncomingJobs
+ */
+
+import type { INodeProperties } from 'n8n-workflow';
+
+/**
+ * List Transactions fields (base definitions, displayOptions added per mode)
+ */
+const listTransactionsBase: INodeProperties[] = [
+	{
+		displayName: 'Filters',
+		name: 'filters',
+		type: 'collection',
+		placeholder: 'Add Filter',
+		default: {},
+		options: [
+			{
+				displayName: 'Role',
+				name: 'role',
+				type: 'options',
+				options: [
+					{ name: 'Any', value: 'any' },
+					{ name: 'Requester', value: 'requester', description: 'Transactions you pay for' },
+					{ name: 'Provider', value: 'provider', description: 'Transactions you get paid for' },
+				],
+				default: 'any',
+				description: 'Your role in the transaction',
+			},
+			{
+				displayName: 'States',
+				name: 'states',
+				type: 'multiOptions',
+				options: [
+					{ name: 'INITIATED', value: 'INITIATED' },
+					{ name: 'QUOTED', value: 'QUOTED' },
+					{ name: 'COMMITTED', value: 'COMMITTED' },
+					{ name: 'IN_PROGRESS', value: 'IN_PROGRESS' },
+					{ name: 'DELIVERED', value: 'DELIVERED' },
+					{ name: 'SETTLED', value: 'SETTLED' },
+					{ name: 'DISPUTED', value: 'DISPUTED' },
+					{ name: 'CANCELLED', value: 'CANCELLED' },
+				],
+				default: [],
+				description: 'Only include transactions in one of these states',
+			},
+			{
+				displayName: 'Counterparty',
+				name: 'counterparty',
+				type: 'string',
+				default: '',
+				placeholder: '0x...',
+				description: 'Only include transactions with this provider or requester',
+			},
+			{
+				displayName: 'Min Amount (USDC)',
+				name: 'minAmount',
+				type: 'string',
+				default: '',
+				placeholder: '10',
+				description: 'Only include transactions of at least this amount',
+			},
+			{
+				displayName: 'Max Amount (USDC)',
+				name: 'maxAmount',
+				type: 'string',
+				default: '',
+				placeholder: '1000',
+				description: 'Only include transactions of at most this amount',
+			},
+			{
+				displayName: 'Created After',
+				name: 'createdAfter',
+				type: 'dateTime',
+				default: '',
+				description: 'Only include transactions created at or after this time',
+			},
+			{
+				displayName: 'Created Before',
+				name: 'createdBefore',
+				type: 'dateTime',
+				default: '',
+				description: 'Only include transactions created at or before this time',
+			},
+			{
+				displayName: 'From Block',
+				name: 'fromBlock',
+				type: 'number',
+				default: 0,
+				description:
+					'Testnet/mainnet only: first block to scan for transactions. 0 scans the last 100,000 blocks (~2.3 days).',
+			},
+		],
+	},
+	{
+		displayName: 'Page',
+		name: 'page',
+		type: 'number',
+		default: 1,
+		typeOptions: {
+			minValue: 1,
+		},
+		description: 'Page of results to return (newest transactions first)',
+	},
+	{
+		displayName: 'Page Size',
+		name: 'pageSize',
+		type: 'number',
+		default: 50,
+		typeOptions: {
+			minValue: 1,
+			maxValue: 500,
+		},
+		description: 'Maximum transactions per page',
+	},
+];
+
+/**
+ * Attach mode-specific displayOptions to the base fields
+ */
+function forMode(mode: 'simple' | 'advanced'): INodeProperties[] {
+	return listTransactionsBase.map((field) => ({
+		...field,
+		displayOptions: {
+			show: {
+				mode: [mode],
+				operation: ['listTransactions'],
+			},
+		},
+	}));
+}
+
+/**
+ * List Transactions fields (Simple mode)
+ */
+export const listTransactionsSimpleFields: INodeProperties[] = forMode('simple');
+
+/**
+ * List Transactions fields (Advanced mode)
+ */
+export const listTransactionsAdvancedFields: INodeProperties[] = forMode('advanced');
+
+/**
+ * List Incoming Jobs fields (Simple mode)
+ */
+export const listIncomingJobsFields: INodeProperties[] = [
+	{
+		displayName: 'Include Expired',
+		name: 'includeExpired',
+		type: 'boolean',
+		default: false,
+		displayOptions: {
+			show: {
+				mode: ['simple'],
+				operation: ['listIncomingJobs'],
+			},
+		},
+		description: 'Whether to include jobs whose deadline has already passed',
+	},
+	{
+		displayName: 'Limit',
+		name: 'limit',
+		type: 'number',
+		default: 50,
+		typeOptions: {
+			minValue: 1,
+			maxValue: 500,
+		},
+		displayOptions: {
+			show: {
+				mode: ['simple'],
+				operation: ['listIncomingJobs'],
+			},
+		},
+		description: 'Max number of jobs to return',
+	},
+	{
+		displayName: 'From Block',
+		name: 'fromBlock',
+		type: 'number',
+		default: 0,
+		displayOptions: {
+			show: {
+				mode: ['simple'],
+				operation: ['listIncomingJobs'],
+			},
+		},
+		description:
+			'Testnet/mainnet only: first block to scan for transactions. 0 scans the last 100,000 blocks (~2.3 days).',
+	},
+];
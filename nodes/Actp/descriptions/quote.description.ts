@@ -0,0 +1,84 @@
+/**
+ * Quote Flow Field Descriptions
+ *
+ * Price negotiation between INITIATED and COMMITTED.
+ * Advanced mode: submitQuote, acceptQuote, rejectQuote
+ */
+
+import type { INodeProperties } from 'n8n-workflow';
+import { transactionIdField, amountField } from './common.fields';
+
+/**
+ * Quote amount field (base definition, description overridden per operation)
+ */
+const quoteAmountBase: INodeProperties = {
+	...amountField,
+	displayName: 'Quote Amount (USDC)',
+	name: 'quoteAmount',
+};
+
+/**
+ * Submit Quote fields (provider)
+ */
+export const submitQuoteFields: INodeProperties[] = [
+	{
+		...transactionIdField,
+		displayOptions: {
+			show: {
+				mode: ['advanced'],
+				operation: ['submitQuote'],
+			},
+		},
+	},
+	{
+		...quoteAmountBase,
+		description: 'Price you are asking for this job. Supports formats: "100", "100.50", "$100"',
+		displayOptions: {
+			show: {
+				mode: ['advanced'],
+				operation: ['submitQuote'],
+			},
+		},
+	},
+];
+
+/**
+ * Accept Quote fields (requester)
+ */
+export const acceptQuoteFields: INodeProperties[] = [
+	{
+		...transactionIdField,
+		displayOptions: {
+			show: {
+				mode: ['advanced'],
+				operation: ['acceptQuote'],
+			},
+		},
+	},
+	{
+		...quoteAmountBase,
+		description:
+			'Quoted amount you agree to pay. Escrow is funded with this amount instead of the original one. Supports formats: "100", "100.50", "$100"',
+		displayOptions: {
+			show: {
+				mode: ['advanced'],
+				operation: ['acceptQuote'],
+			},
+		},
+	},
+];
+
+/**
+ * Reject Quote fields (requester)
+ */
+export const rejectQuoteFields: INodeProperties[] = [
+	{
+		...transactionIdField,
+		displayOptions: {
+			show: {
+				mode: ['advanced'],
+				operation: ['rejectQuote'],
+			},
+		},
+	},
+];
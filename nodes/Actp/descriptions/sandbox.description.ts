@@ -0,0 +1,116 @@
+/**
+ * Sandbox Mode Field Descriptions
+ *
+ * Mock runtime controls for building end-to-end test workflows.
+ * Only works with credentials whose environment is Mock.
+ */
+
+import type { INodeProperties } from 'n8n-workflow';
+
+/**
+ * Sandbox mode operation selector
+ */
+export const sandboxOperationField: INodeProperties = {
+	displayName: 'Operation',
+	name: 'operation',
+	type: 'options',
+	noDataExpression: true,
+	displayOptions: {
+		show: {
+			mode: ['sandbox'],
+		},
+	},
+	options: [
+		{
+			name: 'Mint Tokens',
+			value: 'mintTokens',
+			description: 'Credit mock USDC to a wallet',
+			action: 'Mint mock tokens',
+		},
+		{
+			name: 'Advance Time',
+			value: 'advanceTime',
+			description: 'Move the mock clock forward (e.g. past deadlines or dispute windows)',
+			action: 'Advance mock time',
+		},
+		{
+			name: 'Reset State',
+			value: 'resetState',
+			description: 'Delete all mock transactions and balances',
+			action: 'Reset mock state',
+		},
+		{
+			name: 'Dump State',
+			value: 'dumpState',
+			description: 'Output all mock transactions, balances and the current mock time',
+			action: 'Dump mock state',
+		},
+	],
+	default: 'mintTokens',
+};
+
+/**
+ * Mint Tokens fields
+ */
+export const mintTokensFields: INodeProperties[] = [
+	{
+		displayName: 'Wallet Address',
+		name: 'mintAddress',
+		type: 'string',
+		required: false,
+		default: '',
+		placeholder: '0x... (leave empty for your wallet)',
+		description: 'Address to credit. Leave empty to credit the wallet from your ACTP credentials.',
+		displayOptions: {
+			show: {
+				mode: ['sandbox'],
+				operation: ['mintTokens'],
+			},
+		},
+	},
+	{
+		displayName: 'Amount (USDC)',
+		name: 'mintAmount',
+		type: 'string',
+		required: true,
+		default: '1000',
+		placeholder: '1000',
+		description: 'Amount of mock USDC to mint',
+		displayOptions: {
+			show: {
+				mode: ['sandbox'],
+				operation: ['mintTokens'],
+			},
+		},
+	},
+];
+
+/**
+ * Advance Time fields
+ */
+export const advanceTimeFields: INodeProperties[] = [
+	{
+		displayName: 'Duration',
+		name: 'duration',
+		type: 'string',
+		required: true,
+		default: '1h',
+		placeholder: '1h, 2d, 30m, or seconds',
+		description: 'How far to move the mock clock forward. Seconds (3600) or time format (30m, 1h, 2d).',
+		displayOptions: {
+			show: {
+				mode: ['sandbox'],
+				operation: ['advanceTime'],
+			},
+		},
+	},
+];
+
+/**
+ * All Sandbox mode fields combined
+ */
+export const sandboxFields: INodeProperties[] = [
+	sandboxOperationField,
+	...mintTokensFields,
+	...advanceTimeFields,
+];
@@ -10,9 +10,13 @@ import {
 	amountField,
 	deadlineField,
 	disputeWindowField,
+	idempotencyKeyField,
 } from './common.fields';
 import { paidHttpRequestFields } from './x402.description';
 import { lookupAgentFields } from './erc8004.description';
+import { getWalletBalanceSimpleFields } from './wallet.description';
+import { listTransactionsSimpleFields, listIncomingJobsFields } from './listing.description';
+import { autoAttestationField } from './attestation.description';
 
 /**
  * Simple mode operation selector
@@ -47,6 +51,18 @@ export const simpleOperationField: INodeProperties = {
 			description: 'Get transaction status and available actions',
 			action: 'Check transaction status',
 		},
+		{
+			name: 'List Transactions',
+			value: 'listTransactions',
+			description: 'Find your transactions by role, state, counterparty, amount or date',
+			action: 'List transactions',
+		},
+		{
+			name: 'Verify Delivery',
+			value: 'verifyDelivery',
+			description: 'Check a received deliverable against the on-chain content hash',
+			action: 'Verify a delivery',
+		},
 		{
 			name: 'Release Payment',
 			value: 'releasePayment',
@@ -66,6 +82,12 @@ export const simpleOperationField: INodeProperties = {
 			action: 'Cancel transaction',
 		},
 		// === Provider Operations ===
+		{
+			name: 'List Incoming Jobs',
+			value: 'listIncomingJobs',
+			description: 'Provider: Find funded jobs waiting for you to start, soonest deadline first',
+			action: 'List incoming jobs',
+		},
 		{
 			name: 'Start Work',
 			value: 'startWork',
@@ -78,6 +100,12 @@ export const simpleOperationField: INodeProperties = {
 			description: 'Provider: Mark work as complete/delivered',
 			action: 'Mark as delivered',
 		},
+		{
+			name: 'Claim After Dispute Window',
+			value: 'claimAfterDisputeWindow',
+			description: 'Provider: Settle once the dispute window has expired, or get the time when possible',
+			action: 'Claim payment after dispute window',
+		},
 		// === Identity Operations ===
 		{
 			name: 'Lookup Agent',
@@ -85,6 +113,13 @@ export const simpleOperationField: INodeProperties = {
 			description: 'Look up an agent\'s identity and wallet via ERC-8004 (testnet/mainnet)',
 			action: 'Look up agent identity',
 		},
+		// === Wallet Operations ===
+		{
+			name: 'Get Wallet Balance',
+			value: 'getWalletBalance',
+			description: 'Get USDC and ETH balance of your wallet or any address',
+			action: 'Get wallet balance',
+		},
 	],
 	default: 'sendPayment',
 };
@@ -135,6 +170,48 @@ export const sendPaymentFields: INodeProperties[] = [
 			},
 		},
 	},
+	{
+		...idempotencyKeyField,
+		displayOptions: {
+			show: {
+				mode: ['simple'],
+				operation: ['sendPayment'],
+			},
+		},
+	},
+	{
+		displayName: 'Batch Mode',
+		name: 'batchMode',
+		type: 'boolean',
+		default: false,
+		description:
+			'Whether to pay all input items in one batch. Validates every item and checks the total against your USDC balance before sending anything, then outputs one result per item plus a summary.',
+		displayOptions: {
+			show: {
+				mode: ['simple'],
+				operation: ['sendPayment'],
+			},
+		},
+	},
+	{
+		displayName: 'Concurrency',
+		name: 'batchConcurrency',
+		type: 'number',
+		typeOptions: {
+			minValue: 1,
+			maxValue: 20,
+		},
+		default: 3,
+		description:
+			'Maximum payments submitted at the same time. Use 1 if your RPC provider reports nonce errors.',
+		displayOptions: {
+			show: {
+				mode: ['simple'],
+				operation: ['sendPayment'],
+				batchMode: [true],
+			},
+		},
+	},
 ];
 
 /**
@@ -180,6 +257,152 @@ export const markDeliveredFields: INodeProperties[] = [
 			},
 		},
 	},
+	{
+		displayName: 'Deliverable',
+		name: 'deliverableSource',
+		type: 'options',
+		options: [
+			{
+				name: 'None',
+				value: 'none',
+				description: 'Only record the dispute window',
+			},
+			{
+				name: 'Binary File',
+				value: 'binary',
+				description: 'Hash a binary property of the input item',
+			},
+			{
+				name: 'JSON',
+				value: 'json',
+				description: 'Hash a JSON payload (keys sorted before hashing)',
+			},
+		],
+		default: 'none',
+		description:
+			'Deliverable to hash (keccak256) into the delivery proof, so the requester can verify what they received',
+		displayOptions: {
+			show: {
+				mode: ['simple'],
+				operation: ['markDelivered'],
+			},
+		},
+	},
+	{
+		displayName: 'Binary Property',
+		name: 'binaryPropertyName',
+		type: 'string',
+		required: true,
+		default: 'data',
+		description: 'Name of the binary property holding the deliverable',
+		displayOptions: {
+			show: {
+				mode: ['simple'],
+				operation: ['markDelivered'],
+				deliverableSource: ['binary'],
+			},
+		},
+	},
+	{
+		displayName: 'Deliverable JSON',
+		name: 'deliverableJson',
+		type: 'json',
+		required: true,
+		default: '{}',
+		description: 'JSON payload delivered to the requester',
+		displayOptions: {
+			show: {
+				mode: ['simple'],
+				operation: ['markDelivered'],
+				deliverableSource: ['json'],
+			},
+		},
+	},
+];
+
+/**
+ * Verify Delivery fields
+ */
+export const verifyDeliveryFields: INodeProperties[] = [
+	{
+		...transactionIdField,
+		displayOptions: {
+			show: {
+				mode: ['simple'],
+				operation: ['verifyDelivery'],
+			},
+		},
+	},
+	{
+		displayName: 'Deliverable',
+		name: 'deliverableSource',
+		type: 'options',
+		options: [
+			{
+				name: 'Binary File',
+				value: 'binary',
+				description: 'Hash a binary property of the input item',
+			},
+			{
+				name: 'JSON',
+				value: 'json',
+				description: 'Hash a JSON payload (keys sorted before hashing)',
+			},
+		],
+		default: 'json',
+		description: 'The deliverable you received, hashed the same way as Mark Delivered',
+		displayOptions: {
+			show: {
+				mode: ['simple'],
+				operation: ['verifyDelivery'],
+			},
+		},
+	},
+	{
+		displayName: 'Binary Property',
+		name: 'binaryPropertyName',
+		type: 'string',
+		required: true,
+		default: 'data',
+		description: 'Name of the binary property holding the deliverable',
+		displayOptions: {
+			show: {
+				mode: ['simple'],
+				operation: ['verifyDelivery'],
+				deliverableSource: ['binary'],
+			},
+		},
+	},
+	{
+		displayName: 'Deliverable JSON',
+		name: 'deliverableJson',
+		type: 'json',
+		required: true,
+		default: '{}',
+		description: 'JSON payload received from the provider',
+		displayOptions: {
+			show: {
+				mode: ['simple'],
+				operation: ['verifyDelivery'],
+				deliverableSource: ['json'],
+			},
+		},
+	},
+];
+
+/**
+ * Claim After Dispute Window fields
+ */
+export const claimAfterDisputeWindowFields: INodeProperties[] = [
+	{
+		...transactionIdField,
+		displayOptions: {
+			show: {
+				mode: ['simple'],
+				operation: ['claimAfterDisputeWindow'],
+			},
+		},
+	},
 ];
 
 /**
@@ -211,6 +434,15 @@ export const releasePaymentFields: INodeProperties[] = [
 			},
 		},
 	},
+	{
+		...autoAttestationField,
+		displayOptions: {
+			show: {
+				mode: ['simple'],
+				operation: ['releasePayment'],
+			},
+		},
+	},
 ];
 
 /**
@@ -268,8 +500,13 @@ export const simpleFields: INodeProperties[] = [
 	...checkStatusFields,
 	...startWorkFields,
 	...markDeliveredFields,
+	...claimAfterDisputeWindowFields,
+	...verifyDeliveryFields,
 	...releasePaymentFields,
 	...raiseDisputeFields,
 	...cancelSimpleFields,
 	...lookupAgentFields,
+	...getWalletBalanceSimpleFields,
+	...listTransactionsSimpleFields,
+	...listIncomingJobsFields,
 ];
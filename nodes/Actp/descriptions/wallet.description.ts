@@ -0,0 +1,51 @@
+/**
+ * Wallet Field Descriptions
+ *
+ * Balance queries for the credential wallet or any address.
+ * Simple and Advanced mode: getWalletBalance
+ */
+
+import type { INodeProperties } from 'n8n-workflow';
+
+/**
+ * Reusable wallet address field (base definition, displayOptions overridden per mode)
+ */
+const walletAddressBase: INodeProperties = {
+	displayName: 'Wallet Address',
+	name: 'walletAddress',
+	type: 'string',
+	required: false,
+	default: '',
+	placeholder: '0x... (leave empty for your wallet)',
+	description: 'Address to check. Leave empty to check the wallet from your ACTP credentials.',
+};
+
+/**
+ * Get Wallet Balance fields (Simple mode)
+ */
+export const getWalletBalanceSimpleFields: INodeProperties[] = [
+	{
+		...walletAddressBase,
+		displayOptions: {
+			show: {
+				mode: ['simple'],
+				operation: ['getWalletBalance'],
+			},
+		},
+	},
+];
+
+/**
+ * Get Wallet Balance fields (Advanced mode)
+ */
+export const getWalletBalanceAdvancedFields: INodeProperties[] = [
+	{
+		...walletAddressBase,
+		displayOptions: {
+			show: {
+				mode: ['advanced'],
+				operation: ['getWalletBalance'],
+			},
+		},
+	},
+];
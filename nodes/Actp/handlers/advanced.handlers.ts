@@ -10,6 +10,7 @@ import { NodeOperationError } from 'n8n-workflow';
 import { ACTPClient } from '@agirails/sdk';
 import { ethers } from 'ethers';
 import {
+	parseAmount,
 	parseDeadline,
 	parseDisputeWindow,
 	parseAddress,
@@ -17,10 +18,42 @@ import {
 	formatTransactionAdvanced,
 	formatSuccess,
 	sanitizeError,
+	toActpError,
+	formatFailedItem,
 	stateStringToNumber,
 	getTransactionOrThrow,
 	executeSDKOperation,
 	validateTransitionState,
+	formatTransactionData,
+	assertTransitionAllowed,
+	assertSufficientFunds,
+	assertSpendingPolicy,
+	recordSpend,
+	resolveReleaseAttestation,
+	type AutoAttestationMode,
+	isDryRun,
+	getTypicalGasCost,
+	formatDryRun,
+	previewRelease,
+	formatAmount,
+	beginFeeTracking,
+	collectFees,
+	parseIdempotencyKey,
+	findIdempotentPayment,
+	recordIdempotencyKey,
+	bindIdempotencyKey,
+	formatIdempotentReplay,
+	sdkStateToNumber,
+	stateNumberToString,
+	TERMINAL_STATES,
+	formatDuration,
+	formatTimestamp,
+	getClientAddress,
+	getRuntimeTime,
+	listWalletTransactions,
+	matchesTransactionFilter,
+	type FeeReport,
+	type TransactionData,
 } from '../utils';
 
 /**
@@ -28,6 +61,10 @@ import {
  *
  * Creates a transaction in INITIATED state.
  * Must call linkEscrow separately to fund.
+ * Checks the credential spending policy up front; the amount counts toward the
+ * 24h limit once Link Escrow funds it.
+ * With an idempotency key, returns the existing transaction for the key instead of creating another
+ * (the key is bound to the transaction through a tag in its service description).
  */
 export async function handleCreateTransaction(
 	context: IExecuteFunctions,
@@ -51,6 +88,33 @@ export async function handleCreateTransaction(
 		const parsedProvider = parseAddress(provider, 'Provider address');
 		const parsedDeadline = parseDeadline(deadlineInput);
 		const parsedDisputeWindow = parseDisputeWindow(disputeWindowInput);
+		const amountWei = parseAmount(amount);
+		const idempotencyKey = parseIdempotencyKey(
+			context.getNodeParameter('idempotencyKey', itemIndex, ''),
+		);
+
+		// Already created under this key (e.g. a retried execution): return that transaction
+		if (idempotencyKey) {
+			const replay = await findIdempotentPayment(
+				context,
+				client,
+				idempotencyKey,
+				parsedProvider,
+				amountWei,
+				itemIndex,
+				'createTransaction',
+				serviceDescription || undefined,
+			);
+			if (replay) {
+				return [
+					{ json: formatSuccess('createTransaction', formatIdempotentReplay(idempotencyKey, replay)) },
+				];
+			}
+		}
+
+		await assertSpendingPolicy(context, client, { address: parsedProvider }, amountWei, itemIndex);
+
+		const feeTracking = await beginFeeTracking(context, client, itemIndex);
 
 		// Create transaction with timeout and retry protection
 		const txId = await executeSDKOperation(
@@ -59,12 +123,23 @@ export async function handleCreateTransaction(
 				amount,
 				deadline: parsedDeadline,
 				disputeWindow: parsedDisputeWindow,
-				serviceDescription: serviceDescription || undefined,
+				serviceDescription: idempotencyKey
+					? bindIdempotencyKey(idempotencyKey, serviceDescription || undefined)
+					: serviceDescription || undefined,
 			}),
 			'createTransaction',
 			context,
 			itemIndex,
 		);
+		if (idempotencyKey) {
+			recordIdempotencyKey(context, client, idempotencyKey, {
+				transactionId: txId,
+				operation: 'createTransaction',
+				provider: parsedProvider,
+				amountWei: amountWei.toString(),
+			});
+		}
+		const fees = await collectFees(feeTracking);
 
 		// Get created transaction
 		const tx = await getTransactionOrThrow(client, txId, context, itemIndex);
@@ -79,16 +154,15 @@ export async function handleCreateTransaction(
 					deadline: new Date(parsedDeadline * 1000).toISOString(),
 					disputeWindow: parsedDisputeWindow,
 					serviceDescription: serviceDescription || undefined,
+					idempotencyKey,
+					...fees,
 					message: 'Transaction created. Call Link Escrow to fund it.',
 				} as IDataObject),
 			},
 		];
 	} catch (error) {
-		throw new NodeOperationError(
-			context.getNode(),
-			sanitizeError(error as Error),
-			{ itemIndex },
-		);
+		if (error instanceof NodeOperationError) throw error;
+		throw toActpError(context.getNode(), error, itemIndex);
 	}
 }
 
@@ -97,6 +171,8 @@ export async function handleCreateTransaction(
  *
  * Automatically transitions INITIATED → COMMITTED.
  * Locks funds in escrow.
+ * Enforces the credential spending policy (the amount counts toward the 24h limit),
+ * then pre-flight checks USDC balance and gas before submitting.
  */
 export async function handleLinkEscrow(
 	context: IExecuteFunctions,
@@ -107,6 +183,30 @@ export async function handleLinkEscrow(
 		const txId = context.getNodeParameter('transactionId', itemIndex) as string;
 		const parsedTxId = parseTransactionId(txId);
 
+		// Fail fast with an actionable message instead of an on-chain revert
+		const pending = await getTransactionOrThrow(client, parsedTxId, context, itemIndex);
+		assertTransitionAllowed(client, pending, 'COMMITTED', context, itemIndex);
+		const amountWei = BigInt(pending.amount);
+		await assertSpendingPolicy(context, client, { address: pending.provider }, amountWei, itemIndex);
+		await assertSufficientFunds(context, client, amountWei, itemIndex);
+
+		if (isDryRun(context, itemIndex)) {
+			const gas = await getTypicalGasCost(context, client, 'linkEscrow', itemIndex);
+			return [
+				{
+					json: formatDryRun('linkEscrow', {
+						transactionId: parsedTxId,
+						amount: formatAmount(pending.amount),
+						previousState: pending.state,
+						state: 'COMMITTED',
+						message: `would lock ${formatAmount(pending.amount)} in escrow`,
+					}, gas),
+				},
+			];
+		}
+
+		const feeTracking = await beginFeeTracking(context, client, itemIndex);
+
 		// Link escrow with timeout and retry protection
 		const escrowId = await executeSDKOperation(
 			() => client.standard.linkEscrow(parsedTxId),
@@ -114,6 +214,8 @@ export async function handleLinkEscrow(
 			context,
 			itemIndex,
 		);
+		recordSpend(context, client, amountWei);
+		const fees = await collectFees(feeTracking);
 
 		// Get updated transaction
 		const tx = await getTransactionOrThrow(client, parsedTxId, context, itemIndex);
@@ -124,23 +226,22 @@ export async function handleLinkEscrow(
 					transactionId: parsedTxId,
 					escrowId,
 					state: tx.state,
+					...fees,
 					message: 'Escrow linked. Funds are now locked. Provider can start work.',
 				} as IDataObject),
 			},
 		];
 	} catch (error) {
-		throw new NodeOperationError(
-			context.getNode(),
-			sanitizeError(error as Error),
-			{ itemIndex },
-		);
+		if (error instanceof NodeOperationError) throw error;
+		throw toActpError(context.getNode(), error, itemIndex);
 	}
 }
 
 /**
  * Transition State - Manually change transaction state
  *
- * Valid transitions are enforced by the protocol.
+ * Transitions are pre-validated against the client-side state machine
+ * (see state.machine.ts) before anything is sent on-chain.
  *
  * MAINNET: For DELIVERED transition, proof is required to set dispute window.
  * If no proof provided for DELIVERED, auto-encodes from transaction's disputeWindow.
@@ -163,6 +264,9 @@ export async function handleTransitionState(
 		const txBefore = await getTransactionOrThrow(client, parsedTxId, context, itemIndex);
 		const stateBefore = txBefore.state;
 
+		// Pre-validate against the state machine before sending anything on-chain
+		assertTransitionAllowed(client, txBefore, validatedState, context, itemIndex);
+
 		// MAINNET FIX: Auto-encode dispute window proof for DELIVERED if not provided
 		let proof: string | undefined = proofInput || undefined;
 		if (validatedState === 'DELIVERED' && !proof) {
@@ -171,6 +275,23 @@ export async function handleTransitionState(
 			proof = abiCoder.encode(['uint256'], [disputeWindowSeconds]);
 		}
 
+		if (isDryRun(context, itemIndex)) {
+			const gas = await getTypicalGasCost(context, client, 'transitionState', itemIndex);
+			return [
+				{
+					json: formatDryRun('transitionState', {
+						transactionId: parsedTxId,
+						previousState: stateBefore,
+						newState: validatedState,
+						proof: proof || undefined,
+						message: `would transition from ${stateBefore} to ${validatedState}`,
+					}, gas),
+				},
+			];
+		}
+
+		const feeTracking = await beginFeeTracking(context, client, itemIndex);
+
 		// Transition state with timeout and retry protection
 		await executeSDKOperation(
 			() => client.standard.transitionState(parsedTxId, validatedState, proof),
@@ -178,6 +299,7 @@ export async function handleTransitionState(
 			context,
 			itemIndex,
 		);
+		const fees = await collectFees(feeTracking);
 
 		// Get updated transaction
 		const txAfter = await getTransactionOrThrow(client, parsedTxId, context, itemIndex);
@@ -189,16 +311,14 @@ export async function handleTransitionState(
 					previousState: stateBefore,
 					newState: txAfter.state,
 					proof: proof || undefined,
+					...fees,
 					message: `State transitioned from ${stateBefore} to ${txAfter.state}.`,
 				} as IDataObject),
 			},
 		];
 	} catch (error) {
-		throw new NodeOperationError(
-			context.getNode(),
-			sanitizeError(error as Error),
-			{ itemIndex },
-		);
+		if (error instanceof NodeOperationError) throw error;
+		throw toActpError(context.getNode(), error, itemIndex);
 	}
 }
 
@@ -207,6 +327,7 @@ export async function handleTransitionState(
  *
  * Can only be called when transaction is DELIVERED
  * and dispute window has expired.
+ * With Auto Attestation, the UID is looked up and/or created when not pasted.
  */
 export async function handleReleaseEscrow(
 	context: IExecuteFunctions,
@@ -215,7 +336,51 @@ export async function handleReleaseEscrow(
 ): Promise<INodeExecutionData[]> {
 	try {
 		const escrowId = context.getNodeParameter('escrowId', itemIndex) as string;
-		const attestationUID = context.getNodeParameter('attestationUID', itemIndex, '') as string;
+		const autoAttestation = context.getNodeParameter(
+			'autoAttestation',
+			itemIndex,
+			'none',
+		) as AutoAttestationMode;
+		let attestationUID = context.getNodeParameter('attestationUID', itemIndex, '') as string;
+
+		if (isDryRun(context, itemIndex)) {
+			const tx = await getTransactionOrThrow(client, escrowId, context, itemIndex);
+			const preview = await executeSDKOperation(
+				() => previewRelease(context, client, escrowId, tx, attestationUID, autoAttestation, itemIndex),
+				'resolveAttestation',
+				context,
+				itemIndex,
+			);
+			const gas = await getTypicalGasCost(context, client, 'releaseEscrow', itemIndex);
+			return [
+				{
+					json: formatDryRun('releaseEscrow', {
+						escrowId,
+						amount: formatAmount(tx.amount),
+						state: 'SETTLED',
+						...preview,
+						message: `would release ${formatAmount(tx.amount)} to ${tx.provider}`,
+					}, gas),
+				},
+			];
+		}
+
+		const feeTracking = await beginFeeTracking(context, client, itemIndex);
+
+		// No pasted UID: look up / create according to Auto Attestation
+		if (!attestationUID && autoAttestation !== 'none') {
+			const tx = await getTransactionOrThrow(client, escrowId, context, itemIndex);
+			// Look-up reads retry on their own; a created attestation is never retried
+			const attestation = await resolveReleaseAttestation(
+				context,
+				client,
+				escrowId,
+				tx,
+				autoAttestation,
+				itemIndex,
+			);
+			attestationUID = attestation?.uid ?? '';
+		}
 
 		// Build attestation params if provided
 		const attestationParams = attestationUID
@@ -229,22 +394,22 @@ export async function handleReleaseEscrow(
 			context,
 			itemIndex,
 		);
+		const fees = await collectFees(feeTracking);
 
 		return [
 			{
 				json: formatSuccess('releaseEscrow', {
 					escrowId,
 					state: 'SETTLED',
+					attestationUID: attestationUID || undefined,
+					...fees,
 					message: 'Escrow released. Funds transferred to provider.',
 				} as IDataObject),
 			},
 		];
 	} catch (error) {
-		throw new NodeOperationError(
-			context.getNode(),
-			sanitizeError(error as Error),
-			{ itemIndex },
-		);
+		if (error instanceof NodeOperationError) throw error;
+		throw toActpError(context.getNode(), error, itemIndex);
 	}
 }
 
@@ -283,11 +448,93 @@ export async function handleGetTransaction(
 			},
 		];
 	} catch (error) {
-		throw new NodeOperationError(
-			context.getNode(),
-			sanitizeError(error as Error),
-			{ itemIndex },
+		throw toActpError(context.getNode(), error, itemIndex);
+	}
+}
+
+/**
+ * Wait For State - Poll a transaction until it reaches a target state
+ *
+ * Returns the formatted transaction once one of the target states is reached,
+ * or a timeout result (timedOut: true) when maxWait elapses.
+ * Fails fast if the transaction lands in a terminal state (SETTLED/CANCELLED)
+ * that is not one of the targets.
+ */
+export async function handleWaitForState(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	try {
+		const txId = context.getNodeParameter('transactionId', itemIndex) as string;
+		const targetStatesInput = context.getNodeParameter('targetStates', itemIndex, []) as string[];
+		const pollIntervalSeconds = context.getNodeParameter('pollInterval', itemIndex, 10) as number;
+		const maxWaitSeconds = context.getNodeParameter('maxWait', itemIndex, 300) as number;
+		const parsedTxId = parseTransactionId(txId);
+
+		if (targetStatesInput.length === 0) {
+			throw new Error('At least one target state is required');
+		}
+		if (pollIntervalSeconds <= 0 || maxWaitSeconds <= 0) {
+			throw new Error('Poll interval and max wait must be greater than 0 seconds');
+		}
+
+		// Normalize targets (throws on unknown state names)
+		const targetStates = targetStatesInput.map((state) =>
+			stateNumberToString(stateStringToNumber(state)),
 		);
+
+		const startedAt = Date.now();
+		const deadline = startedAt + maxWaitSeconds * 1000;
+
+		for (;;) {
+			const tx = await getTransactionOrThrow(client, parsedTxId, context, itemIndex);
+			const currentState = stateNumberToString(sdkStateToNumber(tx.state));
+			const waitedSeconds = Math.floor((Date.now() - startedAt) / 1000);
+
+			if (targetStates.includes(currentState)) {
+				return [
+					{
+						json: formatSuccess('waitForState', {
+							...formatTransactionData(parsedTxId, tx),
+							timedOut: false,
+							targetStates,
+							waitedSeconds,
+							message: `Transaction reached ${currentState} after ${waitedSeconds}s.`,
+						}),
+					},
+				];
+			}
+
+			if (TERMINAL_STATES.includes(sdkStateToNumber(tx.state))) {
+				throw new Error(
+					`Transaction reached terminal state ${currentState} and can never reach ${targetStates.join(' or ')}`,
+				);
+			}
+
+			const remainingMs = deadline - Date.now();
+			if (remainingMs <= 0) {
+				return [
+					{
+						json: {
+							success: false,
+							operation: 'waitForState',
+							timedOut: true,
+							transactionId: parsedTxId,
+							state: currentState,
+							targetStates,
+							waitedSeconds,
+							message: `Timed out after ${waitedSeconds}s waiting for ${targetStates.join(' or ')}. Current state: ${currentState}.`,
+						} as IDataObject,
+					},
+				];
+			}
+
+			const delayMs = Math.min(pollIntervalSeconds * 1000, remainingMs);
+			await new Promise((resolve) => setTimeout(resolve, delayMs));
+		}
+	} catch (error) {
+		throw toActpError(context.getNode(), error, itemIndex);
 	}
 }
 
@@ -320,14 +567,35 @@ export async function handleGetEscrowBalance(
 			},
 		];
 	} catch (error) {
-		throw new NodeOperationError(
-			context.getNode(),
-			sanitizeError(error as Error),
-			{ itemIndex },
-		);
+		throw toActpError(context.getNode(), error, itemIndex);
 	}
 }
 
+/**
+ * Send the CANCELLED transition (shared by Cancel and Sweep Expired)
+ *
+ * Callers validate the transition with assertTransitionAllowed first.
+ *
+ * @returns Fees paid by the cancellation
+ */
+async function cancelTransaction(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	txId: string,
+	itemIndex: number,
+): Promise<FeeReport> {
+	const feeTracking = await beginFeeTracking(context, client, itemIndex);
+
+	// Transition to CANCELLED with timeout and retry protection
+	await executeSDKOperation(
+		() => client.standard.transitionState(txId, 'CANCELLED'),
+		'transitionState',
+		context,
+		itemIndex,
+	);
+	return collectFees(feeTracking);
+}
+
 /**
  * Cancel Transaction - Cancel in advanced mode
  *
@@ -346,13 +614,24 @@ export async function handleCancelAdvanced(
 		const txBefore = await getTransactionOrThrow(client, parsedTxId, context, itemIndex);
 		const stateBefore = txBefore.state;
 
-		// Transition to CANCELLED with timeout and retry protection
-		await executeSDKOperation(
-			() => client.standard.transitionState(parsedTxId, 'CANCELLED'),
-			'transitionState',
-			context,
-			itemIndex,
-		);
+		// Pre-validate against the state machine before sending anything on-chain
+		assertTransitionAllowed(client, txBefore, 'CANCELLED', context, itemIndex);
+
+		if (isDryRun(context, itemIndex)) {
+			const gas = await getTypicalGasCost(context, client, 'cancel', itemIndex);
+			return [
+				{
+					json: formatDryRun('cancel', {
+						transactionId: parsedTxId,
+						previousState: stateBefore,
+						newState: 'CANCELLED',
+						message: 'would cancel the transaction and return escrow funds to the requester',
+					}, gas),
+				},
+			];
+		}
+
+		const fees = await cancelTransaction(context, client, parsedTxId, itemIndex);
 
 		return [
 			{
@@ -360,15 +639,140 @@ export async function handleCancelAdvanced(
 					transactionId: parsedTxId,
 					previousState: stateBefore,
 					newState: 'CANCELLED',
+					...fees,
 					message: 'Transaction cancelled. Escrow funds returned to requester.',
 				} as IDataObject),
 			},
 		];
 	} catch (error) {
-		throw new NodeOperationError(
-			context.getNode(),
-			sanitizeError(error as Error),
-			{ itemIndex },
+		if (error instanceof NodeOperationError) throw error;
+		throw toActpError(context.getNode(), error, itemIndex);
+	}
+}
+
+/**
+ * States a requester can still cancel once the deadline has passed
+ */
+const SWEEPABLE_STATES = ['INITIATED', 'COMMITTED', 'IN_PROGRESS'];
+
+/**
+ * Escrow returned to the requester when a transaction in this state is cancelled
+ *
+ * INITIATED transactions have no escrow linked yet.
+ */
+function refundableAmount(tx: TransactionData): bigint {
+	return stateNumberToString(sdkStateToNumber(tx.state)) === 'INITIATED' ? 0n : BigInt(tx.amount);
+}
+
+/**
+ * Sweep Expired - Find and optionally cancel transactions past their deadline
+ *
+ * Scans the wallet's transactions as requester for ones past their deadline
+ * that are still INITIATED, COMMITTED or IN_PROGRESS (oldest deadline first).
+ * With Cancel Expired on, each is cancelled through the same path as Cancel,
+ * returning escrow to the requester. Returns one item per expired transaction.
+ *
+ * A failed cancellation is reported on its item and the sweep continues,
+ * since earlier cancellations are already on-chain.
+ */
+export async function handleSweepExpired(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	try {
+		const cancelExpired = context.getNodeParameter('cancelExpired', itemIndex, false) as boolean;
+		const fromBlock = context.getNodeParameter('fromBlock', itemIndex, 0) as number;
+		const dryRun = cancelExpired && isDryRun(context, itemIndex);
+
+		const address = getClientAddress(client);
+		const transactions = await listWalletTransactions(
+			context,
+			client,
+			fromBlock || undefined,
+			itemIndex,
 		);
+
+		const now = getRuntimeTime(client);
+		const expired = transactions
+			.filter((tx) =>
+				matchesTransactionFilter(tx, address, { role: 'requester', states: SWEEPABLE_STATES }),
+			)
+			.filter((tx) => tx.deadline > 0 && tx.deadline <= now)
+			.sort((a, b) => a.deadline - b.deadline);
+
+		const gas =
+			dryRun && expired.length > 0
+				? await getTypicalGasCost(context, client, 'cancel', itemIndex)
+				: undefined;
+
+		const results: INodeExecutionData[] = [];
+		for (const tx of expired) {
+			const previousState = stateNumberToString(sdkStateToNumber(tx.state));
+			const refund = refundableAmount(tx);
+			const details: IDataObject = {
+				transactionId: tx.id,
+				provider: tx.provider,
+				previousState,
+				deadline: formatTimestamp(tx.deadline),
+				overdueBy: formatDuration(now - tx.deadline),
+				amountRefunded: formatAmount(refund),
+				amountRefundedWei: refund.toString(),
+			};
+
+			if (!cancelExpired) {
+				results.push({
+					json: formatSuccess('sweepExpired', {
+						...details,
+						cancelled: false,
+						message: `Transaction is past its deadline in ${previousState}. Turn on Cancel Expired to reclaim ${formatAmount(refund)}.`,
+					}),
+				});
+				continue;
+			}
+
+			if (gas) {
+				assertTransitionAllowed(client, tx, 'CANCELLED', context, itemIndex);
+				results.push({
+					json: formatDryRun('sweepExpired', {
+						...details,
+						newState: 'CANCELLED',
+						message: `would cancel the expired transaction and return ${formatAmount(refund)} to the requester`,
+					}, gas),
+				});
+				continue;
+			}
+
+			try {
+				assertTransitionAllowed(client, tx, 'CANCELLED', context, itemIndex);
+				const fees = await cancelTransaction(context, client, tx.id, itemIndex);
+				results.push({
+					json: formatSuccess('sweepExpired', {
+						...details,
+						newState: 'CANCELLED',
+						cancelled: true,
+						...fees,
+						message: `Expired transaction cancelled. ${formatAmount(refund)} returned to requester.`,
+					} as IDataObject),
+				});
+			} catch (error) {
+				const actpError = toActpError(context.getNode(), error, itemIndex);
+				results.push(
+					formatFailedItem(context, actpError, itemIndex, {
+						operation: 'sweepExpired',
+						...details,
+						amountRefunded: formatAmount(0n),
+						amountRefundedWei: '0',
+						cancelled: false,
+						message: `Could not cancel the expired transaction: ${actpError.message}`,
+					}),
+				);
+			}
+		}
+
+		return results;
+	} catch (error) {
+		if (error instanceof NodeOperationError) throw error;
+		throw toActpError(context.getNode(), error, itemIndex);
 	}
 }
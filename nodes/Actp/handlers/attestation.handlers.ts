@@ -0,0 +1,89 @@
+/**
+ * EAS Attestation Handlers
+ *
+ * Create delivery attestations for ACTP transactions.
+ * Testnet/mainnet write to EAS on Base; mock mode uses a local stand-in.
+ */
+
+import type { IExecuteFunctions, INodeExecutionData, IDataObject } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { ACTPClient } from '@agirails/sdk';
+import {
+	parseTransactionId,
+	formatSuccess,
+	formatTimestamp,
+	toActpError,
+	getTransactionOrThrow,
+	createDeliveryAttestation,
+	beginFeeTracking,
+	collectFees,
+} from '../utils';
+
+/**
+ * Validate an optional bytes32 input
+ */
+function parseOptionalBytes32(value: string, fieldName: string): string | undefined {
+	const trimmed = value.trim();
+	if (!trimmed) return undefined;
+	if (!/^0x[0-9a-fA-F]{64}$/.test(trimmed)) {
+		throw new Error(`${fieldName} must be 0x followed by 64 hex characters`);
+	}
+	return trimmed.toLowerCase();
+}
+
+/**
+ * Create Attestation (Advanced mode)
+ *
+ * Attests (schema, transactionId, contentHash, provider) with the
+ * requester as recipient and returns the attestation UID for releases.
+ */
+export async function handleCreateAttestation(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	try {
+		const txId = context.getNodeParameter('transactionId', itemIndex) as string;
+		const contentHashInput = context.getNodeParameter('contentHash', itemIndex, '') as string;
+		const schemaInput = context.getNodeParameter('schemaUID', itemIndex, '') as string;
+		const parsedTxId = parseTransactionId(txId);
+		const contentHash = parseOptionalBytes32(contentHashInput, 'Content hash');
+		const schemaUID = parseOptionalBytes32(schemaInput, 'Schema UID');
+
+		const tx = await getTransactionOrThrow(client, parsedTxId, context, itemIndex);
+
+		const feeTracking = await beginFeeTracking(context, client, itemIndex);
+
+		// Not retried: a second attempt after a broadcast could attest twice
+		const attestation = await createDeliveryAttestation(
+			context,
+			client,
+			parsedTxId,
+			tx,
+			itemIndex,
+			contentHash,
+			schemaUID,
+		);
+		const fees = await collectFees(feeTracking, [attestation.txHash]);
+
+		return [
+			{
+				json: formatSuccess('createAttestation', {
+					attestationUID: attestation.uid,
+					schemaUID: attestation.schema,
+					transactionId: parsedTxId,
+					contentHash: attestation.contentHash,
+					provider: attestation.provider,
+					recipient: attestation.recipient,
+					attester: attestation.attester,
+					createdAt: formatTimestamp(attestation.time),
+					...fees,
+					message: `Delivery attestation ${attestation.uid} created. Use it as Attestation UID when releasing.`,
+				} as IDataObject),
+			},
+		];
+	} catch (error) {
+		if (error instanceof NodeOperationError) throw error;
+		throw toActpError(context.getNode(), error, itemIndex);
+	}
+}
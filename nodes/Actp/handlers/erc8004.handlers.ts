@@ -9,11 +9,23 @@ import type { IExecuteFunctions, INodeExecutionData, IDataObject } from 'n8n-wor
 import { NodeOperationError } from 'n8n-workflow';
 import type { ACTPClient } from '@agirails/sdk';
 import { ERC8004Bridge, ReputationReporter } from '@agirails/sdk';
-import { Wallet as EthersWallet, JsonRpcProvider } from 'ethers';
 import {
 	formatSuccess,
-	sanitizeError,
+	toActpError,
 	executeSDKOperation,
+	getExecutionResource,
+	getJsonRpcProvider,
+	LruCache,
+	PROTOCOL_CONSTANTS,
+	resolveSigner,
+	parseTransactionId,
+	getTransactionOrThrow,
+	isDryRun,
+	getTypicalGasCost,
+	formatDryRun,
+	beginFeeTracking,
+	collectFees,
+	getResultTxHash,
 } from '../utils';
 
 /**
@@ -28,12 +40,15 @@ function getERC8004Network(mode: string): 'base-sepolia' | 'base' {
 }
 
 /**
- * Bridge cache (keyed by network:rpcUrl)
+ * Bridge cache across executions (keyed by network:rpcUrl)
  */
-const bridgeCache = new Map<string, ERC8004Bridge>();
+const bridgeCache = new LruCache<ERC8004Bridge>({
+	maxEntries: PROTOCOL_CONSTANTS.CACHE_MAX_ENTRIES,
+	ttlMs: PROTOCOL_CONSTANTS.CACHE_TTL_MS,
+});
 
 /**
- * Get or create a cached ERC8004Bridge
+ * Get or create a cached ERC8004Bridge (resolved once per execution)
  */
 async function getOrCreateBridge(
 	context: IExecuteFunctions,
@@ -41,43 +56,39 @@ async function getOrCreateBridge(
 	itemIndex: number,
 ): Promise<ERC8004Bridge> {
 	const network = getERC8004Network(client.info.mode);
-	const credentials = await context.getCredentials('actpApi', itemIndex);
-	const rpcUrl = (credentials.rpcUrl as string) || undefined;
-	const cacheKey = `${network}:${rpcUrl || 'default'}`;
 
-	if (bridgeCache.has(cacheKey)) {
-		return bridgeCache.get(cacheKey)!;
-	}
+	return getExecutionResource(context, itemIndex, `erc8004Bridge:${network}`, async (credentials) => {
+		const rpcUrl = (credentials.rpcUrl as string) || undefined;
+		const cacheKey = `${network}:${rpcUrl || 'default'}`;
 
-	const bridge = new ERC8004Bridge({ network, rpcUrl });
-	bridgeCache.set(cacheKey, bridge);
-	return bridge;
+		let bridge = bridgeCache.get(cacheKey);
+		if (!bridge) {
+			bridge = new ERC8004Bridge({ network, rpcUrl });
+			bridgeCache.set(cacheKey, bridge);
+		}
+		return bridge;
+	});
 }
 
 /**
- * Create a ReputationReporter (requires signer for write operations)
+ * Get a ReputationReporter (requires signer for write operations)
+ *
+ * Resolved once per execution, on the execution's shared provider.
  */
-async function createReporter(
+async function getOrCreateReporter(
 	context: IExecuteFunctions,
 	client: ACTPClient,
 	itemIndex: number,
 ): Promise<ReputationReporter> {
 	const network = getERC8004Network(client.info.mode);
-	const credentials = await context.getCredentials('actpApi', itemIndex);
-	const privateKey = credentials.privateKey as string;
 
-	if (!privateKey) {
-		throw new Error('Reputation operations require a private key (testnet/mainnet)');
-	}
+	return getExecutionResource(context, itemIndex, `erc8004Reporter:${network}`, async (credentials) => {
+		const provider = await getJsonRpcProvider(context, client, itemIndex);
+		const signer = await resolveSigner(credentials, provider);
 
-	const rpcUrl = (credentials.rpcUrl as string) || undefined;
-	const defaultRpc =
-		network === 'base-sepolia' ? 'https://sepolia.base.org' : 'https://mainnet.base.org';
-	const provider = new JsonRpcProvider(rpcUrl || defaultRpc);
-	const signer = new EthersWallet(privateKey, provider);
-
-	// Cast signer to avoid cross-dependency ethers type mismatch (npm link)
-	return new ReputationReporter({ network, signer: signer as any });
+		// Cast signer to avoid cross-dependency ethers type mismatch (npm link)
+		return new ReputationReporter({ network, signer: signer as any });
+	});
 }
 
 /**
@@ -115,9 +126,7 @@ export async function handleLookupAgent(
 			},
 		];
 	} catch (error) {
-		throw new NodeOperationError(context.getNode(), sanitizeError(error as Error), {
-			itemIndex,
-		});
+		throw toActpError(context.getNode(), error, itemIndex);
 	}
 }
 
@@ -155,9 +164,7 @@ export async function handleResolveAgent(
 			},
 		];
 	} catch (error) {
-		throw new NodeOperationError(context.getNode(), sanitizeError(error as Error), {
-			itemIndex,
-		});
+		throw toActpError(context.getNode(), error, itemIndex);
 	}
 }
 
@@ -204,9 +211,7 @@ export async function handleVerifyAgent(
 			},
 		];
 	} catch (error) {
-		throw new NodeOperationError(context.getNode(), sanitizeError(error as Error), {
-			itemIndex,
-		});
+		throw toActpError(context.getNode(), error, itemIndex);
 	}
 }
 
@@ -227,7 +232,26 @@ export async function handleReportReputation(
 		const reportType = context.getNodeParameter('reportType', itemIndex) as string;
 		const capability = context.getNodeParameter('capability', itemIndex, '') as string;
 
-		const reporter = await createReporter(context, client, itemIndex);
+		if (isDryRun(context, itemIndex)) {
+			const tx = await getTransactionOrThrow(client, parseTransactionId(txId), context, itemIndex);
+			const gas = await getTypicalGasCost(context, client, 'reportReputation', itemIndex);
+			return [
+				{
+					json: formatDryRun('reportReputation', {
+						agentId,
+						transactionId: txId,
+						transactionState: tx.state,
+						reportType,
+						message: `would report a ${reportType} for agent ${agentId}`,
+					}, gas),
+				},
+			];
+		}
+
+		// Resolved after the dry-run return: it unlocks the wallet's signer
+		const reporter = await getOrCreateReporter(context, client, itemIndex);
+
+		const feeTracking = await beginFeeTracking(context, client, itemIndex);
 
 		let result;
 		if (reportType === 'settlement') {
@@ -260,6 +284,7 @@ export async function handleReportReputation(
 				itemIndex,
 			);
 		}
+		const fees = await collectFees(feeTracking, [getResultTxHash(result)]);
 
 		return [
 			{
@@ -267,9 +292,10 @@ export async function handleReportReputation(
 					agentId,
 					transactionId: txId,
 					reportType,
-					txHash: result?.txHash || undefined,
-					blockNumber: result?.blockNumber || undefined,
-					gasUsed: result?.gasUsed?.toString() || undefined,
+					...fees,
+					txHash: result?.txHash || fees.txHash,
+					blockNumber: result?.blockNumber || fees.blockNumber,
+					gasUsed: result?.gasUsed?.toString() || fees.gasUsed,
 					submitted: result !== null,
 					message: result
 						? `Reputation ${reportType} reported. TX: ${result.txHash}`
@@ -278,9 +304,8 @@ export async function handleReportReputation(
 			},
 		];
 	} catch (error) {
-		throw new NodeOperationError(context.getNode(), sanitizeError(error as Error), {
-			itemIndex,
-		});
+		if (error instanceof NodeOperationError) throw error;
+		throw toActpError(context.getNode(), error, itemIndex);
 	}
 }
 
@@ -299,7 +324,7 @@ export async function handleGetReputation(
 		const agentId = context.getNodeParameter('agentId', itemIndex) as string;
 		const capability = context.getNodeParameter('capability', itemIndex, '') as string;
 
-		const reporter = await createReporter(context, client, itemIndex);
+		const reporter = await getOrCreateReporter(context, client, itemIndex);
 
 		const reputation = await executeSDKOperation(
 			() => reporter.getAgentReputation(agentId, capability || undefined),
@@ -322,8 +347,6 @@ export async function handleGetReputation(
 			},
 		];
 	} catch (error) {
-		throw new NodeOperationError(context.getNode(), sanitizeError(error as Error), {
-			itemIndex,
-		});
+		throw toActpError(context.getNode(), error, itemIndex);
 	}
 }
@@ -1,15 +1,18 @@
 /**
  * ACTP Operation Handlers
  *
- * Exports all operation handlers for Simple and Advanced modes.
+ * Exports all operation handlers for Simple, Advanced and Sandbox modes.
  */
 
 // Simple mode handlers
 export {
 	handleSendPayment,
+	handleSendPaymentBatch,
 	handleCheckStatus,
 	handleStartWork,
 	handleMarkDelivered,
+	handleClaimAfterDisputeWindow,
+	handleVerifyDelivery,
 	handleReleasePayment,
 	handleRaiseDispute,
 	handleCancelSimple,
@@ -22,10 +25,24 @@ export {
 	handleTransitionState,
 	handleReleaseEscrow,
 	handleGetTransaction,
+	handleWaitForState,
 	handleGetEscrowBalance,
 	handleCancelAdvanced,
+	handleSweepExpired,
 } from './advanced.handlers';
 
+// EAS attestation handlers
+export {
+	handleCreateAttestation,
+} from './attestation.handlers';
+
+// Quote flow handlers
+export {
+	handleSubmitQuote,
+	handleAcceptQuote,
+	handleRejectQuote,
+} from './quote.handlers';
+
 // x402 handlers
 export {
 	handlePaidHttpRequest,
@@ -40,3 +57,22 @@ export {
 	handleReportReputation,
 	handleGetReputation,
 } from './erc8004.handlers';
+
+// Wallet handlers
+export {
+	handleGetWalletBalance,
+} from './wallet.handlers';
+
+// Listing handlers
+export {
+	handleListTransactions,
+	handleListIncomingJobs,
+} from './listing.handlers';
+
+// Sandbox mode handlers
+export {
+	handleMintTokens,
+	handleAdvanceTime,
+	handleResetState,
+	handleDumpState,
+} from './sandbox.handlers';
@@ -0,0 +1,239 @@
+/**
+ * Transaction Listing Handlers
+ *
+ * Search the wallet's transactions with filters and pagination.
+ * Simple mode outputs formatTransactionSimple, Advanced mode
+ * formatTransactionAdvanced.
+ *
+ * Also the provider inbox: listIncomingJobs.
+ */
+
+import type { IExecuteFunctions, INodeExecutionData, IDataObject } from 'n8n-workflow';
+import type { ACTPClient } from '@agirails/sdk';
+import {
+	parseAmountFilter,
+	parseAddress,
+	parseStateToEnum,
+	formatTransactionSimple,
+	formatTransactionData,
+	formatSuccess,
+	formatAmount,
+	formatDuration,
+	formatTimestamp,
+	toActpError,
+	sdkStateToNumber,
+	stateNumberToString,
+	getClientAddress,
+	getRuntimeTime,
+	listWalletTransactions,
+	matchesTransactionFilter,
+	paginateTransactions,
+	PROTOCOL_CONSTANTS,
+	type TransactionFilter,
+} from '../utils';
+
+/**
+ * Raw filter collection from the node UI
+ */
+interface FilterInput {
+	role?: 'any' | 'requester' | 'provider';
+	states?: string[];
+	counterparty?: string;
+	minAmount?: string;
+	maxAmount?: string;
+	createdAfter?: string;
+	createdBefore?: string;
+	fromBlock?: number;
+}
+
+/**
+ * Parse a dateTime field to Unix seconds
+ */
+function parseDateFilter(value: string, fieldName: string): number {
+	const ms = Date.parse(value);
+	if (Number.isNaN(ms)) {
+		throw new Error(`${fieldName}: invalid date "${value}"`);
+	}
+	return Math.floor(ms / 1000);
+}
+
+/**
+ * Validate UI filters into a TransactionFilter
+ */
+export function parseTransactionFilter(input: FilterInput): TransactionFilter {
+	const filter: TransactionFilter = {
+		role: input.role ?? 'any',
+		states: (input.states ?? []).map((state) => stateNumberToString(parseStateToEnum(state))),
+	};
+
+	if (input.counterparty?.trim()) {
+		filter.counterparty = parseAddress(input.counterparty, 'Counterparty');
+	}
+	if (input.minAmount?.trim()) {
+		filter.minAmount = parseAmountFilter(input.minAmount, 'Min amount');
+	}
+	if (input.maxAmount?.trim()) {
+		filter.maxAmount = parseAmountFilter(input.maxAmount, 'Max amount');
+	}
+	if (
+		filter.minAmount !== undefined &&
+		filter.maxAmount !== undefined &&
+		filter.minAmount > filter.maxAmount
+	) {
+		throw new Error('Min amount cannot be greater than max amount');
+	}
+	if (input.createdAfter) {
+		filter.createdAfter = parseDateFilter(input.createdAfter, 'Created after');
+	}
+	if (input.createdBefore) {
+		filter.createdBefore = parseDateFilter(input.createdBefore, 'Created before');
+	}
+
+	return filter;
+}
+
+/**
+ * List Transactions (Simple and Advanced mode)
+ *
+ * Returns a single item with the requested page of matching transactions
+ * (newest first) and pagination metadata.
+ */
+export async function handleListTransactions(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	try {
+		const mode = context.getNodeParameter('mode', itemIndex) as string;
+		const filterInput = context.getNodeParameter('filters', itemIndex, {}) as FilterInput;
+		const page = context.getNodeParameter('page', itemIndex, 1) as number;
+		const pageSize = context.getNodeParameter(
+			'pageSize',
+			itemIndex,
+			PROTOCOL_CONSTANTS.DEFAULT_PAGE_SIZE,
+		) as number;
+
+		if (!Number.isInteger(page) || page < 1) {
+			throw new Error(`Page must be a positive integer. Got: ${page}`);
+		}
+		if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > PROTOCOL_CONSTANTS.MAX_PAGE_SIZE) {
+			throw new Error(
+				`Page size must be between 1 and ${PROTOCOL_CONSTANTS.MAX_PAGE_SIZE}. Got: ${pageSize}`,
+			);
+		}
+
+		const filter = parseTransactionFilter(filterInput);
+		const address = getClientAddress(client);
+
+		// Each log chunk and transaction read has its own timeout and retries
+		const transactions = await listWalletTransactions(
+			context,
+			client,
+			filterInput.fromBlock || undefined,
+			itemIndex,
+		);
+
+		const matching = transactions.filter((tx) => matchesTransactionFilter(tx, address, filter));
+		const result = paginateTransactions(matching, page, pageSize);
+
+		const formatted = result.transactions.map((tx) =>
+			mode === 'simple'
+				? formatTransactionSimple({
+					transactionId: tx.id,
+					state: sdkStateToNumber(tx.state),
+					amount: BigInt(tx.amount),
+					requester: tx.requester,
+					provider: tx.provider,
+					deadline: tx.deadline,
+					createdAt: tx.createdAt,
+					updatedAt: tx.updatedAt,
+				})
+				: formatTransactionData(tx.id, tx),
+		);
+
+		return [
+			{
+				json: formatSuccess('listTransactions', {
+					transactions: formatted,
+					count: formatted.length,
+					total: result.total,
+					page: result.page,
+					pageSize: result.pageSize,
+					totalPages: result.totalPages,
+					hasMore: result.hasMore,
+					message: `Found ${result.total} matching transaction(s). Showing page ${result.page} of ${result.totalPages}.`,
+				} as IDataObject),
+			},
+		];
+	} catch (error) {
+		throw toActpError(context.getNode(), error, itemIndex);
+	}
+}
+
+/**
+ * List Incoming Jobs (Simple mode)
+ *
+ * Provider inbox: COMMITTED transactions where the wallet is the provider,
+ * soonest deadline first. Returns one item per job so a workflow can feed
+ * each transactionId into Start Work, and no items when the inbox is empty.
+ */
+export async function handleListIncomingJobs(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	try {
+		const includeExpired = context.getNodeParameter('includeExpired', itemIndex, false) as boolean;
+		const limit = context.getNodeParameter(
+			'limit',
+			itemIndex,
+			PROTOCOL_CONSTANTS.DEFAULT_PAGE_SIZE,
+		) as number;
+		const fromBlock = context.getNodeParameter('fromBlock', itemIndex, 0) as number;
+
+		if (!Number.isInteger(limit) || limit < 1 || limit > PROTOCOL_CONSTANTS.MAX_PAGE_SIZE) {
+			throw new Error(`Limit must be between 1 and ${PROTOCOL_CONSTANTS.MAX_PAGE_SIZE}. Got: ${limit}`);
+		}
+
+		const address = getClientAddress(client);
+		const transactions = await listWalletTransactions(
+			context,
+			client,
+			fromBlock || undefined,
+			itemIndex,
+		);
+
+		const now = getRuntimeTime(client);
+		const jobs = transactions
+			.filter((tx) =>
+				matchesTransactionFilter(tx, address, { role: 'provider', states: ['COMMITTED'] }),
+			)
+			.filter((tx) => includeExpired || tx.deadline > now)
+			.sort((a, b) => a.deadline - b.deadline)
+			.slice(0, limit);
+
+		return jobs.map((tx) => {
+			const remaining = tx.deadline - now;
+			return {
+				json: formatSuccess('listIncomingJobs', {
+					transactionId: tx.id,
+					requester: tx.requester,
+					amount: formatAmount(tx.amount),
+					amountWei: tx.amount.toString(),
+					serviceDescription: tx.serviceDescription,
+					deadline: formatTimestamp(tx.deadline),
+					deadlineUnix: tx.deadline,
+					timeRemaining: formatDuration(remaining),
+					expired: remaining <= 0,
+					createdAt: tx.createdAt !== undefined ? formatTimestamp(tx.createdAt) : undefined,
+					message:
+						remaining > 0
+							? `Job for ${formatAmount(tx.amount)} from ${tx.requester}, due in ${formatDuration(remaining)}. Use Start Work to accept it.`
+							: `Job for ${formatAmount(tx.amount)} from ${tx.requester} is past its deadline.`,
+				} as IDataObject),
+			};
+		});
+	} catch (error) {
+		throw toActpError(context.getNode(), error, itemIndex);
+	}
+}
@@ -0,0 +1,211 @@
+/**
+ * Quote Flow Handlers
+ *
+ * Price negotiation path: INITIATED → QUOTED → COMMITTED (or CANCELLED).
+ * The provider posts a quote (amount ABI-encoded as proof), the requester
+ * accepts it by linking escrow or rejects it by cancelling.
+ */
+
+import type { IExecuteFunctions, INodeExecutionData, IDataObject } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { ACTPClient } from '@agirails/sdk';
+import { ethers } from 'ethers';
+import {
+	parseAmount,
+	parseTransactionId,
+	formatAmount,
+	formatQuoteComparison,
+	formatSuccess,
+	toActpError,
+	InvalidStateTransitionError,
+	getTransactionOrThrow,
+	executeSDKOperation,
+	assertTransitionAllowed,
+	assertSufficientFunds,
+	assertSpendingPolicy,
+	recordSpend,
+	beginFeeTracking,
+	collectFees,
+	sdkStateToNumber,
+	ACTPState,
+} from '../utils';
+import type { TransactionData } from '../utils';
+
+/**
+ * Encode a quoted amount (USDC wei) as transition proof
+ */
+export function encodeQuoteProof(quotedAmountWei: bigint): string {
+	return ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [quotedAmountWei]);
+}
+
+/**
+ * Ensure a transaction is waiting on a quote decision
+ */
+function assertQuoted(
+	tx: TransactionData,
+	txId: string,
+	context: IExecuteFunctions,
+	itemIndex: number,
+): void {
+	if (sdkStateToNumber(tx.state) !== ACTPState.QUOTED) {
+		throw new InvalidStateTransitionError(
+			context.getNode(),
+			`Transaction ${txId} is ${tx.state}, not QUOTED. There is no quote to respond to.`,
+			{ itemIndex },
+		);
+	}
+}
+
+/**
+ * Submit Quote - Provider proposes a price (INITIATED → QUOTED)
+ */
+export async function handleSubmitQuote(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	try {
+		const txId = context.getNodeParameter('transactionId', itemIndex) as string;
+		const quoteAmount = context.getNodeParameter('quoteAmount', itemIndex) as string | number;
+		const parsedTxId = parseTransactionId(txId);
+		const quotedWei = parseAmount(quoteAmount);
+
+		const tx = await getTransactionOrThrow(client, parsedTxId, context, itemIndex);
+		assertTransitionAllowed(client, tx, 'QUOTED', context, itemIndex);
+
+		const proof = encodeQuoteProof(quotedWei);
+
+		const feeTracking = await beginFeeTracking(context, client, itemIndex);
+
+		await executeSDKOperation(
+			() => client.standard.transitionState(parsedTxId, 'QUOTED', proof),
+			'submitQuote',
+			context,
+			itemIndex,
+		);
+		const fees = await collectFees(feeTracking);
+
+		const comparison = formatQuoteComparison(tx.amount, quotedWei);
+
+		return [
+			{
+				json: formatSuccess('submitQuote', {
+					transactionId: parsedTxId,
+					previousState: tx.state,
+					newState: 'QUOTED',
+					...comparison,
+					proof,
+					...fees,
+					message: `Quote of ${comparison.quotedAmount} submitted (original ${comparison.originalAmount}). Waiting for requester to accept or reject.`,
+				} as IDataObject),
+			},
+		];
+	} catch (error) {
+		if (error instanceof NodeOperationError) throw error;
+		throw toActpError(context.getNode(), error, itemIndex);
+	}
+}
+
+/**
+ * Accept Quote - Requester funds escrow at the quoted price (QUOTED → COMMITTED)
+ *
+ * Funds escrow with the quoted amount entered, not the original amount,
+ * through the runtime's linkEscrow (Standard Link Escrow always funds the
+ * original amount). Runs the spending policy and the same pre-flight funds
+ * check as Link Escrow against the quoted amount.
+ */
+export async function handleAcceptQuote(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	try {
+		const txId = context.getNodeParameter('transactionId', itemIndex) as string;
+		const quoteAmount = context.getNodeParameter('quoteAmount', itemIndex) as string | number;
+		const parsedTxId = parseTransactionId(txId);
+		const quotedWei = parseAmount(quoteAmount);
+
+		const tx = await getTransactionOrThrow(client, parsedTxId, context, itemIndex);
+		assertQuoted(tx, parsedTxId, context, itemIndex);
+		assertTransitionAllowed(client, tx, 'COMMITTED', context, itemIndex);
+
+		await assertSpendingPolicy(context, client, { address: tx.provider }, quotedWei, itemIndex);
+		await assertSufficientFunds(context, client, quotedWei, itemIndex);
+
+		const feeTracking = await beginFeeTracking(context, client, itemIndex);
+
+		const escrowId = await executeSDKOperation(
+			() => client.advanced.linkEscrow(parsedTxId, quotedWei.toString()),
+			'acceptQuote',
+			context,
+			itemIndex,
+		);
+		recordSpend(context, client, quotedWei);
+		const fees = await collectFees(feeTracking);
+
+		const txAfter = await getTransactionOrThrow(client, parsedTxId, context, itemIndex);
+		const comparison = formatQuoteComparison(tx.amount, quotedWei);
+
+		return [
+			{
+				json: formatSuccess('acceptQuote', {
+					transactionId: parsedTxId,
+					escrowId,
+					previousState: tx.state,
+					newState: txAfter.state,
+					amount: formatAmount(quotedWei),
+					amountWei: quotedWei.toString(),
+					...comparison,
+					...fees,
+					message: `Quote accepted. Escrow funded with ${comparison.quotedAmount} (original ${comparison.originalAmount}), provider can start work.`,
+				} as IDataObject),
+			},
+		];
+	} catch (error) {
+		if (error instanceof NodeOperationError) throw error;
+		throw toActpError(context.getNode(), error, itemIndex);
+	}
+}
+
+/**
+ * Reject Quote - Requester declines the quote (QUOTED → CANCELLED)
+ */
+export async function handleRejectQuote(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	try {
+		const txId = context.getNodeParameter('transactionId', itemIndex) as string;
+		const parsedTxId = parseTransactionId(txId);
+
+		const tx = await getTransactionOrThrow(client, parsedTxId, context, itemIndex);
+		assertQuoted(tx, parsedTxId, context, itemIndex);
+		assertTransitionAllowed(client, tx, 'CANCELLED', context, itemIndex);
+
+		const feeTracking = await beginFeeTracking(context, client, itemIndex);
+
+		await executeSDKOperation(
+			() => client.standard.transitionState(parsedTxId, 'CANCELLED'),
+			'rejectQuote',
+			context,
+			itemIndex,
+		);
+		const fees = await collectFees(feeTracking);
+
+		return [
+			{
+				json: formatSuccess('rejectQuote', {
+					transactionId: parsedTxId,
+					previousState: tx.state,
+					newState: 'CANCELLED',
+					...fees,
+					message: 'Quote rejected. Transaction cancelled.',
+				} as IDataObject),
+			},
+		];
+	} catch (error) {
+		if (error instanceof NodeOperationError) throw error;
+		throw toActpError(context.getNode(), error, itemIndex);
+	}
+}
@@ -0,0 +1,188 @@
+/**
+ * Sandbox Mode Operation Handlers
+ *
+ * Controls for the local mock runtime so workflow authors can build
+ * end-to-end tests for their payment logic inside n8n.
+ * Every operation fails outside mock mode.
+ */
+
+import type { IExecuteFunctions, INodeExecutionData, IDataObject } from 'n8n-workflow';
+import type { ACTPClient } from '@agirails/sdk';
+import {
+	parseAmount,
+	parseAddress,
+	parseDisputeWindow,
+	formatAmount,
+	formatTimestamp,
+	formatDuration,
+	formatSuccess,
+	toActpError,
+	executeSDKOperation,
+	getMockRuntime,
+	getClientAddress,
+	listMockTransactions,
+	formatTransactionData,
+} from '../utils';
+
+/**
+ * Mint Tokens - Credit mock USDC to a wallet
+ */
+export async function handleMintTokens(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	try {
+		const runtime = getMockRuntime(client);
+		const addressInput = context.getNodeParameter('mintAddress', itemIndex, '') as string;
+		const amount = context.getNodeParameter('mintAmount', itemIndex) as string | number;
+
+		const address = addressInput.trim()
+			? parseAddress(addressInput, 'Wallet address')
+			: getClientAddress(client);
+		const amountWei = parseAmount(amount);
+
+		await executeSDKOperation(
+			() => client.mintTokens(address, amountWei.toString()),
+			'mintTokens',
+			context,
+			itemIndex,
+		);
+
+		const balance = BigInt(await runtime.getBalance(address));
+
+		return [
+			{
+				json: formatSuccess('mintTokens', {
+					address,
+					minted: formatAmount(amountWei),
+					mintedWei: amountWei.toString(),
+					balance: formatAmount(balance),
+					balanceWei: balance.toString(),
+					message: `Minted ${formatAmount(amountWei)} to ${address}.`,
+				} as IDataObject),
+			},
+		];
+	} catch (error) {
+		throw toActpError(context.getNode(), error, itemIndex);
+	}
+}
+
+/**
+ * Advance Time - Move the mock clock forward
+ */
+export async function handleAdvanceTime(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	try {
+		const runtime = getMockRuntime(client);
+		const durationInput = context.getNodeParameter('duration', itemIndex) as string | number;
+
+		const seconds = parseDisputeWindow(durationInput);
+		if (seconds <= 0) {
+			throw new Error(`Duration must be positive. Got: ${durationInput}`);
+		}
+
+		await executeSDKOperation(
+			() => runtime.time.advanceTime(seconds),
+			'advanceTime',
+			context,
+			itemIndex,
+		);
+
+		const now = runtime.time.now();
+
+		return [
+			{
+				json: formatSuccess('advanceTime', {
+					advancedSeconds: seconds,
+					currentTime: now,
+					currentTimeISO: formatTimestamp(now),
+					message: `Mock clock advanced by ${formatDuration(seconds)}.`,
+				} as IDataObject),
+			},
+		];
+	} catch (error) {
+		throw toActpError(context.getNode(), error, itemIndex);
+	}
+}
+
+/**
+ * Reset State - Delete all mock transactions and balances
+ */
+export async function handleResetState(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	try {
+		getMockRuntime(client);
+
+		await executeSDKOperation(() => client.reset(), 'resetState', context, itemIndex);
+
+		return [
+			{
+				json: formatSuccess('resetState', {
+					message: 'Mock state reset. All transactions and balances were cleared.',
+				} as IDataObject),
+			},
+		];
+	} catch (error) {
+		throw toActpError(context.getNode(), error, itemIndex);
+	}
+}
+
+/**
+ * Dump State - Output every mock transaction, balances and the mock time
+ *
+ * Balances cover your wallet and every party of a known transaction.
+ */
+export async function handleDumpState(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	try {
+		const runtime = getMockRuntime(client);
+
+		const transactions = await executeSDKOperation(
+			() => listMockTransactions(client),
+			'dumpState',
+			context,
+			itemIndex,
+		);
+
+		const addresses = new Set<string>([getClientAddress(client)]);
+		for (const tx of transactions) {
+			addresses.add(tx.requester.toLowerCase());
+			addresses.add(tx.provider.toLowerCase());
+		}
+
+		const balances: IDataObject = {};
+		for (const address of addresses) {
+			const balance = BigInt(await runtime.getBalance(address));
+			balances[address] = {
+				usdc: formatAmount(balance),
+				usdcWei: balance.toString(),
+			};
+		}
+
+		const now = runtime.time.now();
+
+		return [
+			{
+				json: formatSuccess('dumpState', {
+					currentTime: now,
+					currentTimeISO: formatTimestamp(now),
+					transactionCount: transactions.length,
+					transactions: transactions.map((tx) => formatTransactionData(tx.id, tx)),
+					balances,
+				} as IDataObject),
+			},
+		];
+	} catch (error) {
+		throw toActpError(context.getNode(), error, itemIndex);
+	}
+}
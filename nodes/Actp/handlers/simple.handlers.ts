@@ -8,18 +8,58 @@
 import type { IExecuteFunctions, INodeExecutionData, IDataObject } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 import { ACTPClient } from '@agirails/sdk';
-import { ethers } from 'ethers';
 import {
+	parseAmount,
 	parseDeadline,
 	parseDisputeWindow,
 	parseAddress,
 	parseTransactionId,
+	formatAmount,
 	formatStatusCheck,
 	formatSuccess,
 	sanitizeError,
+	toActpError,
+	formatFailedItem,
 	stateStringToNumber,
 	getTransactionOrThrow,
 	executeSDKOperation,
+	assertTransitionAllowed,
+	mapWithConcurrency,
+	getClientAddress,
+	getUsdcBalance,
+	assertSufficientFunds,
+	getRuntimeTime,
+	sdkStateToNumber,
+	formatDuration,
+	formatTimestamp,
+	ACTPState,
+	hashDeliverable,
+	encodeDeliveryProof,
+	type DeliverableSource,
+	resolveReleaseAttestation,
+	type AutoAttestationMode,
+	getSpendingPolicy,
+	hasSpendingPolicy,
+	checkSpendingPolicy,
+	getRollingSpend,
+	assertSpendingPolicy,
+	recordSpend,
+	isDryRun,
+	getTypicalGasCost,
+	formatDryRun,
+	previewRelease,
+	beginFeeTracking,
+	collectFees,
+	getResultTxHash,
+	reportRetries,
+	parseIdempotencyKey,
+	findIdempotentPayment,
+	isUnfundedPayment,
+	recordIdempotencyKey,
+	formatIdempotentReplay,
+	bindIdempotencyKey,
+	stateNumberToString,
+	PROTOCOL_CONSTANTS,
 } from '../utils';
 
 /**
@@ -27,6 +67,13 @@ import {
  *
  * Uses basic.pay() for maximum simplicity.
  * Automatically links escrow after creation.
+ * With an idempotency key, creates and funds through the standard adapter
+ * so the key is bound to the transaction's service description.
+ * Enforces the credential spending policy, then pre-flight checks
+ * USDC balance and gas before submitting.
+ * With Dry Run, returns the would-be payment after the checks.
+ * With an idempotency key, returns the existing payment for the key instead of paying twice;
+ * a payment created under the key but never funded is funded instead.
  */
 export async function handleSendPayment(
 	context: IExecuteFunctions,
@@ -47,18 +94,71 @@ export async function handleSendPayment(
 		const parsedDeadline = parseDeadline(deadlineInput);
 		const parsedDisputeWindow = parseDisputeWindow(disputeWindowInput);
 
+		const amountWei = parseAmount(amount);
+		const idempotencyKey = parseIdempotencyKey(
+			context.getNodeParameter('idempotencyKey', itemIndex, ''),
+		);
+
+		// Already paid under this key (e.g. a retried execution): return that payment,
+		// or fund it if the earlier run stopped before escrow was linked
+		let fundTransactionId: string | undefined;
+		if (idempotencyKey) {
+			const replay = await findIdempotentPayment(
+				context,
+				client,
+				idempotencyKey,
+				provider,
+				amountWei,
+				itemIndex,
+			);
+			if (replay && isUnfundedPayment(replay)) {
+				fundTransactionId = replay.record.transactionId;
+			} else if (replay) {
+				return [{ json: formatSuccess('sendPayment', formatIdempotentReplay(idempotencyKey, replay)) }];
+			}
+		}
+
+		await assertSpendingPolicy(context, client, { address: provider }, amountWei, itemIndex);
+
+		// Fail fast with an actionable message instead of an on-chain revert
+		await assertSufficientFunds(context, client, amountWei, itemIndex);
+
+		if (isDryRun(context, itemIndex)) {
+			const gas = await getTypicalGasCost(context, client, 'sendPayment', itemIndex);
+			return [
+				{
+					json: formatDryRun('sendPayment', {
+						provider,
+						requester: getClientAddress(client),
+						amount: formatAmount(amountWei),
+						amountWei: amountWei.toString(),
+						deadline: new Date(parsedDeadline * 1000).toISOString(),
+						disputeWindow: parsedDisputeWindow,
+						state: 'COMMITTED',
+						message: fundTransactionId
+							? `would fund existing transaction ${fundTransactionId} with ${formatAmount(amountWei)}`
+							: `would create and fund a ${formatAmount(amountWei)} payment to ${provider}`,
+					}, gas),
+				},
+			];
+		}
+
+		const feeTracking = await beginFeeTracking(context, client, itemIndex);
+
 		// Use basic adapter for simplicity (with timeout and retry protection)
-		const result = await executeSDKOperation(
-			() => client.basic.pay({
-				to: provider,
-				amount: amount,
-				deadline: parsedDeadline,
-				disputeWindow: parsedDisputeWindow,
-			}),
-			'sendPayment',
-			context,
+		const payment: BatchPayment = {
 			itemIndex,
-		);
+			provider,
+			amountInput: amount,
+			amountWei,
+			deadline: parsedDeadline,
+			disputeWindow: parsedDisputeWindow,
+			idempotencyKey,
+			fundTransactionId,
+		};
+		const result = await pay(context, client, payment);
+		recordSpend(context, client, amountWei);
+		const fees = await collectFees(feeTracking, [getResultTxHash(result)]);
 
 		return [
 			{
@@ -69,16 +169,357 @@ export async function handleSendPayment(
 					amount: result.amount,
 					deadline: result.deadline,
 					state: result.state,
-					message: `Payment of ${result.amount} created and escrow funded. Provider can now start work.`,
+					idempotencyKey,
+					...fees,
+					message: fundTransactionId
+						? `Payment of ${result.amount} created earlier under idempotency key "${idempotencyKey}" is now funded. Provider can now start work.`
+						: `Payment of ${result.amount} created and escrow funded. Provider can now start work.`,
 				} as IDataObject),
 			},
 		];
 	} catch (error) {
-		throw new NodeOperationError(
-			context.getNode(),
-			sanitizeError(error as Error),
-			{ itemIndex },
+		if (error instanceof NodeOperationError) throw error;
+		throw toActpError(context.getNode(), error, itemIndex);
+	}
+}
+
+/**
+ * Validated payment from one input item
+ */
+interface BatchPayment {
+	itemIndex: number;
+	provider: string;
+	amountInput: string | number;
+	amountWei: bigint;
+	deadline: number;
+	disputeWindow: number;
+	idempotencyKey?: string;
+	/** Transaction created under the key by an earlier run but not funded */
+	fundTransactionId?: string;
+}
+
+/**
+ * Created and funded payment
+ */
+interface PaymentResult {
+	txId: string;
+	provider: string;
+	requester: string;
+	amount: string;
+	deadline: string;
+	state: string;
+}
+
+/**
+ * Create and fund a payment (with timeout and retry protection)
+ *
+ * basic.pay() takes no service description, so a payment with an
+ * idempotency key is created and funded through the standard adapter with
+ * the key bound to its description. The key is recorded as soon as the
+ * transaction exists, so a retry after a failed escrow link funds the
+ * existing transaction (fundTransactionId) instead of creating another.
+ */
+async function pay(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	payment: BatchPayment,
+): Promise<PaymentResult> {
+	const { itemIndex, idempotencyKey } = payment;
+	if (!idempotencyKey) {
+		return executeSDKOperation(
+			() => client.basic.pay({
+				to: payment.provider,
+				amount: payment.amountInput,
+				deadline: payment.deadline,
+				disputeWindow: payment.disputeWindow,
+			}),
+			'sendPayment',
+			context,
+			itemIndex,
+		);
+	}
+
+	const txId: string =
+		payment.fundTransactionId ??
+		(await executeSDKOperation(
+			() => client.standard.createTransaction({
+				provider: payment.provider,
+				amount: payment.amountInput,
+				deadline: payment.deadline,
+				disputeWindow: payment.disputeWindow,
+				serviceDescription: bindIdempotencyKey(idempotencyKey),
+			}),
+			'createTransaction',
+			context,
+			itemIndex,
+		));
+	if (!payment.fundTransactionId) {
+		recordIdempotencyKey(context, client, idempotencyKey, {
+			transactionId: txId,
+			operation: 'sendPayment',
+			provider: payment.provider,
+			amountWei: payment.amountWei.toString(),
+		});
+	}
+
+	await executeSDKOperation(() => client.standard.linkEscrow(txId), 'linkEscrow', context, itemIndex);
+	const tx = await getTransactionOrThrow(client, txId, context, itemIndex);
+
+	return {
+		txId,
+		provider: tx.provider,
+		requester: tx.requester,
+		amount: formatAmount(BigInt(tx.amount)),
+		deadline: new Date(tx.deadline * 1000).toISOString(),
+		state: stateNumberToString(sdkStateToNumber(tx.state)),
+	};
+}
+
+/**
+ * Order batch outputs by input item
+ */
+function byItem(a: INodeExecutionData, b: INodeExecutionData): number {
+	return Number(a.json.itemIndex) - Number(b.json.itemIndex);
+}
+
+/**
+ * Send Payment (Batch) - Pay every input item in one execution
+ *
+ * 1. Validates all items up front (nothing is paid if any item is invalid);
+ *    items already paid under their idempotency key are returned, not paid again
+ *    (items created under their key but never funded are funded)
+ * 2. Checks every payment against the spending policy (cumulatively for the 24h limit)
+ * 3. Checks the total against the wallet USDC balance
+ * 4. Submits payments with bounded concurrency (or, with Dry Run, returns the would-be payments)
+ *
+ * Returns one result per item (failures have success: false) plus a summary item.
+ */
+export async function handleSendPaymentBatch(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	try {
+		const concurrency = context.getNodeParameter(
+			'batchConcurrency',
+			0,
+			PROTOCOL_CONSTANTS.DEFAULT_BATCH_CONCURRENCY,
+		) as number;
+
+		// Validate every item before paying anything
+		const validated: BatchPayment[] = [];
+		const validationErrors: string[] = [];
+		for (let i = 0; i < items.length; i++) {
+			try {
+				const to = context.getNodeParameter('to', i) as string;
+				const amount = context.getNodeParameter('amount', i) as string | number;
+				const deadlineInput = context.getNodeParameter('deadline', i, 24) as string | number;
+				const disputeWindowInput = context.getNodeParameter('disputeWindow', i, '2d') as
+					| string
+					| number;
+
+				validated.push({
+					itemIndex: i,
+					provider: parseAddress(to, 'Recipient address'),
+					amountInput: amount,
+					amountWei: parseAmount(amount),
+					deadline: parseDeadline(deadlineInput),
+					disputeWindow: parseDisputeWindow(disputeWindowInput),
+					idempotencyKey: parseIdempotencyKey(context.getNodeParameter('idempotencyKey', i, '')),
+				});
+			} catch (error) {
+				validationErrors.push(`Item ${i}: ${sanitizeError(error as Error)}`);
+			}
+		}
+
+		if (validationErrors.length > 0) {
+			throw new Error(
+				`Batch validation failed for ${validationErrors.length} of ${items.length} items. No payments were sent. ${validationErrors.join('; ')}`,
+			);
+		}
+
+		// Return items already paid under their idempotency key instead of paying again
+		const seenKeys = new Set<string>();
+		const replays: INodeExecutionData[] = [];
+		for (const payment of validated) {
+			const key = payment.idempotencyKey;
+			if (!key) continue;
+			if (seenKeys.has(key)) {
+				throw new Error(
+					`Item ${payment.itemIndex}: idempotency key "${key}" is used by more than one item. No payments were sent.`,
+				);
+			}
+			seenKeys.add(key);
+
+			const replay = await findIdempotentPayment(
+				context,
+				client,
+				key,
+				payment.provider,
+				payment.amountWei,
+				payment.itemIndex,
+			);
+			if (replay && isUnfundedPayment(replay)) {
+				payment.fundTransactionId = replay.record.transactionId;
+			} else if (replay) {
+				replays.push({
+					json: formatSuccess('sendPayment', {
+						itemIndex: payment.itemIndex,
+						...formatIdempotentReplay(key, replay),
+					}),
+					pairedItem: { item: payment.itemIndex },
+				});
+			}
+		}
+		const replayedItems = new Set(replays.map((replay) => replay.json.itemIndex));
+		const payments = validated.filter((payment) => !replayedItems.has(payment.itemIndex));
+
+		// Check every payment against the spending policy before paying anything
+		const policy = await getSpendingPolicy(context, 0);
+		if (hasSpendingPolicy(policy)) {
+			let spentWei = getRollingSpend(context, client);
+			const policyErrors: string[] = [];
+			for (const payment of payments) {
+				const violation = checkSpendingPolicy(
+					policy,
+					{ address: payment.provider },
+					payment.amountWei,
+					spentWei,
+				);
+				if (violation) {
+					policyErrors.push(`Item ${payment.itemIndex}: ${violation.title}. ${violation.description}`);
+				} else {
+					spentWei += payment.amountWei;
+				}
+			}
+			if (policyErrors.length > 0) {
+				throw new Error(
+					`Spending policy blocked ${policyErrors.length} of ${payments.length} items. No payments were sent. ${policyErrors.join('; ')}`,
+				);
+			}
+		}
+
+		// Check total against wallet balance
+		const totalWei = payments.reduce((sum, p) => sum + p.amountWei, 0n);
+		const balance = await executeSDKOperation(
+			() => getUsdcBalance(context, client, getClientAddress(client), 0),
+			'getBalance',
+			context,
+			0,
 		);
+		if (totalWei > balance) {
+			throw new Error(
+				`Insufficient USDC balance for batch: total ${formatAmount(totalWei)}, wallet has ${formatAmount(balance)} (short ${formatAmount(totalWei - balance)}). No payments were sent.`,
+			);
+		}
+
+		if (isDryRun(context, 0)) {
+			const gas = await getTypicalGasCost(context, client, 'sendPayment', 0);
+			const wouldPay = payments.map((payment) => ({
+				json: formatDryRun('sendPayment', {
+					itemIndex: payment.itemIndex,
+					provider: payment.provider,
+					amount: formatAmount(payment.amountWei),
+					amountWei: payment.amountWei.toString(),
+					deadline: new Date(payment.deadline * 1000).toISOString(),
+					disputeWindow: payment.disputeWindow,
+					state: 'COMMITTED',
+					message: `would create and fund a ${formatAmount(payment.amountWei)} payment to ${payment.provider}`,
+				}, gas),
+				pairedItem: { item: payment.itemIndex },
+			}));
+			return [
+				...[...wouldPay, ...replays].sort(byItem),
+				{
+					json: {
+						success: true,
+						operation: 'sendPaymentBatch',
+						summary: true,
+						dryRun: true,
+						count: payments.length,
+						replayed: replays.length,
+						totalAmount: formatAmount(totalWei),
+						totalAmountWei: totalWei.toString(),
+						message: `Dry run: ${payments.length} payments totalling ${formatAmount(totalWei)} would be sent. Nothing was sent.`,
+					} as IDataObject,
+				},
+			];
+		}
+
+		// Fees are reported for the batch as a whole (concurrent payments share one wallet)
+		const feeTracking = await beginFeeTracking(context, client, 0);
+
+		// Submit with bounded concurrency; per-item failures don't stop the batch
+		const txHashes: Array<string | undefined> = [];
+		const results = await mapWithConcurrency(payments, concurrency, async (payment) => {
+			try {
+				const result = await pay(context, client, payment);
+				txHashes.push(getResultTxHash(result));
+				recordSpend(context, client, payment.amountWei);
+				return {
+					paid: true,
+					item: {
+						json: formatSuccess('sendPayment', {
+							itemIndex: payment.itemIndex,
+							transactionId: result.txId,
+							provider: result.provider,
+							requester: result.requester,
+							amount: result.amount,
+							deadline: result.deadline,
+							state: result.state,
+							idempotencyKey: payment.idempotencyKey,
+						} as IDataObject),
+						pairedItem: { item: payment.itemIndex },
+					},
+				};
+			} catch (error) {
+				return {
+					paid: false,
+					item: formatFailedItem(
+						context,
+						toActpError(context.getNode(), error, payment.itemIndex),
+						payment.itemIndex,
+						{
+							operation: 'sendPayment',
+							provider: payment.provider,
+							amount: formatAmount(payment.amountWei),
+						},
+					),
+				};
+			}
+		});
+
+		// Look up by hash only when every payment returned one
+		const fees = await collectFees(feeTracking, txHashes.includes(undefined) ? [] : txHashes);
+
+		const succeeded = results.filter((r) => r.paid);
+		const paidWei = payments
+			.filter((_, index) => results[index].paid)
+			.reduce((sum, p) => sum + p.amountWei, 0n);
+
+		const summary: INodeExecutionData = {
+			json: {
+				success: succeeded.length === payments.length,
+				operation: 'sendPaymentBatch',
+				summary: true,
+				count: payments.length,
+				succeeded: succeeded.length,
+				failed: payments.length - succeeded.length,
+				replayed: replays.length,
+				totalAmount: formatAmount(totalWei),
+				totalAmountWei: totalWei.toString(),
+				paidAmount: formatAmount(paidWei),
+				paidAmountWei: paidWei.toString(),
+				...fees,
+				message: `Batch complete: ${succeeded.length}/${payments.length} payments sent (${formatAmount(paidWei)}).${replays.length > 0 ? ` ${replays.length} already paid under their idempotency key.` : ''}`,
+			} as IDataObject,
+		};
+
+		const itemResults = results.map((r, index) => reportRetries(context, payments[index].itemIndex, [r.item])[0]);
+		return [...[...itemResults, ...replays].sort(byItem), summary];
+	} catch (error) {
+		if (error instanceof NodeOperationError) throw error;
+		throw toActpError(context.getNode(), error);
 	}
 }
 
@@ -117,11 +558,7 @@ export async function handleCheckStatus(
 			},
 		];
 	} catch (error) {
-		throw new NodeOperationError(
-			context.getNode(),
-			sanitizeError(error as Error),
-			{ itemIndex },
-		);
+		throw toActpError(context.getNode(), error, itemIndex);
 	}
 }
 
@@ -139,6 +576,12 @@ export async function handleStartWork(
 		const txId = context.getNodeParameter('transactionId', itemIndex) as string;
 		const parsedTxId = parseTransactionId(txId);
 
+		// Pre-validate before sending anything on-chain
+		const txBefore = await getTransactionOrThrow(client, parsedTxId, context, itemIndex);
+		assertTransitionAllowed(client, txBefore, 'IN_PROGRESS', context, itemIndex);
+
+		const feeTracking = await beginFeeTracking(context, client, itemIndex);
+
 		// Transition to IN_PROGRESS
 		await executeSDKOperation(
 			() => client.standard.transitionState(parsedTxId, 'IN_PROGRESS'),
@@ -146,6 +589,7 @@ export async function handleStartWork(
 			context,
 			itemIndex,
 		);
+		const fees = await collectFees(feeTracking);
 
 		// Get updated transaction
 		const tx = await getTransactionOrThrow(client, parsedTxId, context, itemIndex);
@@ -155,16 +599,14 @@ export async function handleStartWork(
 				json: formatSuccess('startWork', {
 					transactionId: parsedTxId,
 					state: tx.state,
+					...fees,
 					message: 'Work started. Remember to mark as delivered when complete.',
 				} as IDataObject),
 			},
 		];
 	} catch (error) {
-		throw new NodeOperationError(
-			context.getNode(),
-			sanitizeError(error as Error),
-			{ itemIndex },
-		);
+		if (error instanceof NodeOperationError) throw error;
+		throw toActpError(context.getNode(), error, itemIndex);
 	}
 }
 
@@ -179,6 +621,9 @@ export async function handleStartWork(
  *
  * MAINNET: Encodes disputeWindow as proof for on-chain verification.
  * Without proof, kernel uses default 2-day dispute window.
+ *
+ * Optionally hashes a deliverable (binary property or JSON, keccak256)
+ * and appends the content hash to the proof so requesters can verify it.
  */
 export async function handleMarkDelivered(
 	context: IExecuteFunctions,
@@ -187,11 +632,21 @@ export async function handleMarkDelivered(
 ): Promise<INodeExecutionData[]> {
 	try {
 		const txId = context.getNodeParameter('transactionId', itemIndex) as string;
+		const deliverableSource = context.getNodeParameter(
+			'deliverableSource',
+			itemIndex,
+			'none',
+		) as DeliverableSource;
 		const parsedTxId = parseTransactionId(txId);
 
+		// Hash the deliverable before touching the transaction
+		const deliverable = await hashDeliverable(context, itemIndex, deliverableSource);
+
 		// Get current transaction state
 		const tx = await getTransactionOrThrow(client, parsedTxId, context, itemIndex);
 
+		const feeTracking = await beginFeeTracking(context, client, itemIndex);
+
 		// AUDIT FIX: If in COMMITTED state, must go through IN_PROGRESS first
 		if (tx.state === 'COMMITTED' || String(tx.state) === '2') {
 			await executeSDKOperation(
@@ -205,16 +660,16 @@ export async function handleMarkDelivered(
 		// MAINNET FIX: Encode dispute window as proof for DELIVERED transition
 		// Use transaction's disputeWindow, fallback to 2 days (172800s) if not set
 		const disputeWindowSeconds = tx.disputeWindow || 172800;
-		const abiCoder = ethers.AbiCoder.defaultAbiCoder();
-		const disputeWindowProof = abiCoder.encode(['uint256'], [disputeWindowSeconds]);
+		const deliveryProof = encodeDeliveryProof(disputeWindowSeconds, deliverable?.contentHash);
 
-		// Transition to DELIVERED with dispute window proof
+		// Transition to DELIVERED with dispute window (and content hash) proof
 		await executeSDKOperation(
-			() => client.standard.transitionState(parsedTxId, 'DELIVERED', disputeWindowProof),
+			() => client.standard.transitionState(parsedTxId, 'DELIVERED', deliveryProof),
 			'transitionState',
 			context,
 			itemIndex,
 		);
+		const fees = await collectFees(feeTracking);
 
 		// Get updated transaction
 		const updatedTx = await getTransactionOrThrow(client, parsedTxId, context, itemIndex);
@@ -225,16 +680,168 @@ export async function handleMarkDelivered(
 					transactionId: parsedTxId,
 					state: updatedTx.state,
 					disputeWindow: disputeWindowSeconds,
-					message: `Work delivered. Dispute window: ${Math.floor(disputeWindowSeconds / 3600)}h. Waiting for requester to release payment or window to expire.`,
+					contentHash: deliverable?.contentHash,
+					deliverableSource,
+					deliverableSizeBytes: deliverable?.sizeBytes,
+					proof: deliveryProof,
+					...fees,
+					message: `Work delivered. Dispute window: ${Math.floor(disputeWindowSeconds / 3600)}h. Waiting for requester to release payment or window to expire (then use Claim After Dispute Window).`,
 				} as IDataObject),
 			},
 		];
 	} catch (error) {
-		throw new NodeOperationError(
-			context.getNode(),
-			sanitizeError(error as Error),
-			{ itemIndex },
+		if (error instanceof NodeOperationError) throw error;
+		throw toActpError(context.getNode(), error, itemIndex);
+	}
+}
+
+/**
+ * Verify Delivery - Requester checks a deliverable against the on-chain hash
+ *
+ * Recomputes the keccak256 content hash of the received binary/JSON
+ * (same hashing as Mark Delivered) and compares it with the transaction's
+ * contentHash. Outputs match/mismatch so a workflow can branch to
+ * Release Payment or Raise Dispute.
+ */
+export async function handleVerifyDelivery(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	try {
+		const txId = context.getNodeParameter('transactionId', itemIndex) as string;
+		const deliverableSource = context.getNodeParameter(
+			'deliverableSource',
+			itemIndex,
+			'json',
+		) as DeliverableSource;
+		const parsedTxId = parseTransactionId(txId);
+
+		const deliverable = await hashDeliverable(context, itemIndex, deliverableSource);
+		if (!deliverable) {
+			throw new Error('Select a binary or JSON deliverable to verify');
+		}
+
+		const tx = await getTransactionOrThrow(client, parsedTxId, context, itemIndex);
+		const onChainHash =
+			tx.contentHash && BigInt(tx.contentHash) !== 0n ? tx.contentHash.toLowerCase() : null;
+		const computedHash = deliverable.contentHash.toLowerCase();
+		const match = onChainHash === computedHash;
+
+		let message: string;
+		if (!onChainHash) {
+			message = 'Transaction has no content hash on-chain. The delivery cannot be verified.';
+		} else if (match) {
+			message = 'Deliverable matches the on-chain content hash. Safe to release payment.';
+		} else {
+			message = 'Deliverable does NOT match the on-chain content hash. Consider raising a dispute.';
+		}
+
+		return [
+			{
+				json: formatSuccess('verifyDelivery', {
+					transactionId: parsedTxId,
+					match,
+					computedHash,
+					onChainHash,
+					deliverableSource,
+					deliverableSizeBytes: deliverable.sizeBytes,
+					state: tx.state,
+					message,
+				} as IDataObject),
+			},
+		];
+	} catch (error) {
+		throw toActpError(context.getNode(), error, itemIndex);
+	}
+}
+
+/**
+ * Claim After Dispute Window - Provider settles once the window has expired
+ *
+ * Transitions: DELIVERED → SETTLED (only after deliveredAt + disputeWindow)
+ *
+ * Before expiry nothing is sent; the output has the exact time settlement
+ * becomes possible (claimableAt) and the seconds to wait, ready for a Wait node.
+ * Falls back to updatedAt when the runtime does not report deliveredAt.
+ */
+export async function handleClaimAfterDisputeWindow(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	try {
+		const txId = context.getNodeParameter('transactionId', itemIndex) as string;
+		const parsedTxId = parseTransactionId(txId);
+
+		const tx = await getTransactionOrThrow(client, parsedTxId, context, itemIndex);
+		if (sdkStateToNumber(tx.state) !== ACTPState.DELIVERED) {
+			throw new Error(
+				`Transaction is ${tx.state}. Only DELIVERED transactions can be claimed after the dispute window.`,
+			);
+		}
+
+		const deliveredAt = tx.deliveredAt ?? tx.updatedAt;
+		if (!deliveredAt) {
+			throw new Error('Delivery time is not available for this transaction.');
+		}
+
+		const disputeWindow = tx.disputeWindow ?? PROTOCOL_CONSTANTS.DEFAULT_DISPUTE_WINDOW_SECONDS;
+		const claimableAt = deliveredAt + disputeWindow;
+		const now = getRuntimeTime(client);
+		const remainingSeconds = Math.max(0, claimableAt - now);
+
+		const timing = {
+			transactionId: parsedTxId,
+			deliveredAt: formatTimestamp(deliveredAt),
+			disputeWindow,
+			claimableAt: formatTimestamp(claimableAt),
+			claimableAtRaw: claimableAt,
+		};
+
+		if (remainingSeconds > 0) {
+			return [
+				{
+					json: formatSuccess('claimAfterDisputeWindow', {
+						...timing,
+						settled: false,
+						state: tx.state,
+						remainingSeconds,
+						remaining: formatDuration(remainingSeconds),
+						message: `Dispute window still open. Settlement possible at ${formatTimestamp(claimableAt)} (in ${formatDuration(remainingSeconds)}).`,
+					} as IDataObject),
+				},
+			];
+		}
+
+		// Window expired: provider may settle without the requester
+		assertTransitionAllowed(client, tx, 'SETTLED', context, itemIndex);
+
+		const feeTracking = await beginFeeTracking(context, client, itemIndex);
+
+		await executeSDKOperation(
+			() => client.standard.releaseEscrow(parsedTxId),
+			'releaseEscrow',
+			context,
+			itemIndex,
 		);
+		const fees = await collectFees(feeTracking);
+
+		return [
+			{
+				json: formatSuccess('claimAfterDisputeWindow', {
+					...timing,
+					settled: true,
+					state: 'SETTLED',
+					remainingSeconds: 0,
+					...fees,
+					message: 'Dispute window expired. Payment claimed and released to provider.',
+				} as IDataObject),
+			},
+		];
+	} catch (error) {
+		if (error instanceof NodeOperationError) throw error;
+		throw toActpError(context.getNode(), error, itemIndex);
 	}
 }
 
@@ -244,6 +851,7 @@ export async function handleMarkDelivered(
  * Transitions: DELIVERED → SETTLED
  *
  * MAINNET: Requires attestation UID for EAS delivery proof verification.
+ * With Auto Attestation, the UID is looked up and/or created when not pasted.
  */
 export async function handleReleasePayment(
 	context: IExecuteFunctions,
@@ -252,11 +860,54 @@ export async function handleReleasePayment(
 ): Promise<INodeExecutionData[]> {
 	try {
 		const txId = context.getNodeParameter('transactionId', itemIndex) as string;
-		const attestationUID = context.getNodeParameter('attestationUID', itemIndex, '') as string;
+		const attestationInput = context.getNodeParameter('attestationUID', itemIndex, '') as string;
+		const autoAttestation = context.getNodeParameter(
+			'autoAttestation',
+			itemIndex,
+			'none',
+		) as AutoAttestationMode;
 		const parsedTxId = parseTransactionId(txId);
 
 		// Get transaction to verify it exists
-		await getTransactionOrThrow(client, parsedTxId, context, itemIndex);
+		const tx = await getTransactionOrThrow(client, parsedTxId, context, itemIndex);
+
+		if (isDryRun(context, itemIndex)) {
+			const preview = await executeSDKOperation(
+				() => previewRelease(context, client, parsedTxId, tx, attestationInput, autoAttestation, itemIndex),
+				'resolveAttestation',
+				context,
+				itemIndex,
+			);
+			const gas = await getTypicalGasCost(context, client, 'releaseEscrow', itemIndex);
+			return [
+				{
+					json: formatDryRun('releasePayment', {
+						transactionId: parsedTxId,
+						amount: formatAmount(tx.amount),
+						state: 'SETTLED',
+						...preview,
+						message: `would release ${formatAmount(tx.amount)} to ${tx.provider}`,
+					}, gas),
+				},
+			];
+		}
+
+		const feeTracking = await beginFeeTracking(context, client, itemIndex);
+
+		// Pasted UID wins; otherwise look up / create according to Auto Attestation
+		let attestationUID = attestationInput;
+		if (!attestationUID) {
+			// Look-up reads retry on their own; a created attestation is never retried
+			const attestation = await resolveReleaseAttestation(
+				context,
+				client,
+				parsedTxId,
+				tx,
+				autoAttestation,
+				itemIndex,
+			);
+			attestationUID = attestation?.uid ?? '';
+		}
 
 		// Release escrow with optional attestation UID (required on mainnet)
 		const releaseParams = attestationUID
@@ -269,6 +920,7 @@ export async function handleReleasePayment(
 			context,
 			itemIndex,
 		);
+		const fees = await collectFees(feeTracking);
 
 		return [
 			{
@@ -276,16 +928,14 @@ export async function handleReleasePayment(
 					transactionId: parsedTxId,
 					state: 'SETTLED',
 					attestationUID: attestationUID || undefined,
+					...fees,
 					message: 'Payment released to provider. Transaction complete!',
 				} as IDataObject),
 			},
 		];
 	} catch (error) {
-		throw new NodeOperationError(
-			context.getNode(),
-			sanitizeError(error as Error),
-			{ itemIndex },
-		);
+		if (error instanceof NodeOperationError) throw error;
+		throw toActpError(context.getNode(), error, itemIndex);
 	}
 }
 
@@ -304,6 +954,12 @@ export async function handleRaiseDispute(
 		const reason = context.getNodeParameter('reason', itemIndex, '') as string;
 		const parsedTxId = parseTransactionId(txId);
 
+		// Pre-validate before sending anything on-chain
+		const tx = await getTransactionOrThrow(client, parsedTxId, context, itemIndex);
+		assertTransitionAllowed(client, tx, 'DISPUTED', context, itemIndex);
+
+		const feeTracking = await beginFeeTracking(context, client, itemIndex);
+
 		// Transition to DISPUTED
 		await executeSDKOperation(
 			() => client.standard.transitionState(parsedTxId, 'DISPUTED'),
@@ -311,6 +967,7 @@ export async function handleRaiseDispute(
 			context,
 			itemIndex,
 		);
+		const fees = await collectFees(feeTracking);
 
 		return [
 			{
@@ -318,16 +975,14 @@ export async function handleRaiseDispute(
 					transactionId: parsedTxId,
 					state: 'DISPUTED',
 					reason: reason || 'No reason provided',
+					...fees,
 					message: 'Dispute raised. Transaction is now in dispute resolution.',
 				} as IDataObject),
 			},
 		];
 	} catch (error) {
-		throw new NodeOperationError(
-			context.getNode(),
-			sanitizeError(error as Error),
-			{ itemIndex },
-		);
+		if (error instanceof NodeOperationError) throw error;
+		throw toActpError(context.getNode(), error, itemIndex);
 	}
 }
 
@@ -345,6 +1000,25 @@ export async function handleCancelSimple(
 		const txId = context.getNodeParameter('transactionId', itemIndex) as string;
 		const parsedTxId = parseTransactionId(txId);
 
+		// Pre-validate before sending anything on-chain
+		const tx = await getTransactionOrThrow(client, parsedTxId, context, itemIndex);
+		assertTransitionAllowed(client, tx, 'CANCELLED', context, itemIndex);
+
+		if (isDryRun(context, itemIndex)) {
+			const gas = await getTypicalGasCost(context, client, 'cancel', itemIndex);
+			return [
+				{
+					json: formatDryRun('cancel', {
+						transactionId: parsedTxId,
+						state: 'CANCELLED',
+						message: 'would cancel the transaction and return funds to the requester',
+					}, gas),
+				},
+			];
+		}
+
+		const feeTracking = await beginFeeTracking(context, client, itemIndex);
+
 		// Transition to CANCELLED
 		await executeSDKOperation(
 			() => client.standard.transitionState(parsedTxId, 'CANCELLED'),
@@ -352,21 +1026,20 @@ export async function handleCancelSimple(
 			context,
 			itemIndex,
 		);
+		const fees = await collectFees(feeTracking);
 
 		return [
 			{
 				json: formatSuccess('cancel', {
 					transactionId: parsedTxId,
 					state: 'CANCELLED',
+					...fees,
 					message: 'Transaction cancelled. Funds returned to requester.',
 				} as IDataObject),
 			},
 		];
 	} catch (error) {
-		throw new NodeOperationError(
-			context.getNode(),
-			sanitizeError(error as Error),
-			{ itemIndex },
-		);
+		if (error instanceof NodeOperationError) throw error;
+		throw toActpError(context.getNode(), error, itemIndex);
 	}
 }
@@ -0,0 +1,64 @@
+/**
+ * Wallet Handlers
+ *
+ * Balance queries for the credential wallet or any address.
+ * Available in Simple and Advanced modes, and in mock mode
+ * (reads the mock runtime's token ledger).
+ */
+
+import type { IExecuteFunctions, INodeExecutionData, IDataObject } from 'n8n-workflow';
+import type { ACTPClient } from '@agirails/sdk';
+import {
+	parseAddress,
+	formatAmount,
+	formatEth,
+	formatSuccess,
+	toActpError,
+	executeSDKOperation,
+	getClientAddress,
+	getWalletBalances,
+} from '../utils';
+
+/**
+ * Get Wallet Balance (Simple and Advanced mode)
+ *
+ * Returns USDC and native ETH balances (formatted and raw wei).
+ * Leave the address empty to check your own wallet.
+ */
+export async function handleGetWalletBalance(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	try {
+		const addressInput = context.getNodeParameter('walletAddress', itemIndex, '') as string;
+		const ownAddress = getClientAddress(client);
+		const address = addressInput.trim()
+			? parseAddress(addressInput, 'Wallet address')
+			: ownAddress;
+
+		const balances = await executeSDKOperation(
+			() => getWalletBalances(context, client, address, itemIndex),
+			'getWalletBalance',
+			context,
+			itemIndex,
+		);
+
+		return [
+			{
+				json: formatSuccess('getWalletBalance', {
+					address,
+					isOwnWallet: address.toLowerCase() === ownAddress,
+					usdc: formatAmount(balances.usdc),
+					usdcWei: balances.usdc.toString(),
+					eth: formatEth(balances.eth),
+					ethWei: balances.eth.toString(),
+					environment: client.info.mode,
+					message: `Wallet ${address} holds ${formatAmount(balances.usdc)} and ${formatEth(balances.eth)}.`,
+				} as IDataObject),
+			},
+		];
+	} catch (error) {
+		throw toActpError(context.getNode(), error, itemIndex);
+	}
+}
@@ -3,6 +3,7 @@
  *
  * Atomic HTTP payments via the x402 protocol.
  * Requires testnet or mainnet (not available in mock mode).
+ * Payments are checked against the credential spending policy first.
  */
 
 import type { IExecuteFunctions, INodeExecutionData, IDataObject } from 'n8n-workflow';
@@ -10,8 +11,14 @@ import { NodeOperationError } from 'n8n-workflow';
 import type { ACTPClient } from '@agirails/sdk';
 import {
 	formatSuccess,
-	sanitizeError,
+	toActpError,
 	executeSDKOperation,
+	parseUsdcAmount,
+	assertSpendingPolicy,
+	recordSpend,
+	beginFeeTracking,
+	collectFees,
+	getResultTxHash,
 } from '../utils';
 
 /**
@@ -56,6 +63,11 @@ export async function handlePaidHttpRequest(
 
 		validateX402Url(url);
 
+		const amountWei = parseUsdcAmount(amount);
+		await assertSpendingPolicy(context, client, { url }, amountWei, itemIndex);
+
+		const feeTracking = await beginFeeTracking(context, client, itemIndex);
+
 		const result = await executeSDKOperation(
 			() =>
 				client.basic.pay({
@@ -66,6 +78,8 @@ export async function handlePaidHttpRequest(
 			context,
 			itemIndex,
 		);
+		recordSpend(context, client, amountWei);
+		const fees = await collectFees(feeTracking, [getResultTxHash(result)]);
 
 		return [
 			{
@@ -73,16 +87,16 @@ export async function handlePaidHttpRequest(
 					url,
 					state: result.state,
 					amount: result.amount,
-					txHash: (result as any).txHash || undefined,
+					...fees,
+					txHash: (result as any).txHash || fees.txHash,
 					response: (result as any).data || undefined,
 					message: `Payment sent. Response received from ${url}.`,
 				} as IDataObject),
 			},
 		];
 	} catch (error) {
-		throw new NodeOperationError(context.getNode(), sanitizeError(error as Error), {
-			itemIndex,
-		});
+		if (error instanceof NodeOperationError) throw error;
+		throw toActpError(context.getNode(), error, itemIndex);
 	}
 }
 
@@ -107,6 +121,9 @@ export async function handleX402Pay(
 
 		validateX402Url(url);
 
+		const amountWei = parseUsdcAmount(amount);
+		await assertSpendingPolicy(context, client, { url }, amountWei, itemIndex);
+
 		// Parse headers JSON
 		let headers: Record<string, string> | undefined;
 		if (headersInput) {
@@ -136,12 +153,16 @@ export async function handleX402Pay(
 			body,
 		};
 
+		const feeTracking = await beginFeeTracking(context, client, itemIndex);
+
 		const result = await executeSDKOperation(
 			() => client.basic.pay(payParams),
 			'x402Pay',
 			context,
 			itemIndex,
 		);
+		recordSpend(context, client, amountWei);
+		const fees = await collectFees(feeTracking, [getResultTxHash(result)]);
 
 		return [
 			{
@@ -150,15 +171,15 @@ export async function handleX402Pay(
 					method: httpMethod,
 					state: result.state,
 					amount: result.amount,
-					txHash: (result as any).txHash || undefined,
+					...fees,
+					txHash: (result as any).txHash || fees.txHash,
 					response: (result as any).data || undefined,
 					message: `x402 ${httpMethod} ${url} completed.`,
 				} as IDataObject),
 			},
 		];
 	} catch (error) {
-		throw new NodeOperationError(context.getNode(), sanitizeError(error as Error), {
-			itemIndex,
-		});
+		if (error instanceof NodeOperationError) throw error;
+		throw toActpError(context.getNode(), error, itemIndex);
 	}
 }
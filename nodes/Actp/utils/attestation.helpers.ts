@@ -0,0 +1,416 @@
+/**
+ * EAS Delivery Attestation Utilities
+ *
+ * Create and look up Ethereum Attestation Service (EAS) delivery
+ * attestations for ACTP transactions, so releases no longer need an
+ * attestation UID obtained elsewhere.
+ *
+ * Testnet/mainnet use the EAS predeploy on Base. Mock mode uses an
+ * in-memory stand-in registry attached to the mock runtime.
+ */
+
+import type { IExecuteFunctions } from 'n8n-workflow';
+import type { ACTPClient } from '@agirails/sdk';
+import type { Signer } from 'ethers';
+import { AbiCoder, Contract, ZeroAddress, ZeroHash, keccak256, solidityPackedKeccak256 } from 'ethers';
+import { executeWithProtection, getItemCredentials, resolveSigner, withTimeout } from './client.factory';
+import { PROTOCOL_CONSTANTS } from './constants';
+import { ValidationError } from './errors';
+import { getClientAddress, getMockRuntime, getRuntimeTime, isMockClient } from './runtime.helpers';
+import { getRetryPolicy, recordRetry } from './transaction.helpers';
+import type { TransactionData } from './transaction.helpers';
+import { getJsonRpcProvider } from './wallet.helpers';
+
+/**
+ * EAS contract (OP Stack predeploy, same on Base and Base Sepolia)
+ */
+export const EAS_CONTRACT_ADDRESS = '0x4200000000000000000000000000000000000021';
+
+/**
+ * EAS SchemaRegistry (OP Stack predeploy, same on Base and Base Sepolia)
+ */
+export const SCHEMA_REGISTRY_ADDRESS = '0x4200000000000000000000000000000000000020';
+
+/**
+ * ACTP delivery attestation schema
+ */
+export const DELIVERY_SCHEMA = 'bytes32 transactionId,bytes32 contentHash,address provider';
+
+/**
+ * Schema UID EAS assigns to the delivery schema (no resolver, revocable)
+ *
+ * EAS derives UIDs deterministically, so this is the UID once the schema
+ * is registered on the network; attesting against it reverts until then.
+ */
+export const DELIVERY_SCHEMA_UID = solidityPackedKeccak256(
+	['string', 'address', 'bool'],
+	[DELIVERY_SCHEMA, ZeroAddress, true],
+);
+
+/**
+ * Minimal EAS ABI
+ */
+const EAS_ABI = [
+	'function attest((bytes32 schema, (address recipient, uint64 expirationTime, bool revocable, bytes32 refUID, bytes data, uint256 value) data) request) payable returns (bytes32)',
+	'function getAttestation(bytes32 uid) view returns ((bytes32 uid, bytes32 schema, uint64 time, uint64 expirationTime, uint64 revocationTime, bytes32 refUID, address recipient, address attester, bool revocable, bytes data))',
+	'event Attested(address indexed recipient, address indexed attester, bytes32 uid, bytes32 indexed schemaUID)',
+];
+
+/**
+ * Minimal EAS SchemaRegistry ABI
+ */
+const SCHEMA_REGISTRY_ABI = [
+	'function getSchema(bytes32 uid) view returns ((bytes32 uid, address resolver, bool revocable, string schema))',
+];
+
+/**
+ * Attestation modes for releases without a pasted UID
+ */
+export type AutoAttestationMode = 'none' | 'lookUp' | 'create' | 'lookUpOrCreate';
+
+/**
+ * Delivery attestation (decoded)
+ */
+export interface DeliveryAttestation {
+	uid: string;
+	schema: string;
+	transactionId: string;
+	contentHash: string;
+	provider: string;
+	recipient: string;
+	attester: string;
+	time: number;
+	/** Hash of the attest transaction (on-chain only) */
+	txHash?: string;
+}
+
+/**
+ * In-memory EAS stand-in for mock mode
+ */
+class MockEasRegistry {
+	private readonly attestations = new Map<string, DeliveryAttestation>();
+
+	attest(attestation: Omit<DeliveryAttestation, 'uid'>): DeliveryAttestation {
+		const uid = keccak256(
+			AbiCoder.defaultAbiCoder().encode(
+				['bytes32', 'bytes32', 'bytes32', 'address', 'address', 'uint256', 'uint256'],
+				[
+					attestation.schema,
+					attestation.transactionId,
+					attestation.contentHash,
+					attestation.provider,
+					attestation.attester,
+					attestation.time,
+					this.attestations.size,
+				],
+			),
+		);
+		const stored = { ...attestation, uid };
+		this.attestations.set(uid, stored);
+		return stored;
+	}
+
+	findByTransaction(schema: string, transactionId: string): DeliveryAttestation | undefined {
+		const matches = [...this.attestations.values()].filter(
+			(a) => a.schema === schema && a.transactionId === transactionId,
+		);
+		return matches[matches.length - 1];
+	}
+}
+
+/**
+ * One stand-in registry per mock runtime
+ */
+const mockRegistries = new WeakMap<object, MockEasRegistry>();
+
+function getMockRegistry(client: ACTPClient): MockEasRegistry {
+	const runtime = getMockRuntime(client) as unknown as object;
+	let registry = mockRegistries.get(runtime);
+	if (!registry) {
+		registry = new MockEasRegistry();
+		mockRegistries.set(runtime, registry);
+	}
+	return registry;
+}
+
+/**
+ * Encode delivery attestation data
+ */
+export function encodeDeliveryAttestationData(
+	transactionId: string,
+	contentHash: string,
+	provider: string,
+): string {
+	return AbiCoder.defaultAbiCoder().encode(
+		['bytes32', 'bytes32', 'address'],
+		[transactionId, contentHash, provider],
+	);
+}
+
+/**
+ * Delivery schema UID for the client's network
+ *
+ * Uses the credential's Attestation Schema UID when set (testnet/mainnet).
+ *
+ * @throws ValidationError if the configured UID is malformed
+ */
+export async function getDeliverySchemaUID(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	itemIndex: number,
+): Promise<string> {
+	if (isMockClient(client)) return DELIVERY_SCHEMA_UID;
+
+	const credentials = await getItemCredentials(context, itemIndex);
+	const configured = ((credentials.attestationSchemaUid as string) || '').trim();
+	if (!configured) return DELIVERY_SCHEMA_UID;
+	if (!/^0x[0-9a-fA-F]{64}$/.test(configured)) {
+		throw new ValidationError(
+			context.getNode(),
+			'Attestation Schema UID must be 0x followed by 64 hex characters',
+			{ itemIndex },
+		);
+	}
+	return configured.toLowerCase();
+}
+
+/**
+ * Ensure a schema is registered in the EAS SchemaRegistry before attesting
+ *
+ * @throws ValidationError if the schema is not registered on the network
+ */
+async function assertSchemaRegistered(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	schemaUID: string,
+	itemIndex: number,
+): Promise<void> {
+	const provider = await getJsonRpcProvider(context, client, itemIndex);
+	const registry = new Contract(SCHEMA_REGISTRY_ADDRESS, SCHEMA_REGISTRY_ABI, provider);
+	const record = await executeWithProtection(
+		() => registry.getSchema(schemaUID),
+		'getSchema',
+		getRetryPolicy(context, itemIndex),
+		() => recordRetry(context, itemIndex),
+	);
+
+	if (record.uid === ZeroHash) {
+		throw new ValidationError(
+			context.getNode(),
+			`EAS schema ${schemaUID} is not registered on ${client.info.mode}`,
+			{
+				itemIndex,
+				description: `Register "${DELIVERY_SCHEMA}" (no resolver, revocable) in the EAS SchemaRegistry at ${SCHEMA_REGISTRY_ADDRESS}, or set Attestation Schema UID on the credential to a registered delivery schema.`,
+			},
+		);
+	}
+}
+
+/**
+ * Create a delivery attestation for a transaction
+ *
+ * The requester is the attestation recipient; the credential wallet attests.
+ * The schema must be registered on the network. The write is sent once and
+ * never retried, since a retry after a broadcast could attest twice.
+ *
+ * @param contentHash - Deliverable hash (defaults to the transaction's contentHash, or zero)
+ * @param schemaUID - Override for a custom registered schema (defaults to getDeliverySchemaUID)
+ */
+export async function createDeliveryAttestation(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	transactionId: string,
+	tx: TransactionData,
+	itemIndex: number,
+	contentHash?: string,
+	schemaUID?: string,
+): Promise<DeliveryAttestation> {
+	const hash = contentHash || tx.contentHash || ZeroHash;
+	schemaUID ??= await getDeliverySchemaUID(context, client, itemIndex);
+
+	if (isMockClient(client)) {
+		return getMockRegistry(client).attest({
+			schema: schemaUID,
+			transactionId: transactionId.toLowerCase(),
+			contentHash: hash.toLowerCase(),
+			provider: tx.provider.toLowerCase(),
+			recipient: tx.requester.toLowerCase(),
+			attester: getClientAddress(client),
+			time: getRuntimeTime(client),
+		});
+	}
+
+	await assertSchemaRegistered(context, client, schemaUID, itemIndex);
+
+	const signer = await getAttestationSigner(context, client, itemIndex);
+	const eas = new Contract(EAS_CONTRACT_ADDRESS, EAS_ABI, signer);
+	const attest = async () => {
+		const response = await eas.attest({
+			schema: schemaUID,
+			data: {
+				recipient: tx.requester,
+				expirationTime: 0n,
+				revocable: true,
+				refUID: ZeroHash,
+				data: encodeDeliveryAttestationData(transactionId, hash, tx.provider),
+				value: 0n,
+			},
+		});
+		return response.wait();
+	};
+	const receipt = await withTimeout(
+		attest(),
+		getRetryPolicy(context, itemIndex).timeoutMs,
+		'createAttestation',
+	);
+
+	const attested = receipt.logs
+		.map((log: { topics: string[]; data: string }) => {
+			try {
+				return eas.interface.parseLog(log);
+			} catch {
+				return null;
+			}
+		})
+		.find((parsed: { name: string } | null) => parsed?.name === 'Attested');
+	if (!attested) {
+		throw new Error('EAS attestation transaction did not emit an Attested event');
+	}
+
+	return {
+		uid: attested.args.uid as string,
+		schema: schemaUID,
+		transactionId,
+		contentHash: hash,
+		provider: tx.provider,
+		recipient: tx.requester,
+		attester: getClientAddress(client),
+		time: getRuntimeTime(client),
+		txHash: receipt.hash,
+	};
+}
+
+/**
+ * Find the latest delivery attestation for a transaction
+ *
+ * On-chain, scans Attested logs for the schema with the requester as
+ * recipient over the default lookback window. Each read is retried on
+ * transient errors.
+ *
+ * @returns Attestation, or undefined if none exists
+ */
+export async function findDeliveryAttestation(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	transactionId: string,
+	tx: TransactionData,
+	itemIndex: number,
+	schemaUID?: string,
+): Promise<DeliveryAttestation | undefined> {
+	schemaUID ??= await getDeliverySchemaUID(context, client, itemIndex);
+	if (isMockClient(client)) {
+		return getMockRegistry(client).findByTransaction(schemaUID, transactionId.toLowerCase());
+	}
+
+	const provider = await getJsonRpcProvider(context, client, itemIndex);
+	const eas = new Contract(EAS_CONTRACT_ADDRESS, EAS_ABI, provider);
+	const read = <T>(operation: () => Promise<T>, name: string) =>
+		executeWithProtection(operation, name, getRetryPolicy(context, itemIndex), () =>
+			recordRetry(context, itemIndex),
+		);
+	const latestBlock = await read(() => provider.getBlockNumber(), 'getBlockNumber');
+	const range = PROTOCOL_CONSTANTS.LOG_SCAN_BLOCK_RANGE;
+	const fromBlock = Math.max(0, latestBlock - PROTOCOL_CONSTANTS.DEFAULT_LOG_LOOKBACK_BLOCKS);
+
+	// Newest first, so the first match is the latest attestation
+	for (let end = latestBlock; end >= fromBlock; end -= range) {
+		const start = Math.max(fromBlock, end - range + 1);
+		const logs = await read(
+			() => eas.queryFilter(eas.filters.Attested(tx.requester, null, schemaUID), start, end),
+			'queryAttestations',
+		);
+
+		for (const log of [...logs].reverse()) {
+			const uid = eas.interface.parseLog(log)?.args.uid as string;
+			const attestation = await read(() => eas.getAttestation(uid), 'getAttestation');
+			const [attestedTxId, attestedHash, attestedProvider] = AbiCoder.defaultAbiCoder().decode(
+				['bytes32', 'bytes32', 'address'],
+				attestation.data,
+			);
+			if (String(attestedTxId).toLowerCase() === transactionId.toLowerCase()) {
+				return {
+					uid,
+					schema: schemaUID,
+					transactionId,
+					contentHash: attestedHash as string,
+					provider: attestedProvider as string,
+					recipient: attestation.recipient as string,
+					attester: attestation.attester as string,
+					time: Number(attestation.time),
+				};
+			}
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Resolve an attestation UID for a release according to the mode
+ *
+ * @returns UID, or undefined when mode is 'none'
+ * @throws Error if look-up finds nothing in 'lookUp' mode
+ */
+export async function resolveReleaseAttestation(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	transactionId: string,
+	tx: TransactionData,
+	mode: AutoAttestationMode,
+	itemIndex: number,
+): Promise<DeliveryAttestation | undefined> {
+	const preview = await previewReleaseAttestation(context, client, transactionId, tx, mode, itemIndex);
+	if (preview.existing) return preview.existing;
+	if (!preview.wouldCreate) return undefined;
+
+	return createDeliveryAttestation(context, client, transactionId, tx, itemIndex);
+}
+
+/**
+ * Preview the attestation a release would use, without creating one (dry run)
+ *
+ * @returns Existing attestation if found, and whether one would be created
+ * @throws Error if look-up finds nothing in 'lookUp' mode
+ */
+export async function previewReleaseAttestation(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	transactionId: string,
+	tx: TransactionData,
+	mode: AutoAttestationMode,
+	itemIndex: number,
+): Promise<{ existing?: DeliveryAttestation; wouldCreate: boolean }> {
+	if (mode === 'none') return { wouldCreate: false };
+	if (mode === 'create') return { wouldCreate: true };
+
+	const existing = await findDeliveryAttestation(context, client, transactionId, tx, itemIndex);
+	if (!existing && mode === 'lookUp') {
+		throw new Error(
+			`No delivery attestation found for transaction ${transactionId}. Create one with Create Attestation or paste its UID.`,
+		);
+	}
+	return { existing, wouldCreate: !existing };
+}
+
+/**
+ * Signer for EAS writes (credential wallet on the client's network)
+ */
+async function getAttestationSigner(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	itemIndex: number,
+): Promise<Signer> {
+	const credentials = await getItemCredentials(context, itemIndex);
+	const provider = await getJsonRpcProvider(context, client, itemIndex);
+	return resolveSigner(credentials, provider);
+}
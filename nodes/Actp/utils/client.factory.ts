@@ -1,16 +1,50 @@
 import type { IExecuteFunctions, ICredentialDataDecryptedObject } from 'n8n-workflow';
 import { ACTPClient } from '@agirails/sdk';
-import { keccak256, toUtf8Bytes, Wallet as ethersWallet } from 'ethers';
+import type { Provider, Signer } from 'ethers';
+import { HDNodeWallet, JsonRpcProvider, Mnemonic, keccak256, toUtf8Bytes, Wallet as ethersWallet } from 'ethers';
 import { redactSecrets } from './secrets';
-import { PROTOCOL_CONSTANTS } from './constants';
+import { DEFAULT_RPC_URLS, PROTOCOL_CONSTANTS } from './constants';
+import { LruCache } from './lru.cache';
+import { createRemoteSigner, isRemoteSignerCredentials } from './remote.signer';
 
 // Re-export for internal use (avoid naming collision with credentials)
 const ethers = { Wallet: ethersWallet };
 
+const cacheOptions = {
+	maxEntries: PROTOCOL_CONSTANTS.CACHE_MAX_ENTRIES,
+	ttlMs: PROTOCOL_CONSTANTS.CACHE_TTL_MS,
+};
+
 /**
- * Client cache to avoid re-initialization overhead
+ * Client cache to avoid re-initialization overhead across executions
  */
-const clientCache = new Map<string, ACTPClient>();
+const clientCache = new LruCache<ACTPClient>(cacheOptions);
+
+/**
+ * Private keys derived from mnemonic/keystore credentials
+ * (keystore decryption is deliberately slow, so derive once per credential)
+ */
+const derivedKeyCache = new LruCache<string>(cacheOptions);
+
+/**
+ * Credentials and resources resolved during one execution
+ */
+interface ExecutionScope {
+	/** Credentials per item (credential fields may be per-item expressions) */
+	credentials: Map<number, Promise<ICredentialDataDecryptedObject>>;
+	/** Resources by kind and credential cache key */
+	resources: Map<string, Promise<unknown>>;
+}
+
+/**
+ * Execution scopes (context objects are per execution)
+ */
+const executionScopes = new WeakMap<object, ExecutionScope>();
+
+/**
+ * How a testnet/mainnet wallet is stored in the credentials
+ */
+export type WalletType = 'privateKey' | 'mnemonic' | 'keystore' | 'remote';
 
 /**
  * Creates an ACTPClient from n8n credentials
@@ -24,8 +58,66 @@ export async function createActpClient(
 	context: IExecuteFunctions,
 	itemIndex: number,
 ): Promise<ACTPClient> {
-	const credentials = await context.getCredentials('actpApi', itemIndex);
-	return createClientFromCredentials(credentials);
+	return getExecutionResource(context, itemIndex, 'client', createClientFromCredentials);
+}
+
+function getExecutionScope(context: IExecuteFunctions): ExecutionScope {
+	let scope = executionScopes.get(context);
+	if (!scope) {
+		scope = { credentials: new Map(), resources: new Map() };
+		executionScopes.set(context, scope);
+	}
+	return scope;
+}
+
+/**
+ * Get the ACTP credentials for an item
+ *
+ * Read once per item and execution, so helpers don't decrypt them again.
+ */
+export function getItemCredentials(
+	context: IExecuteFunctions,
+	itemIndex: number,
+): Promise<ICredentialDataDecryptedObject> {
+	const scope = getExecutionScope(context);
+	let credentials = scope.credentials.get(itemIndex);
+	if (!credentials) {
+		credentials = context.getCredentials('actpApi', itemIndex);
+		scope.credentials.set(itemIndex, credentials);
+	}
+	return credentials;
+}
+
+/**
+ * Get a resource (client, provider, bridge...) for an item
+ *
+ * Created once per execution and shared by every item whose credentials
+ * resolve to the same wallet, environment and RPC URL. Items whose
+ * credential expressions resolve differently get their own resource.
+ * A failed creation is not kept, so the next item tries again.
+ *
+ * @param kind - Resource name (include anything else the resource depends on)
+ */
+export async function getExecutionResource<T>(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	kind: string,
+	create: (credentials: ICredentialDataDecryptedObject) => Promise<T>,
+): Promise<T> {
+	const credentials = await getItemCredentials(context, itemIndex);
+	const { resources } = getExecutionScope(context);
+	const key = `${kind}:${generateCacheKey(credentials)}`;
+
+	let resource = resources.get(key) as Promise<T> | undefined;
+	if (!resource) {
+		const created = create(credentials);
+		resources.set(key, created);
+		created.catch(() => {
+			if (resources.get(key) === created) resources.delete(key);
+		});
+		resource = created;
+	}
+	return resource;
 }
 
 /**
@@ -39,8 +131,9 @@ export async function createClientFromCredentials(
 	const cacheKey = generateCacheKey(credentials);
 
 	// Return cached client if exists
-	if (clientCache.has(cacheKey)) {
-		return clientCache.get(cacheKey)!;
+	const cached = clientCache.get(cacheKey);
+	if (cached) {
+		return cached;
 	}
 
 	let client: ACTPClient;
@@ -60,8 +153,12 @@ export async function createClientFromCredentials(
 		}
 
 		case 'testnet': {
-			const privateKey = credentials.privateKey as string;
-			validatePrivateKey(privateKey);
+			if (isRemoteSignerCredentials(credentials)) {
+				client = await createRemoteSignerClient('testnet', credentials);
+				break;
+			}
+
+			const privateKey = await resolvePrivateKey(credentials);
 
 			// Derive address from private key (security: address must match the key)
 			const wallet = new ethers.Wallet(privateKey);
@@ -80,8 +177,12 @@ export async function createClientFromCredentials(
 		}
 
 		case 'mainnet': {
-			const privateKey = credentials.privateKey as string;
-			validatePrivateKey(privateKey);
+			if (isRemoteSignerCredentials(credentials)) {
+				client = await createRemoteSignerClient('mainnet', credentials);
+				break;
+			}
+
+			const privateKey = await resolvePrivateKey(credentials);
 
 			// Derive address from private key (security: address must match the key)
 			const wallet = new ethers.Wallet(privateKey);
@@ -109,6 +210,137 @@ export async function createClientFromCredentials(
 	return client;
 }
 
+/**
+ * Create a blockchain client that signs through a remote signing service
+ *
+ * The private key stays in the signing service; the client only gets a signer.
+ */
+async function createRemoteSignerClient(
+	mode: 'testnet' | 'mainnet',
+	credentials: ICredentialDataDecryptedObject,
+): Promise<ACTPClient> {
+	const rpcUrl = (credentials.rpcUrl as string) || undefined;
+	const provider = new JsonRpcProvider(rpcUrl || DEFAULT_RPC_URLS[mode]);
+	const signer = await createRemoteSigner(credentials, provider);
+
+	return ACTPClient.create({
+		mode,
+		requesterAddress: signer.address.toLowerCase(),
+		signer,
+		rpcUrl,
+	});
+}
+
+/**
+ * Resolve a signer for direct contract writes (EAS, ERC-8004)
+ *
+ * Remote signer credentials never expose a key; all other wallet types
+ * resolve to a local wallet.
+ */
+export async function resolveSigner(
+	credentials: ICredentialDataDecryptedObject,
+	provider: Provider,
+): Promise<Signer> {
+	if (isRemoteSignerCredentials(credentials)) {
+		return createRemoteSigner(credentials, provider);
+	}
+	return new ethers.Wallet(await resolvePrivateKey(credentials), provider);
+}
+
+/**
+ * Resolve the wallet private key from credentials
+ *
+ * Supports a raw private key, a BIP-39 mnemonic (account index or
+ * custom derivation path) and an encrypted keystore JSON.
+ *
+ * @returns 0x-prefixed private key
+ * @throws Error if the wallet secret is missing or invalid
+ */
+export async function resolvePrivateKey(
+	credentials: ICredentialDataDecryptedObject,
+): Promise<string> {
+	const walletType = (credentials.walletType as WalletType) || 'privateKey';
+
+	if (walletType === 'privateKey') {
+		const privateKey = credentials.privateKey as string;
+		validatePrivateKey(privateKey);
+		return privateKey;
+	}
+
+	const cacheKey = `${walletType}:${hashWalletSecret(credentials)}`;
+	const cached = derivedKeyCache.get(cacheKey);
+	if (cached) {
+		return cached;
+	}
+
+	let privateKey: string;
+
+	switch (walletType) {
+		case 'mnemonic': {
+			const phrase = ((credentials.mnemonic as string) || '').trim().replace(/\s+/g, ' ');
+			if (!phrase) {
+				throw new Error('Mnemonic is required for testnet/mainnet mode');
+			}
+			if (!Mnemonic.isValidMnemonic(phrase)) {
+				throw new Error('Invalid mnemonic. Must be a valid BIP-39 phrase (12-24 words).');
+			}
+
+			const path = getDerivationPath(credentials);
+			try {
+				privateKey = HDNodeWallet.fromPhrase(phrase, undefined, path).privateKey;
+			} catch {
+				throw new Error(`Invalid derivation path: ${path}`);
+			}
+			break;
+		}
+
+		case 'keystore': {
+			const keystoreJson = credentials.keystoreJson as string;
+			if (!keystoreJson) {
+				throw new Error('Keystore JSON is required for testnet/mainnet mode');
+			}
+
+			try {
+				const wallet = await ethers.Wallet.fromEncryptedJson(
+					keystoreJson,
+					(credentials.keystorePassword as string) || '',
+				);
+				privateKey = wallet.privateKey;
+			} catch {
+				throw new Error('Could not decrypt keystore JSON. Check the keystore contents and password.');
+			}
+			break;
+		}
+
+		case 'remote':
+			throw new Error('Remote signer credentials do not expose a private key');
+
+		default:
+			throw new Error(`Unknown wallet type: ${walletType}. Use 'privateKey', 'mnemonic', 'keystore', or 'remote'.`);
+	}
+
+	derivedKeyCache.set(cacheKey, privateKey);
+	return privateKey;
+}
+
+/**
+ * Derivation path for mnemonic credentials
+ *
+ * A custom path wins; otherwise the standard Ethereum path for the account index.
+ */
+function getDerivationPath(credentials: ICredentialDataDecryptedObject): string {
+	const customPath = ((credentials.derivationPath as string) || '').trim();
+	if (customPath) {
+		return customPath;
+	}
+
+	const accountIndex = Number(credentials.accountIndex ?? 0);
+	if (!Number.isInteger(accountIndex) || accountIndex < 0) {
+		throw new Error('Account index must be a non-negative integer');
+	}
+	return `m/44'/60'/0'/0/${accountIndex}`;
+}
+
 /**
  * Validate private key format
  */
@@ -129,7 +361,7 @@ function validatePrivateKey(privateKey: string): void {
 /**
  * Generate cache key for client (excludes sensitive data from key)
  *
- * Security: Uses hash of private key to ensure different wallets get different cache entries
+ * Security: Uses hash of the wallet secret to ensure different wallets get different cache entries
  * even when using the same RPC URL. The hash is one-way and doesn't expose the key.
  */
 function generateCacheKey(credentials: ICredentialDataDecryptedObject): string {
@@ -139,12 +371,10 @@ function generateCacheKey(credentials: ICredentialDataDecryptedObject): string {
 		return `mock:${credentials.mockAddress || 'default'}`;
 	}
 
-	// For blockchain modes, hash the private key to create unique cache key
+	// For blockchain modes, hash the wallet secret to create unique cache key
 	// This ensures different wallets don't share cached clients
-	const privateKey = credentials.privateKey as string;
-	if (privateKey) {
-		// Use first 16 chars of keccak256 hash (8 bytes = 64 bits of entropy)
-		const keyHash = keccak256(toUtf8Bytes(privateKey)).slice(0, 18);
+	const keyHash = hashWalletSecret(credentials);
+	if (keyHash) {
 		return `${environment}:${keyHash}:${credentials.rpcUrl || 'default'}`;
 	}
 
@@ -152,11 +382,47 @@ function generateCacheKey(credentials: ICredentialDataDecryptedObject): string {
 	return `${environment}:${credentials.rpcUrl || 'default'}`;
 }
 
+/**
+ * Hash the wallet secret material for cache keys
+ *
+ * Covers the private key, mnemonic + derivation inputs, keystore + password,
+ * or remote signer URL + address + authorization.
+ *
+ * @returns First 16 hex chars of keccak256 (64 bits), or undefined if no secret is set
+ */
+function hashWalletSecret(credentials: ICredentialDataDecryptedObject): string | undefined {
+	const walletType = (credentials.walletType as WalletType) || 'privateKey';
+
+	let material: string | undefined;
+	switch (walletType) {
+		case 'mnemonic':
+			material = credentials.mnemonic
+				? `mnemonic:${credentials.mnemonic}:${credentials.accountIndex ?? 0}:${credentials.derivationPath || ''}`
+				: undefined;
+			break;
+		case 'keystore':
+			material = credentials.keystoreJson
+				? `keystore:${credentials.keystoreJson}:${credentials.keystorePassword || ''}`
+				: undefined;
+			break;
+		case 'remote':
+			material = credentials.signerUrl
+				? `remote:${credentials.signerUrl}:${credentials.signerAddress || ''}:${credentials.signerAuthorization || ''}`
+				: undefined;
+			break;
+		default:
+			material = (credentials.privateKey as string) || undefined;
+	}
+
+	return material ? keccak256(toUtf8Bytes(material)).slice(0, 18) : undefined;
+}
+
 /**
  * Clear client cache (useful for testing)
  */
 export function clearClientCache(): void {
 	clientCache.clear();
+	derivedKeyCache.clear();
 }
 
 /**
@@ -165,6 +431,7 @@ export function clearClientCache(): void {
  * Redacts:
  * - Private keys (64-char hex strings)
  * - BIP-39 mnemonic phrases (12-24 word sequences)
+ * - Keystore JSON crypto fields
  * - API keys (Stripe, AWS, Slack, GitHub, etc.)
  *
  * Security: Uses the secrets module for comprehensive detection
@@ -191,9 +458,53 @@ export function sanitizeError(error: Error | string | unknown): string {
 	return redactSecrets(message);
 }
 
+/**
+ * Transient error classes that can be retried
+ */
+export type RetryableErrorClass = 'rateLimit' | 'network' | 'timeout';
+
+/**
+ * Timeout and retry settings for SDK calls
+ */
+export interface RetryPolicy {
+	/** Timeout per attempt (ms) */
+	timeoutMs: number;
+	/** Total attempts, including the first */
+	maxAttempts: number;
+	/** Base delay for exponential backoff (ms) */
+	baseDelayMs: number;
+	/** Randomize each delay between 50% and 100% of the backoff */
+	jitter: boolean;
+	/** Error classes that are retried */
+	retryOn: RetryableErrorClass[];
+}
+
+/**
+ * Default policy (30s timeout, 3 attempts, 1s/2s/4s backoff)
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	timeoutMs: PROTOCOL_CONSTANTS.SDK_TIMEOUT_MS,
+	maxAttempts: PROTOCOL_CONSTANTS.MAX_RETRY_ATTEMPTS,
+	baseDelayMs: PROTOCOL_CONSTANTS.RETRY_BASE_DELAY_MS,
+	jitter: false,
+	retryOn: ['rateLimit', 'network', 'timeout'],
+};
+
+/**
+ * Retry options beyond attempts and base delay
+ */
+export interface RetryOptions {
+	jitter?: boolean;
+	retryOn?: RetryableErrorClass[];
+	/** Called before each retry (attempt is 1-based) */
+	onRetry?: (attempt: number, error: Error) => void;
+}
+
 /**
  * Execute a promise with timeout
  *
+ * The timer is cleared once the promise settles.
+ *
  * @param promise - Promise to execute
  * @param timeoutMs - Timeout in milliseconds (default: 30s)
  * @param operation - Operation name for error message
@@ -205,39 +516,57 @@ export async function withTimeout<T>(
 	timeoutMs: number = PROTOCOL_CONSTANTS.SDK_TIMEOUT_MS,
 	operation = 'Operation',
 ): Promise<T> {
-	const timeout = new Promise<never>((_, reject) =>
-		setTimeout(
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(
 			() => reject(new Error(`${operation} timed out after ${timeoutMs}ms`)),
 			timeoutMs,
-		),
-	);
-	return Promise.race([promise, timeout]);
+		);
+	});
+	try {
+		return await Promise.race([promise, timeout]);
+	} finally {
+		clearTimeout(timer);
+	}
 }
 
 /**
- * Check if an error is retryable (transient)
+ * Classify a transient error
+ *
+ * Our own "timed out after" errors are not classified: the timed-out call
+ * may still complete, so retrying it could send a write twice.
+ *
+ * @returns Error class, or undefined if the error is not transient
  */
-function isRetryableError(error: Error): boolean {
+export function classifyError(error: Error): RetryableErrorClass | undefined {
 	const message = error.message.toLowerCase();
-	return (
-		message.includes('rate limit') ||
-		message.includes('timeout') ||
+	if (message.includes('rate limit') || message.includes('too many requests')) {
+		return 'rateLimit';
+	}
+	if (message.includes('timeout')) {
+		return 'timeout';
+	}
+	if (
 		message.includes('network') ||
 		message.includes('econnreset') ||
 		message.includes('econnrefused') ||
 		message.includes('socket hang up') ||
 		message.includes('fetch failed')
-	);
+	) {
+		return 'network';
+	}
+	return undefined;
 }
 
 /**
  * Execute a function with retry on transient errors
  *
- * Uses exponential backoff: 1s, 2s, 4s...
+ * Uses exponential backoff: 1s, 2s, 4s... (optionally with jitter)
  *
  * @param fn - Function to execute
- * @param maxRetries - Maximum retry attempts (default: 3)
+ * @param maxRetries - Maximum attempts, including the first (default: 3)
  * @param baseDelay - Base delay in ms (default: 1000)
+ * @param options - Jitter, retryable error classes and retry callback
  * @returns Function result
  * @throws Last error if all retries exhausted
  */
@@ -245,7 +574,9 @@ export async function withRetry<T>(
 	fn: () => Promise<T>,
 	maxRetries: number = PROTOCOL_CONSTANTS.MAX_RETRY_ATTEMPTS,
 	baseDelay: number = PROTOCOL_CONSTANTS.RETRY_BASE_DELAY_MS,
+	options: RetryOptions = {},
 ): Promise<T> {
+	const retryOn = options.retryOn ?? DEFAULT_RETRY_POLICY.retryOn;
 	let lastError: Error | undefined;
 
 	for (let attempt = 0; attempt < maxRetries; attempt++) {
@@ -254,13 +585,16 @@ export async function withRetry<T>(
 		} catch (error) {
 			lastError = error as Error;
 			const isLastAttempt = attempt === maxRetries - 1;
+			const errorClass = classifyError(lastError);
 
-			if (isLastAttempt || !isRetryableError(lastError)) {
+			if (isLastAttempt || !errorClass || !retryOn.includes(errorClass)) {
 				throw lastError;
 			}
 
 			// Exponential backoff
-			const delay = baseDelay * Math.pow(2, attempt);
+			const backoff = baseDelay * Math.pow(2, attempt);
+			const delay = options.jitter ? backoff / 2 + Math.random() * (backoff / 2) : backoff;
+			options.onRetry?.(attempt + 1, lastError);
 			await new Promise((resolve) => setTimeout(resolve, delay));
 		}
 	}
@@ -268,6 +602,36 @@ export async function withRetry<T>(
 	throw lastError;
 }
 
+/**
+ * Map over items with bounded concurrency
+ *
+ * Results keep the input order regardless of completion order.
+ *
+ * @param items - Items to process
+ * @param concurrency - Maximum tasks in flight
+ * @param fn - Async task per item
+ * @returns Results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+	items: T[],
+	concurrency: number,
+	fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	const workerCount = Math.max(1, Math.min(Math.floor(concurrency), items.length));
+	let nextIndex = 0;
+
+	const workers = Array.from({ length: workerCount }, async () => {
+		while (nextIndex < items.length) {
+			const index = nextIndex++;
+			results[index] = await fn(items[index], index);
+		}
+	});
+
+	await Promise.all(workers);
+	return results;
+}
+
 /**
  * Execute SDK operation with timeout and retry
  *
@@ -275,13 +639,20 @@ export async function withRetry<T>(
  *
  * @param fn - Async function to execute
  * @param operation - Operation name for error messages
+ * @param policy - Timeout and retry settings (default: DEFAULT_RETRY_POLICY)
+ * @param onRetry - Called before each retry
  * @returns Function result
  */
 export async function executeWithProtection<T>(
 	fn: () => Promise<T>,
 	operation: string,
+	policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+	onRetry?: RetryOptions['onRetry'],
 ): Promise<T> {
 	return withRetry(
-		() => withTimeout(fn(), PROTOCOL_CONSTANTS.SDK_TIMEOUT_MS, operation),
+		() => withTimeout(fn(), policy.timeoutMs, operation),
+		policy.maxAttempts,
+		policy.baseDelayMs,
+		{ jitter: policy.jitter, retryOn: policy.retryOn, onRetry },
 	);
 }
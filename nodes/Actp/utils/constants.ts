@@ -106,6 +106,14 @@ export const VALID_TRANSITION_STATES: TransitionableState[] = [
 	'CANCELLED',
 ];
 
+/**
+ * Terminal states (no further transitions possible)
+ */
+export const TERMINAL_STATES: ACTPState[] = [
+	ACTPState.SETTLED,
+	ACTPState.CANCELLED,
+];
+
 /**
  * Convert state string to enum, with validation
  *
@@ -161,6 +169,14 @@ export function isValidTransitionState(state: string): state is TransitionableSt
 	return VALID_TRANSITION_STATES.includes(upper as TransitionableState);
 }
 
+/**
+ * Default public RPC endpoints per environment
+ */
+export const DEFAULT_RPC_URLS = {
+	testnet: 'https://sepolia.base.org',
+	mainnet: 'https://mainnet.base.org',
+} as const;
+
 /**
  * Protocol Constants
  */
@@ -205,4 +221,57 @@ export const PROTOCOL_CONSTANTS = {
 	 * Base delay for exponential backoff (ms)
 	 */
 	RETRY_BASE_DELAY_MS: 1000,
+
+	/**
+	 * Limits for process-wide client, derived key and ERC-8004 bridge caches
+	 */
+	CACHE_MAX_ENTRIES: 32,
+	CACHE_TTL_MS: 3600000, // 1 hour
+
+	/**
+	 * Default concurrent payments in batch mode
+	 */
+	DEFAULT_BATCH_CONCURRENCY: 3,
+
+	/**
+	 * Gas budget assumed by the pre-flight ETH check
+	 * Covers transaction creation plus escrow link (~2 txs)
+	 */
+	PREFLIGHT_GAS_LIMIT: 400000n,
+
+	/**
+	 * Blocks per eth_getLogs request when scanning for transactions
+	 * (public Base RPCs reject larger ranges)
+	 */
+	LOG_SCAN_BLOCK_RANGE: 10000,
+
+	/**
+	 * Default blocks to scan back when no start block is given
+	 * (~2.3 days on Base at 2s blocks, 10 log requests per role)
+	 */
+	DEFAULT_LOG_LOOKBACK_BLOCKS: 100000,
+
+	/**
+	 * Default and maximum page size for transaction listing
+	 */
+	DEFAULT_PAGE_SIZE: 50,
+	MAX_PAGE_SIZE: 500,
+
+	/**
+	 * Typical gas per operation, used for approximate dry-run costs
+	 */
+	DRY_RUN_GAS_UNITS: {
+		sendPayment: 400000n,
+		linkEscrow: 200000n,
+		transitionState: 100000n,
+		releaseEscrow: 150000n,
+		cancel: 100000n,
+		reportReputation: 150000n,
+	},
+
+	/**
+	 * Max blocks scanned for the wallet's transactions after a write
+	 * (fee reporting; ~100s on Base)
+	 */
+	FEE_SCAN_MAX_BLOCKS: 50,
 } as const;
@@ -0,0 +1,114 @@
+/**
+ * Delivery Proof Utilities
+ *
+ * Content hashing for deliverables and the DELIVERED transition proof.
+ * JSON is hashed in canonical form (sorted keys) so the same payload
+ * always produces the same hash, regardless of key order.
+ */
+
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { ethers } from 'ethers';
+
+/**
+ * Where a deliverable comes from
+ */
+export type DeliverableSource = 'none' | 'binary' | 'json';
+
+/**
+ * Hashed deliverable
+ */
+export interface DeliverableHash {
+	/** keccak256 of the deliverable bytes (0x-prefixed) */
+	contentHash: string;
+	/** Size of the hashed bytes */
+	sizeBytes: number;
+}
+
+/**
+ * Serialize a JSON value with object keys sorted at every level
+ */
+export function canonicalJson(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map((entry) => canonicalJson(entry)).join(',')}]`;
+	}
+	if (value !== null && typeof value === 'object') {
+		const entries = Object.keys(value as Record<string, unknown>)
+			.sort()
+			.filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+			.map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+		return `{${entries.join(',')}}`;
+	}
+	return JSON.stringify(value);
+}
+
+/**
+ * Hash raw deliverable bytes
+ */
+export function hashDeliverableBytes(bytes: Uint8Array): DeliverableHash {
+	return {
+		contentHash: ethers.keccak256(bytes),
+		sizeBytes: bytes.length,
+	};
+}
+
+/**
+ * Hash a JSON deliverable (canonical form)
+ *
+ * @param payload - Parsed JSON value or a JSON string
+ * @throws Error if a string payload is not valid JSON
+ */
+export function hashJsonDeliverable(payload: unknown): DeliverableHash {
+	let value = payload;
+	if (typeof payload === 'string') {
+		try {
+			value = JSON.parse(payload);
+		} catch {
+			throw new Error('Deliverable JSON is not valid JSON');
+		}
+	}
+	return hashDeliverableBytes(ethers.toUtf8Bytes(canonicalJson(value)));
+}
+
+/**
+ * Hash the deliverable configured on the node for an item
+ *
+ * @returns Hash, or undefined when the source is 'none'
+ * @throws Error if the binary property is missing
+ */
+export async function hashDeliverable(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	source: DeliverableSource,
+	jsonParameterName = 'deliverableJson',
+): Promise<DeliverableHash | undefined> {
+	if (source === 'binary') {
+		const propertyName = context.getNodeParameter('binaryPropertyName', itemIndex, 'data') as string;
+		const item = context.getInputData()[itemIndex];
+		if (!item?.binary?.[propertyName]) {
+			throw new Error(`Input item ${itemIndex} has no binary property "${propertyName}"`);
+		}
+		const buffer = await context.helpers.getBinaryDataBuffer(itemIndex, propertyName);
+		return hashDeliverableBytes(buffer);
+	}
+
+	if (source === 'json') {
+		const payload = context.getNodeParameter(jsonParameterName, itemIndex);
+		return hashJsonDeliverable(payload);
+	}
+
+	return undefined;
+}
+
+/**
+ * Encode the DELIVERED transition proof
+ *
+ * The dispute window is always the first word (what the kernel reads);
+ * the content hash, when present, follows as bytes32.
+ */
+export function encodeDeliveryProof(disputeWindowSeconds: number, contentHash?: string): string {
+	const abiCoder = ethers.AbiCoder.defaultAbiCoder();
+	if (!contentHash) {
+		return abiCoder.encode(['uint256'], [disputeWindowSeconds]);
+	}
+	return abiCoder.encode(['uint256', 'bytes32'], [disputeWindowSeconds, contentHash]);
+}
@@ -0,0 +1,127 @@
+/**
+ * Dry Run Utilities
+ *
+ * Support for the node-level Dry Run toggle: state-changing operations
+ * run all parsing, validation and precondition checks, price the
+ * operation's typical gas, and return the would-be result without
+ * broadcasting anything.
+ */
+
+import type { IExecuteFunctions, IDataObject } from 'n8n-workflow';
+import type { ACTPClient } from '@agirails/sdk';
+import { isMockClient } from './runtime.helpers';
+import { assertTransitionAllowed } from './transaction.helpers';
+import type { TransactionData } from './transaction.helpers';
+import { previewReleaseAttestation } from './attestation.helpers';
+import type { AutoAttestationMode } from './attestation.helpers';
+import { getJsonRpcProvider } from './wallet.helpers';
+import { formatEth, formatSuccess } from './formatters';
+import { PROTOCOL_CONSTANTS } from './constants';
+
+/**
+ * Operations that support Dry Run (gas budget keys)
+ */
+export type DryRunOperation = keyof typeof PROTOCOL_CONSTANTS.DRY_RUN_GAS_UNITS;
+
+/**
+ * Approximate gas cost (raw values as strings for JSON output)
+ *
+ * Typical gas for the operation, not an estimate of the exact call.
+ */
+export interface TypicalGasCost {
+	typicalGasUnits: string;
+	gasPriceWei: string;
+	approximateCostWei: string;
+	approximateCost: string;
+	note: string;
+}
+
+/**
+ * Check whether Dry Run is enabled for an item
+ */
+export function isDryRun(context: IExecuteFunctions, itemIndex: number): boolean {
+	return context.getNodeParameter('dryRun', itemIndex, false) as boolean;
+}
+
+/**
+ * Approximate the gas cost of an operation
+ *
+ * Prices the typical gas for the operation (DRY_RUN_GAS_UNITS) at the
+ * current max fee per gas. The call itself is not simulated, so the real
+ * cost can differ. Mock mode has no gas, so the cost is zero.
+ */
+export async function getTypicalGasCost(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	operation: DryRunOperation,
+	itemIndex: number,
+): Promise<TypicalGasCost> {
+	const typicalGasUnits = PROTOCOL_CONSTANTS.DRY_RUN_GAS_UNITS[operation];
+
+	let gasPrice = 0n;
+	if (!isMockClient(client)) {
+		const provider = await getJsonRpcProvider(context, client, itemIndex);
+		const feeData = await provider.getFeeData();
+		gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+	}
+
+	const cost = typicalGasUnits * gasPrice;
+	return {
+		typicalGasUnits: typicalGasUnits.toString(),
+		gasPriceWei: gasPrice.toString(),
+		approximateCostWei: cost.toString(),
+		approximateCost: formatEth(cost),
+		note: 'Typical gas for this operation at the current max fee, not an estimate of this exact call',
+	};
+}
+
+/**
+ * Build a dry-run result
+ *
+ * @param operation - Output operation name
+ * @param data - Would-be result fields
+ * @param gas - Approximate gas cost
+ */
+export function formatDryRun(
+	operation: string,
+	data: IDataObject,
+	gas: TypicalGasCost,
+): IDataObject {
+	return formatSuccess(operation, {
+		dryRun: true,
+		...data,
+		typicalGasCost: { ...gas },
+		message: `Dry run: ${data.message ?? 'all checks passed'}. Nothing was sent.`,
+	});
+}
+
+/**
+ * Preview a release (DELIVERED → SETTLED) without sending anything
+ *
+ * Checks the transition and reports which attestation would be used:
+ * the pasted UID, an existing one, or one that would be created.
+ *
+ * @throws InvalidStateTransitionError if the release is not allowed
+ * @throws Error if look-up finds nothing in 'lookUp' mode
+ */
+export async function previewRelease(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	transactionId: string,
+	tx: TransactionData,
+	attestationUID: string,
+	mode: AutoAttestationMode,
+	itemIndex: number,
+): Promise<IDataObject> {
+	assertTransitionAllowed(client, tx, 'SETTLED', context, itemIndex);
+
+	if (attestationUID) {
+		return { attestationUID, attestationWouldBeCreated: false };
+	}
+
+	const preview = await previewReleaseAttestation(context, client, transactionId, tx, mode, itemIndex);
+	return {
+		attestationUID: preview.existing?.uid,
+		attestationWouldBeCreated: preview.wouldCreate,
+	};
+}
@@ -0,0 +1,349 @@
+/**
+ * ACTP Error Taxonomy
+ *
+ * Typed errors with stable codes, so workflows can branch on `code`
+ * and `retryable` instead of matching message text.
+ *
+ * All classes extend NodeOperationError, so n8n displays them as usual.
+ * toActpError maps SDK, ethers and plain errors onto the taxonomy.
+ */
+
+import type { INode, IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { classifyError, sanitizeError } from './client.factory';
+
+/**
+ * Stable error codes
+ */
+export type ActpErrorCode =
+	| 'INVALID_INPUT'
+	| 'INSUFFICIENT_FUNDS'
+	| 'INVALID_STATE_TRANSITION'
+	| 'NOT_A_PARTY'
+	| 'TX_NOT_FOUND'
+	| 'DEADLINE_PASSED'
+	| 'TX_REVERTED'
+	| 'TIMEOUT'
+	| 'RATE_LIMITED'
+	| 'RPC_UNAVAILABLE'
+	| 'X402_PAYMENT_REJECTED'
+	| 'POLICY_VIOLATION'
+	| 'GAS_PRICE_TOO_HIGH'
+	| 'IDEMPOTENCY_CONFLICT'
+	| 'UNKNOWN';
+
+/**
+ * Codes that are usually safe to retry later
+ */
+const RETRYABLE_CODES: ReadonlySet<ActpErrorCode> = new Set<ActpErrorCode>([
+	'TIMEOUT',
+	'RATE_LIMITED',
+	'RPC_UNAVAILABLE',
+	'GAS_PRICE_TOO_HIGH',
+]);
+
+/**
+ * Default description per code (used when the error has none)
+ */
+const DEFAULT_DESCRIPTIONS: Record<ActpErrorCode, string> = {
+	INVALID_INPUT: 'Check the node parameters and input data.',
+	INSUFFICIENT_FUNDS: 'Top up the wallet with USDC (and ETH for gas) before retrying.',
+	INVALID_STATE_TRANSITION: 'Check the transaction state with Check Status or Get Transaction.',
+	NOT_A_PARTY: 'Use the credentials of the requester or provider of this transaction.',
+	TX_NOT_FOUND: 'Check the transaction ID and that the credentials use the same network.',
+	DEADLINE_PASSED: 'The transaction deadline has passed. Create a new transaction.',
+	TX_REVERTED: 'The contract rejected the transaction. Check the transaction state before retrying.',
+	TIMEOUT:
+		'The call may still complete on-chain. Check the transaction state before retrying, or raise the Timeout option.',
+	RATE_LIMITED: 'The RPC provider is rate limiting requests. Retry later or use a dedicated RPC URL.',
+	RPC_UNAVAILABLE: 'The RPC endpoint could not be reached. Retry later or check the RPC URL.',
+	X402_PAYMENT_REJECTED: 'The paid endpoint did not accept the x402 payment.',
+	POLICY_VIOLATION: 'Blocked by the credential spending policy. Nothing was sent.',
+	GAS_PRICE_TOO_HIGH: 'Network fees are above the credential cap. Nothing was sent.',
+	IDEMPOTENCY_CONFLICT: 'Use a new idempotency key for a new payment.',
+	UNKNOWN: '',
+};
+
+/**
+ * ActpError constructor options
+ */
+export interface ActpErrorOptions {
+	itemIndex?: number;
+	description?: string;
+	/** Overrides the code's default */
+	retryable?: boolean;
+}
+
+/**
+ * Base class for all ACTP node errors
+ */
+export class ActpError extends NodeOperationError {
+	readonly code: ActpErrorCode;
+	readonly retryable: boolean;
+
+	constructor(node: INode, code: ActpErrorCode, message: string, options: ActpErrorOptions = {}) {
+		super(node, message, {
+			itemIndex: options.itemIndex,
+			description: options.description || DEFAULT_DESCRIPTIONS[code] || undefined,
+		});
+		this.code = code;
+		this.retryable = options.retryable ?? RETRYABLE_CODES.has(code);
+		this.context.code = code;
+		this.context.retryable = this.retryable;
+	}
+}
+
+export class ValidationError extends ActpError {
+	constructor(node: INode, message: string, options?: ActpErrorOptions) {
+		super(node, 'INVALID_INPUT', message, options);
+	}
+}
+
+export class InsufficientFundsError extends ActpError {
+	constructor(node: INode, message: string, options?: ActpErrorOptions) {
+		super(node, 'INSUFFICIENT_FUNDS', message, options);
+	}
+}
+
+export class InvalidStateTransitionError extends ActpError {
+	constructor(node: INode, message: string, options?: ActpErrorOptions) {
+		super(node, 'INVALID_STATE_TRANSITION', message, options);
+	}
+}
+
+export class NotAPartyError extends ActpError {
+	constructor(node: INode, message: string, options?: ActpErrorOptions) {
+		super(node, 'NOT_A_PARTY', message, options);
+	}
+}
+
+export class TransactionNotFoundError extends ActpError {
+	constructor(node: INode, message: string, options?: ActpErrorOptions) {
+		super(node, 'TX_NOT_FOUND', message, options);
+	}
+}
+
+export class DeadlinePassedError extends ActpError {
+	constructor(node: INode, message: string, options?: ActpErrorOptions) {
+		super(node, 'DEADLINE_PASSED', message, options);
+	}
+}
+
+export class TransactionRevertedError extends ActpError {
+	constructor(node: INode, message: string, options?: ActpErrorOptions) {
+		super(node, 'TX_REVERTED', message, options);
+	}
+}
+
+export class TimeoutError extends ActpError {
+	constructor(node: INode, message: string, options?: ActpErrorOptions) {
+		super(node, 'TIMEOUT', message, options);
+	}
+}
+
+export class RateLimitedError extends ActpError {
+	constructor(node: INode, message: string, options?: ActpErrorOptions) {
+		super(node, 'RATE_LIMITED', message, options);
+	}
+}
+
+export class RpcUnavailableError extends ActpError {
+	constructor(node: INode, message: string, options?: ActpErrorOptions) {
+		super(node, 'RPC_UNAVAILABLE', message, options);
+	}
+}
+
+export class X402PaymentRejectedError extends ActpError {
+	constructor(node: INode, message: string, options?: ActpErrorOptions) {
+		super(node, 'X402_PAYMENT_REJECTED', message, options);
+	}
+}
+
+export class PolicyViolationError extends ActpError {
+	constructor(node: INode, message: string, options?: ActpErrorOptions) {
+		super(node, 'POLICY_VIOLATION', message, options);
+	}
+}
+
+export class GasPriceTooHighError extends ActpError {
+	constructor(node: INode, message: string, options?: ActpErrorOptions) {
+		super(node, 'GAS_PRICE_TOO_HIGH', message, options);
+	}
+}
+
+export class IdempotencyConflictError extends ActpError {
+	constructor(node: INode, message: string, options?: ActpErrorOptions) {
+		super(node, 'IDEMPOTENCY_CONFLICT', message, options);
+	}
+}
+
+/**
+ * Error class per code (UNKNOWN uses the base class)
+ */
+const ERROR_CLASSES: Record<
+	Exclude<ActpErrorCode, 'UNKNOWN'>,
+	new (node: INode, message: string, options?: ActpErrorOptions) => ActpError
+> = {
+	INVALID_INPUT: ValidationError,
+	INSUFFICIENT_FUNDS: InsufficientFundsError,
+	INVALID_STATE_TRANSITION: InvalidStateTransitionError,
+	NOT_A_PARTY: NotAPartyError,
+	TX_NOT_FOUND: TransactionNotFoundError,
+	DEADLINE_PASSED: DeadlinePassedError,
+	TX_REVERTED: TransactionRevertedError,
+	TIMEOUT: TimeoutError,
+	RATE_LIMITED: RateLimitedError,
+	RPC_UNAVAILABLE: RpcUnavailableError,
+	X402_PAYMENT_REJECTED: X402PaymentRejectedError,
+	POLICY_VIOLATION: PolicyViolationError,
+	GAS_PRICE_TOO_HIGH: GasPriceTooHighError,
+	IDEMPOTENCY_CONFLICT: IdempotencyConflictError,
+};
+
+/**
+ * SDK error class names → codes
+ */
+const SDK_ERROR_CODES: Record<string, ActpErrorCode> = {
+	TransactionNotFoundError: 'TX_NOT_FOUND',
+	InvalidStateTransitionError: 'INVALID_STATE_TRANSITION',
+	InsufficientBalanceError: 'INSUFFICIENT_FUNDS',
+	DeadlinePassedError: 'DEADLINE_PASSED',
+	ValidationError: 'INVALID_INPUT',
+	InvalidAddressError: 'INVALID_INPUT',
+	InvalidAmountError: 'INVALID_INPUT',
+	NetworkError: 'RPC_UNAVAILABLE',
+	TransactionRevertedError: 'TX_REVERTED',
+};
+
+/**
+ * ethers v6 error codes → codes
+ */
+const ETHERS_ERROR_CODES: Record<string, ActpErrorCode> = {
+	INSUFFICIENT_FUNDS: 'INSUFFICIENT_FUNDS',
+	CALL_EXCEPTION: 'TX_REVERTED',
+	TIMEOUT: 'TIMEOUT',
+	NETWORK_ERROR: 'RPC_UNAVAILABLE',
+	SERVER_ERROR: 'RPC_UNAVAILABLE',
+	INVALID_ARGUMENT: 'INVALID_INPUT',
+	MISSING_ARGUMENT: 'INVALID_INPUT',
+	BAD_DATA: 'INVALID_INPUT',
+};
+
+/**
+ * Message patterns for errors without a class or code (checked in order)
+ */
+const MESSAGE_PATTERNS: Array<[RegExp, ActpErrorCode]> = [
+	[/insufficient (funds|balance|usdc|eth|allowance)/i, 'INSUFFICIENT_FUNDS'],
+	[/transaction .*not found/i, 'TX_NOT_FOUND'],
+	[/(invalid|illegal) (state )?transition|cannot transition/i, 'INVALID_STATE_TRANSITION'],
+	[/deadline (has )?passed/i, 'DEADLINE_PASSED'],
+	[/execution reverted|transaction reverted/i, 'TX_REVERTED'],
+	[/\bx402\b|\b402\b|payment required/i, 'X402_PAYMENT_REJECTED'],
+	[/^invalid |must be |is required|required:/i, 'INVALID_INPUT'],
+];
+
+/**
+ * Map any error to a code
+ *
+ * Checks, in order: ActpError, SDK error class name, ethers error code,
+ * transient error classes (rate limit, network, timeout), message patterns.
+ */
+export function classifyActpError(error: unknown): ActpErrorCode {
+	if (error instanceof ActpError) return error.code;
+	if (!(error instanceof Error)) return 'UNKNOWN';
+
+	const sdkCode = SDK_ERROR_CODES[error.name] ?? SDK_ERROR_CODES[error.constructor?.name];
+	if (sdkCode) return sdkCode;
+
+	const ethersCode = (error as Error & { code?: unknown }).code;
+	if (typeof ethersCode === 'string' && ETHERS_ERROR_CODES[ethersCode]) {
+		return ETHERS_ERROR_CODES[ethersCode];
+	}
+
+	// Our own timeouts ("timed out after") are not transient, but still timeouts
+	if (/timed out after/i.test(error.message)) return 'TIMEOUT';
+	switch (classifyError(error)) {
+		case 'rateLimit':
+			return 'RATE_LIMITED';
+		case 'network':
+			return 'RPC_UNAVAILABLE';
+		case 'timeout':
+			return 'TIMEOUT';
+	}
+
+	for (const [pattern, code] of MESSAGE_PATTERNS) {
+		if (pattern.test(error.message)) return code;
+	}
+	return 'UNKNOWN';
+}
+
+/**
+ * Convert any error to the ActpError subclass for its code (ActpErrors are returned as-is)
+ *
+ * Messages are sanitized. Descriptions of existing NodeOperationErrors are kept.
+ * Our own timeouts are not retryable: the call may still complete on-chain.
+ */
+export function toActpError(node: INode, error: unknown, itemIndex?: number): ActpError {
+	if (error instanceof ActpError) return error;
+
+	const code = classifyActpError(error);
+	const description =
+		error instanceof NodeOperationError && error.description ? error.description : undefined;
+	const ownTimeout = error instanceof Error && /timed out after/i.test(error.message);
+
+	const options: ActpErrorOptions = {
+		itemIndex,
+		description,
+		retryable: ownTimeout ? false : undefined,
+	};
+	const message = sanitizeError(error);
+
+	return code === 'UNKNOWN'
+		? new ActpError(node, code, message, options)
+		: new ERROR_CLASSES[code](node, message, options);
+}
+
+/**
+ * Error fields for output items (continue-on-fail and per-item failures)
+ */
+export function formatActpError(error: ActpError): IDataObject {
+	return {
+		success: false,
+		error: error.message,
+		code: error.code,
+		retryable: error.retryable,
+		description: error.description ?? undefined,
+	};
+}
+
+/**
+ * Whether the node is set to "On Error: Continue (using error output)"
+ */
+export function usesErrorOutput(context: IExecuteFunctions): boolean {
+	return context.getNode().onError === 'continueErrorOutput';
+}
+
+/**
+ * Output item for a failed input item (Continue On Fail)
+ *
+ * n8n routes items with an `error` field to the Error output when it is
+ * enabled. There the input item's JSON is kept alongside the error details,
+ * so the error branch can retry or report the original item.
+ */
+export function formatFailedItem(
+	context: IExecuteFunctions,
+	error: ActpError,
+	itemIndex: number,
+	details: IDataObject = {},
+): INodeExecutionData {
+	const inputJson = usesErrorOutput(context) ? context.getInputData()[itemIndex]?.json : {};
+	return {
+		json: {
+			...inputJson,
+			...formatActpError(error),
+			...details,
+			itemIndex,
+		},
+		pairedItem: { item: itemIndex },
+	};
+}
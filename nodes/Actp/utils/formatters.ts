@@ -15,6 +15,14 @@ export function formatAmount(amount: bigint | string): string {
 	return `$${formatted} USDC`;
 }
 
+/**
+ * Format native ETH amount from wei (18 decimals) to human-readable string
+ */
+export function formatEth(amount: bigint | string): string {
+	const amountBigInt = typeof amount === 'string' ? BigInt(amount) : amount;
+	return `${formatUnits(amountBigInt, 18)} ETH`;
+}
+
 /**
  * Format Unix timestamp to human-readable date
  */
@@ -155,6 +163,29 @@ export function formatStatusCheck(status: {
 	} as IDataObject;
 }
 
+/**
+ * Format original vs quoted amount for the quote flow
+ *
+ * Difference is signed: positive when the quote is above the original amount.
+ */
+export function formatQuoteComparison(
+	originalAmount: bigint | string,
+	quotedAmount: bigint | string,
+): IDataObject {
+	const original = typeof originalAmount === 'string' ? BigInt(originalAmount) : originalAmount;
+	const quoted = typeof quotedAmount === 'string' ? BigInt(quotedAmount) : quotedAmount;
+	const difference = quoted - original;
+
+	return {
+		originalAmount: formatAmount(original),
+		originalAmountRaw: original.toString(),
+		quotedAmount: formatAmount(quoted),
+		quotedAmountRaw: quoted.toString(),
+		difference: `${difference < 0n ? '-' : '+'}${formatAmount(difference < 0n ? -difference : difference)}`,
+		differenceRaw: difference.toString(),
+	} as IDataObject;
+}
+
 /**
  * Format duration in seconds to human-readable string
  */
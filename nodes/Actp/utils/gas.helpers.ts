@@ -0,0 +1,275 @@
+/**
+ * Gas & Fee Utilities
+ *
+ * Fee reporting for on-chain writes (tx hash, gas used, effective gas
+ * price, fee in ETH) and the credential gas price cap.
+ *
+ * Writes whose result carries a transaction hash are looked up by hash.
+ * Most SDK writes return no hash; those are attributed by nonce: the
+ * wallet's nonce is read before and after the operation, and the blocks in
+ * between are scanned for the wallet's transactions (which can pick up
+ * another execution's write from the same wallet).
+ */
+
+import type { IExecuteFunctions, ICredentialDataDecryptedObject } from 'n8n-workflow';
+import type { ACTPClient } from '@agirails/sdk';
+import type { FeeData, JsonRpcProvider } from 'ethers';
+import { formatUnits, parseUnits } from 'ethers';
+import { getItemCredentials } from './client.factory';
+import { PROTOCOL_CONSTANTS } from './constants';
+import { GasPriceTooHighError } from './errors';
+import { formatEth } from './formatters';
+import type { PolicyViolation } from './policy.helpers';
+import { getClientAddress, isMockClient } from './runtime.helpers';
+import { getJsonRpcProvider } from './wallet.helpers';
+
+/**
+ * Gas price cap from credentials (wei; undefined = no cap)
+ */
+export interface GasPriceCap {
+	maxFeePerGas?: bigint;
+	maxPriorityFeePerGas?: bigint;
+}
+
+/**
+ * Fees paid by an operation (raw values as strings for JSON output)
+ *
+ * Empty when the wallet's transactions could not be found.
+ */
+export interface FeeReport {
+	/** Hash of the last transaction sent */
+	txHash?: string;
+	/** All transaction hashes, when the operation sent more than one */
+	txHashes?: string[];
+	blockNumber?: number;
+	/** Total gas used */
+	gasUsed?: string;
+	/** Gas-weighted average effective gas price (wei) */
+	effectiveGasPrice?: string;
+	feeWei?: string;
+	feeEth?: string;
+}
+
+/**
+ * Mined transaction cost (subset of an ethers receipt)
+ */
+export interface ReceiptCost {
+	hash: string;
+	blockNumber: number;
+	gasUsed: bigint;
+	gasPrice: bigint;
+}
+
+/**
+ * State captured before an operation for fee reporting
+ */
+export interface FeeTracking {
+	mock: boolean;
+	/** Undefined when the RPC was unavailable (fees are not reported) */
+	provider?: JsonRpcProvider;
+	address: string;
+	startBlock: number;
+	startNonce: number;
+}
+
+/**
+ * Parse a gwei value where 0 or empty means "no cap"
+ */
+function parseGwei(value: unknown, fieldName: string): bigint | undefined {
+	if (value === undefined || value === null || value === '') return undefined;
+	const cleaned = String(value).trim();
+	if (isNaN(Number(cleaned)) || Number(cleaned) < 0) {
+		throw new Error(`${fieldName} must be a non-negative number of gwei. Got: "${value}"`);
+	}
+	const wei = parseUnits(cleaned, 'gwei');
+	return wei > 0n ? wei : undefined;
+}
+
+/**
+ * Read the gas price cap from credentials
+ */
+export function parseGasPriceCap(credentials: ICredentialDataDecryptedObject): GasPriceCap {
+	return {
+		maxFeePerGas: parseGwei(credentials.maxGasPriceGwei, 'Max gas price'),
+		maxPriorityFeePerGas: parseGwei(credentials.maxPriorityFeeGwei, 'Max priority fee'),
+	};
+}
+
+/**
+ * Format wei as gwei
+ */
+function formatGwei(wei: bigint): string {
+	return `${formatUnits(wei, 'gwei')} gwei`;
+}
+
+/**
+ * Check current network fees against the cap
+ *
+ * @returns Violation, or undefined if fees are within the cap
+ */
+export function checkGasPriceCap(cap: GasPriceCap, feeData: FeeData): PolicyViolation | undefined {
+	const maxFee = feeData.maxFeePerGas ?? feeData.gasPrice;
+	if (cap.maxFeePerGas !== undefined && maxFee !== null && maxFee > cap.maxFeePerGas) {
+		return {
+			title: 'Network gas price is above the credential cap',
+			description: `The current max fee per gas is ${formatGwei(maxFee)}, above the cap of ${formatGwei(cap.maxFeePerGas)}. Nothing was sent. Retry when the network is cheaper or raise Max Gas Price.`,
+		};
+	}
+
+	const tip = feeData.maxPriorityFeePerGas;
+	if (cap.maxPriorityFeePerGas !== undefined && tip !== null && tip > cap.maxPriorityFeePerGas) {
+		return {
+			title: 'Network priority fee is above the credential cap',
+			description: `The current priority fee is ${formatGwei(tip)}, above the cap of ${formatGwei(cap.maxPriorityFeePerGas)}. Nothing was sent. Retry when the network is cheaper or raise Max Priority Fee.`,
+		};
+	}
+
+	return undefined;
+}
+
+/**
+ * Summarize mined transactions into a fee report
+ */
+export function summarizeReceipts(receipts: ReceiptCost[]): FeeReport {
+	const gasUsed = receipts.reduce((sum, r) => sum + r.gasUsed, 0n);
+	const fee = receipts.reduce((sum, r) => sum + r.gasUsed * r.gasPrice, 0n);
+	const last = receipts[receipts.length - 1];
+
+	return {
+		txHash: last?.hash,
+		txHashes: receipts.length > 1 ? receipts.map((r) => r.hash) : undefined,
+		blockNumber: last?.blockNumber,
+		gasUsed: gasUsed.toString(),
+		effectiveGasPrice: (gasUsed > 0n ? fee / gasUsed : 0n).toString(),
+		feeWei: fee.toString(),
+		feeEth: formatEth(fee),
+	};
+}
+
+/**
+ * Enforce the gas price cap and capture state for fee reporting
+ *
+ * Call right before an operation's first on-chain write.
+ *
+ * @throws GasPriceTooHighError if network fees are above the credential cap
+ */
+export async function beginFeeTracking(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	itemIndex: number,
+): Promise<FeeTracking> {
+	const address = getClientAddress(client);
+	if (isMockClient(client)) {
+		return { mock: true, address, startBlock: 0, startNonce: 0 };
+	}
+
+	const credentials = await getItemCredentials(context, itemIndex);
+	const provider = await getJsonRpcProvider(context, client, itemIndex);
+
+	const cap = parseGasPriceCap(credentials);
+	if (cap.maxFeePerGas !== undefined || cap.maxPriorityFeePerGas !== undefined) {
+		const violation = checkGasPriceCap(cap, await provider.getFeeData());
+		if (violation) {
+			throw new GasPriceTooHighError(context.getNode(), violation.title, {
+				itemIndex,
+				description: violation.description,
+			});
+		}
+	}
+
+	try {
+		const [startBlock, startNonce] = await Promise.all([
+			provider.getBlockNumber(),
+			provider.getTransactionCount(address, 'pending'),
+		]);
+		return { mock: false, provider, address, startBlock, startNonce };
+	} catch {
+		// Fee reporting is best-effort; never block the write
+		return { mock: false, address, startBlock: 0, startNonce: 0 };
+	}
+}
+
+/**
+ * Transaction hash from an SDK or contract write result, if it has one
+ */
+export function getResultTxHash(result: unknown): string | undefined {
+	if (!result || typeof result !== 'object') return undefined;
+	const { txHash, transactionHash, hash } = result as Record<string, unknown>;
+	const value = txHash ?? transactionHash ?? hash;
+	return typeof value === 'string' && /^0x[0-9a-fA-F]{64}$/.test(value) ? value : undefined;
+}
+
+/**
+ * Receipt cost for a mined transaction
+ */
+async function getReceiptCost(provider: JsonRpcProvider, hash: string): Promise<ReceiptCost | undefined> {
+	const receipt = await provider.getTransactionReceipt(hash);
+	if (!receipt) return undefined;
+	return {
+		hash: receipt.hash,
+		blockNumber: receipt.blockNumber,
+		gasUsed: receipt.gasUsed,
+		gasPrice: receipt.gasPrice,
+	};
+}
+
+/**
+ * Report the fees paid since beginFeeTracking
+ *
+ * With the hashes of the operation's transactions, reads their receipts.
+ * Otherwise (or if none is mined yet) scans up to FEE_SCAN_MAX_BLOCKS blocks
+ * for the wallet's transactions by nonce.
+ * Mock mode reports zero. Never throws: the write has already happened.
+ *
+ * @param txHashes - Hashes of every transaction the operation sent (undefined entries are ignored)
+ */
+export async function collectFees(
+	tracking: FeeTracking,
+	txHashes: Array<string | undefined> = [],
+): Promise<FeeReport> {
+	if (tracking.mock) {
+		return summarizeReceipts([]);
+	}
+
+	const { provider, address, startBlock, startNonce } = tracking;
+	if (!provider) return {};
+
+	try {
+		const hashes = txHashes.filter((hash): hash is string => hash !== undefined);
+		if (hashes.length > 0) {
+			const receipts = (await Promise.all(hashes.map((hash) => getReceiptCost(provider, hash)))).filter(
+				(receipt): receipt is ReceiptCost => receipt !== undefined,
+			);
+			if (receipts.length > 0) return summarizeReceipts(receipts);
+		}
+
+		const endNonce = await provider.getTransactionCount(address, 'pending');
+		const sent = endNonce - startNonce;
+		if (sent <= 0) return summarizeReceipts([]);
+
+		const latest = await provider.getBlockNumber();
+		const lastBlock = Math.min(latest, startBlock + PROTOCOL_CONSTANTS.FEE_SCAN_MAX_BLOCKS);
+		const receipts: ReceiptCost[] = [];
+
+		for (let n = startBlock; n <= lastBlock && receipts.length < sent; n++) {
+			const block = await provider.getBlock(n, true);
+			if (!block) continue;
+
+			for (const tx of block.prefetchedTransactions) {
+				if (
+					tx.from.toLowerCase() !== address.toLowerCase() ||
+					tx.nonce < startNonce ||
+					tx.nonce >= endNonce
+				) {
+					continue;
+				}
+				const receipt = await getReceiptCost(provider, tx.hash);
+				if (receipt) receipts.push(receipt);
+			}
+		}
+
+		return receipts.length > 0 ? summarizeReceipts(receipts) : {};
+	} catch {
+		return {};
+	}
+}
@@ -0,0 +1,278 @@
+/**
+ * Idempotency Utilities
+ *
+ * Optional idempotency keys for payment creation, so a retried execution
+ * returns the transaction it already created instead of paying twice.
+ *
+ * The key is bound to the transaction itself: a tag derived from it is
+ * written into the on-chain service description, so a payment survives a
+ * crash right after the broadcast, manual runs and executions retried with
+ * old static data. On testnet/mainnet the tag is only looked up over the
+ * default log lookback (DEFAULT_LOG_LOOKBACK_BLOCKS, ~2.3 days on Base).
+ * Keys are also recorded per wallet in the workflow's global static data
+ * (persisted by n8n for active workflows), and those records expire after
+ * IDEMPOTENCY_TTL_SECONDS. A retry later than the lookback is therefore
+ * only caught when the static data record survived.
+ */
+
+import type { IExecuteFunctions, IDataObject } from 'n8n-workflow';
+import type { ACTPClient } from '@agirails/sdk';
+import { keccak256, toUtf8Bytes } from 'ethers';
+import { getExecutionResource } from './client.factory';
+import { IdempotencyConflictError, TransactionNotFoundError } from './errors';
+import { formatAmount } from './formatters';
+import { listWalletTransactions } from './listing.helpers';
+import { getClientAddress, getPartyRoles } from './runtime.helpers';
+import type { RuntimeTransaction } from './runtime.helpers';
+import { getTransactionOrThrow, sdkStateToNumber } from './transaction.helpers';
+import type { TransactionData } from './transaction.helpers';
+import { ACTPState } from './constants';
+
+/**
+ * How long a key is remembered (30 days, in seconds)
+ */
+export const IDEMPOTENCY_TTL_SECONDS = 30 * 86400;
+
+/**
+ * Maximum key length
+ */
+const MAX_KEY_LENGTH = 256;
+
+/**
+ * Payment recorded under an idempotency key
+ */
+export interface IdempotencyRecord {
+	transactionId: string;
+	operation: string;
+	provider: string;
+	amountWei: string;
+	at: number;
+}
+
+/**
+ * Existing payment for a key, with its current transaction data
+ */
+export interface IdempotentReplay {
+	record: IdempotencyRecord;
+	tx: TransactionData;
+}
+
+/**
+ * Global static data layout for recorded keys
+ */
+interface IdempotencyStaticData extends IDataObject {
+	actpIdempotency?: Record<string, Record<string, IdempotencyRecord>>;
+}
+
+/**
+ * Parse an idempotency key input
+ *
+ * @returns Trimmed key, or undefined if empty
+ * @throws Error if the key is too long
+ */
+export function parseIdempotencyKey(value: unknown): string | undefined {
+	if (value === undefined || value === null) return undefined;
+	const key = String(value).trim();
+	if (!key) return undefined;
+	if (key.length > MAX_KEY_LENGTH) {
+		throw new Error(`Idempotency key must be at most ${MAX_KEY_LENGTH} characters`);
+	}
+	return key;
+}
+
+/**
+ * Tag that binds a key to a transaction's service description
+ *
+ * Derived from a hash, so the key itself (e.g. an order ID) is not published.
+ */
+export function idempotencyTag(key: string): string {
+	return `[idempotency:${keccak256(toUtf8Bytes(key)).slice(2, 18)}]`;
+}
+
+/**
+ * Service description carrying the key's tag
+ */
+export function bindIdempotencyKey(key: string, serviceDescription?: string): string {
+	return serviceDescription ? `${serviceDescription} ${idempotencyTag(key)}` : idempotencyTag(key);
+}
+
+/**
+ * Check whether a transaction was created under a key
+ *
+ * The runtime may return the description itself or only its keccak256
+ * hash (as stored by the kernel), so both forms are matched.
+ */
+function isBoundToKey(tx: RuntimeTransaction, key: string, serviceDescription?: string): boolean {
+	const stored = tx.serviceDescription;
+	if (!stored) return false;
+	if (stored.includes(idempotencyTag(key))) return true;
+	return stored.toLowerCase() === keccak256(toUtf8Bytes(bindIdempotencyKey(key, serviceDescription)));
+}
+
+/**
+ * Find the wallet's transaction created under a key on-chain (or in mock state)
+ *
+ * Wallet transactions are loaded once per execution.
+ */
+async function findBoundTransaction(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	key: string,
+	serviceDescription: string | undefined,
+	itemIndex: number,
+): Promise<RuntimeTransaction | undefined> {
+	const transactions = await getExecutionResource(context, itemIndex, 'walletTransactions', () =>
+		listWalletTransactions(context, client, undefined, itemIndex),
+	);
+
+	const address = getClientAddress(client);
+	return transactions.find(
+		(tx) =>
+			getPartyRoles(tx, address).includes('requester') && isBoundToKey(tx, key, serviceDescription),
+	);
+}
+
+/**
+ * Recorded keys for the client's wallet (expired keys are pruned from static data)
+ */
+function getKeys(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	now: number,
+): Record<string, IdempotencyRecord> {
+	const staticData = context.getWorkflowStaticData('global') as IdempotencyStaticData;
+	const wallets = (staticData.actpIdempotency ??= {});
+	const address = getClientAddress(client);
+	const keys = (wallets[address] ??= {});
+	for (const [key, record] of Object.entries(keys)) {
+		if (record.at <= now - IDEMPOTENCY_TTL_SECONDS) {
+			delete keys[key];
+		}
+	}
+	return keys;
+}
+
+/**
+ * Look up the payment recorded under a key
+ */
+export function findIdempotencyRecord(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	key: string,
+	now: number = Math.floor(Date.now() / 1000),
+): IdempotencyRecord | undefined {
+	return getKeys(context, client, now)[key];
+}
+
+/**
+ * Record a created payment under a key
+ */
+export function recordIdempotencyKey(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	key: string,
+	record: Omit<IdempotencyRecord, 'at'>,
+	now: number = Math.floor(Date.now() / 1000),
+): void {
+	getKeys(context, client, now)[key] = { ...record, at: now };
+}
+
+/**
+ * Forget a key (e.g. its transaction no longer exists)
+ */
+function forgetIdempotencyKey(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	key: string,
+	now: number = Math.floor(Date.now() / 1000),
+): void {
+	delete getKeys(context, client, now)[key];
+}
+
+/**
+ * Find the existing payment for a key before paying
+ *
+ * Checks the static data record first, then the wallet's transactions for
+ * one whose service description carries the key's tag (and records it).
+ * A key reused for a different recipient or amount is refused. A key whose
+ * transaction no longer exists (e.g. reset mock state) is forgotten.
+ *
+ * @param serviceDescription - Description the payment is created with (Create Transaction)
+ * @returns Existing payment, or undefined if the payment should be sent
+ * @throws IdempotencyConflictError if the key was used for a different payment
+ */
+export async function findIdempotentPayment(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	key: string,
+	provider: string,
+	amountWei: bigint,
+	itemIndex: number,
+	operation = 'sendPayment',
+	serviceDescription?: string,
+): Promise<IdempotentReplay | undefined> {
+	let record = findIdempotencyRecord(context, client, key);
+	if (!record) {
+		const bound = await findBoundTransaction(context, client, key, serviceDescription, itemIndex);
+		if (!bound) return undefined;
+
+		record = {
+			transactionId: bound.id,
+			operation,
+			provider: bound.provider,
+			amountWei: BigInt(bound.amount).toString(),
+			at: Math.floor(Date.now() / 1000),
+		};
+		recordIdempotencyKey(context, client, key, record);
+	}
+
+	if (record.provider.toLowerCase() !== provider.toLowerCase() || record.amountWei !== amountWei.toString()) {
+		throw new IdempotencyConflictError(
+			context.getNode(),
+			`Idempotency key "${key}" was already used for a different payment`,
+			{
+				itemIndex,
+				description: `The key was used for ${formatAmount(record.amountWei)} to ${record.provider} (transaction ${record.transactionId}). Use a new key for a new payment.`,
+			},
+		);
+	}
+
+	try {
+		const tx = await getTransactionOrThrow(client, record.transactionId, context, itemIndex);
+		return { record, tx };
+	} catch (error) {
+		if (!(error instanceof TransactionNotFoundError)) throw error;
+		forgetIdempotencyKey(context, client, key);
+		return undefined;
+	}
+}
+
+/**
+ * Check whether a replayed payment was created but never funded
+ *
+ * Happens when a run stopped between creating the transaction and linking
+ * escrow. Send Payment resumes it with Link Escrow instead of returning it.
+ */
+export function isUnfundedPayment(replay: IdempotentReplay): boolean {
+	return (
+		replay.record.operation === 'sendPayment' &&
+		sdkStateToNumber(replay.tx.state) === ACTPState.INITIATED
+	);
+}
+
+/**
+ * Output fields for a replayed payment
+ */
+export function formatIdempotentReplay(key: string, replay: IdempotentReplay): IDataObject {
+	return {
+		transactionId: replay.record.transactionId,
+		provider: replay.record.provider,
+		requester: replay.tx.requester,
+		amount: formatAmount(replay.record.amountWei),
+		amountWei: replay.record.amountWei,
+		state: replay.tx.state,
+		idempotencyKey: key,
+		idempotentReplay: true,
+		message: `A payment with idempotency key "${key}" already exists. Returned transaction ${replay.record.transactionId} instead of paying again.`,
+	};
+}
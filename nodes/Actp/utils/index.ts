@@ -8,16 +8,56 @@
 export {
 	createActpClient,
 	createClientFromCredentials,
+	getItemCredentials,
+	getExecutionResource,
+	resolvePrivateKey,
+	resolveSigner,
 	clearClientCache,
 	sanitizeError,
 	withTimeout,
 	withRetry,
+	classifyError,
 	executeWithProtection,
+	mapWithConcurrency,
+	DEFAULT_RETRY_POLICY,
+	type RetryPolicy,
+	type RetryOptions,
+	type RetryableErrorClass,
 } from './client.factory';
 
+// Bounded cache
+export { LruCache, type LruCacheOptions } from './lru.cache';
+
+// Errors
+export {
+	ActpError,
+	ValidationError,
+	InsufficientFundsError,
+	InvalidStateTransitionError,
+	NotAPartyError,
+	TransactionNotFoundError,
+	DeadlinePassedError,
+	TransactionRevertedError,
+	TimeoutError,
+	RateLimitedError,
+	RpcUnavailableError,
+	X402PaymentRejectedError,
+	PolicyViolationError,
+	GasPriceTooHighError,
+	IdempotencyConflictError,
+	classifyActpError,
+	toActpError,
+	formatActpError,
+	formatFailedItem,
+	usesErrorOutput,
+	type ActpErrorCode,
+	type ActpErrorOptions,
+} from './errors';
+
 // Input parsers
 export {
 	parseAmount,
+	parseAmountFilter,
 	parseDeadline,
 	parseDisputeWindow,
 	parseAddress,
@@ -28,11 +68,13 @@ export {
 // Output formatters
 export {
 	formatAmount,
+	formatEth,
 	formatTimestamp,
 	formatState,
 	formatTransactionSimple,
 	formatTransactionAdvanced,
 	formatStatusCheck,
+	formatQuoteComparison,
 	formatDuration,
 	formatSuccess,
 	formatError,
@@ -45,6 +87,8 @@ export {
 	STATE_DESCRIPTIONS,
 	STATE_STRING_TO_ENUM,
 	VALID_TRANSITION_STATES,
+	TERMINAL_STATES,
+	DEFAULT_RPC_URLS,
 	PROTOCOL_CONSTANTS,
 	parseStateToEnum,
 	stateStringToNumber,
@@ -59,5 +103,145 @@ export {
 	validateTransitionState,
 	sdkStateToNumber,
 	executeSDKOperation,
+	formatTransactionData,
+	assertTransitionAllowed,
+	getRetryPolicy,
+	recordRetry,
+	getRetryCount,
+	reportRetries,
 	type TransactionData,
 } from './transaction.helpers';
+
+// State machine
+export {
+	STATE_TRANSITIONS,
+	getAllowedTransitions,
+	isTransitionAllowed,
+	formatAllowedTransitions,
+	validateStateTransition,
+	type AllowedTransition,
+	type TransitionParty,
+} from './state.machine';
+
+// Runtime helpers
+export {
+	isMockClient,
+	getMockRuntime,
+	getRuntimeTime,
+	getClientAddress,
+	listMockTransactions,
+	getPartyRoles,
+	type PartyRole,
+	type RuntimeTransaction,
+} from './runtime.helpers';
+
+// Remote signer
+export {
+	RemoteSigner,
+	createRemoteSigner,
+	discoverRemoteSignerAddress,
+	type RemoteSignerConfig,
+} from './remote.signer';
+
+// Dry run
+export {
+	isDryRun,
+	getTypicalGasCost,
+	formatDryRun,
+	previewRelease,
+	type DryRunOperation,
+	type TypicalGasCost,
+} from './dryrun.helpers';
+
+// Idempotency
+export {
+	parseIdempotencyKey,
+	findIdempotencyRecord,
+	recordIdempotencyKey,
+	findIdempotentPayment,
+	isUnfundedPayment,
+	formatIdempotentReplay,
+	idempotencyTag,
+	bindIdempotencyKey,
+	IDEMPOTENCY_TTL_SECONDS,
+	type IdempotencyRecord,
+	type IdempotentReplay,
+} from './idempotency.helpers';
+
+// Gas & fees
+export {
+	parseGasPriceCap,
+	checkGasPriceCap,
+	summarizeReceipts,
+	beginFeeTracking,
+	collectFees,
+	getResultTxHash,
+	type GasPriceCap,
+	type FeeReport,
+	type FeeTracking,
+} from './gas.helpers';
+
+// Spending policy
+export {
+	parseUsdcAmount,
+	parseSpendingPolicy,
+	hasSpendingPolicy,
+	checkSpendingPolicy,
+	getSpendingPolicy,
+	getRollingSpend,
+	recordSpend,
+	assertSpendingPolicy,
+	SPEND_WINDOW_SECONDS,
+	type SpendingPolicy,
+	type PaymentTarget,
+	type PolicyViolation,
+} from './policy.helpers';
+
+// Wallet helpers
+export {
+	getNetworkName,
+	getJsonRpcProvider,
+	getUsdcBalance,
+	getWalletBalances,
+	assertSufficientFunds,
+	type WalletBalances,
+} from './wallet.helpers';
+
+// Listing helpers
+export {
+	matchesTransactionFilter,
+	paginateTransactions,
+	scanTransactionIds,
+	listWalletTransactions,
+	syncWalletTransactions,
+	type TransactionFilter,
+	type TransactionPage,
+	type WalletTransactionSync,
+} from './listing.helpers';
+
+// Delivery proof helpers
+export {
+	canonicalJson,
+	hashDeliverableBytes,
+	hashJsonDeliverable,
+	hashDeliverable,
+	encodeDeliveryProof,
+	type DeliverableSource,
+	type DeliverableHash,
+} from './delivery.helpers';
+
+// EAS attestation helpers
+export {
+	EAS_CONTRACT_ADDRESS,
+	SCHEMA_REGISTRY_ADDRESS,
+	DELIVERY_SCHEMA,
+	DELIVERY_SCHEMA_UID,
+	getDeliverySchemaUID,
+	encodeDeliveryAttestationData,
+	createDeliveryAttestation,
+	findDeliveryAttestation,
+	resolveReleaseAttestation,
+	previewReleaseAttestation,
+	type AutoAttestationMode,
+	type DeliveryAttestation,
+} from './attestation.helpers';
@@ -0,0 +1,296 @@
+/**
+ * Transaction Listing Utilities
+ *
+ * Find the wallet's transactions and filter them by role, state,
+ * counterparty, amount and creation time.
+ *
+ * Mock mode reads the mock runtime state file. Testnet/mainnet scan the
+ * ACTP kernel's TransactionCreated logs for the wallet address, then
+ * load each transaction through the Standard adapter.
+ */
+
+import type { IExecuteFunctions } from 'n8n-workflow';
+import type { ACTPClient } from '@agirails/sdk';
+import { getNetwork } from '@agirails/sdk';
+import { Contract, type JsonRpcProvider } from 'ethers';
+import { DEFAULT_RETRY_POLICY, executeWithProtection, mapWithConcurrency } from './client.factory';
+import type { RetryPolicy } from './client.factory';
+import { PROTOCOL_CONSTANTS, stateNumberToString } from './constants';
+import { getClientAddress, getPartyRoles, isMockClient, listMockTransactions } from './runtime.helpers';
+import type { RuntimeTransaction } from './runtime.helpers';
+import { getRetryPolicy, recordRetry, sdkStateToNumber } from './transaction.helpers';
+import { getJsonRpcProvider, getNetworkName } from './wallet.helpers';
+
+/**
+ * Minimal ACTP kernel ABI for transaction discovery
+ *
+ * Must match the kernel deployed for the SDK's networks; the testnet
+ * integration test checks that a transaction created through the SDK is
+ * discovered from these logs.
+ */
+const KERNEL_EVENTS_ABI = [
+	'event TransactionCreated(bytes32 indexed transactionId, address indexed requester, address indexed provider, uint256 amount)',
+];
+
+/**
+ * Transaction list filter
+ *
+ * Empty/undefined fields do not filter.
+ */
+export interface TransactionFilter {
+	/** Wallet's role in the transaction */
+	role: 'any' | 'requester' | 'provider';
+	/** State names (e.g. DELIVERED) */
+	states: string[];
+	/** Other party's address */
+	counterparty?: string;
+	/** Minimum amount in USDC wei (inclusive) */
+	minAmount?: bigint;
+	/** Maximum amount in USDC wei (inclusive) */
+	maxAmount?: bigint;
+	/** Created at or after (Unix seconds) */
+	createdAfter?: number;
+	/** Created at or before (Unix seconds) */
+	createdBefore?: number;
+}
+
+/**
+ * One page of results
+ */
+export interface TransactionPage {
+	transactions: RuntimeTransaction[];
+	total: number;
+	page: number;
+	pageSize: number;
+	totalPages: number;
+	hasMore: boolean;
+}
+
+/**
+ * Check a transaction against a filter from the wallet's point of view
+ */
+export function matchesTransactionFilter(
+	tx: RuntimeTransaction,
+	address: string,
+	filter: TransactionFilter,
+): boolean {
+	// A wallet paying itself holds both roles
+	const roles = getPartyRoles(tx, address).filter((role) => filter.role === 'any' || filter.role === role);
+	if (roles.length === 0) return false;
+
+	if (filter.states.length > 0) {
+		const state = stateNumberToString(sdkStateToNumber(tx.state));
+		if (!filter.states.includes(state)) return false;
+	}
+
+	if (filter.counterparty) {
+		const counterparty = filter.counterparty.toLowerCase();
+		const matches = roles.some(
+			(role) => (role === 'requester' ? tx.provider : tx.requester).toLowerCase() === counterparty,
+		);
+		if (!matches) return false;
+	}
+
+	const amount = BigInt(tx.amount);
+	if (filter.minAmount !== undefined && amount < filter.minAmount) return false;
+	if (filter.maxAmount !== undefined && amount > filter.maxAmount) return false;
+
+	const createdAt = tx.createdAt ?? 0;
+	if (filter.createdAfter !== undefined && createdAt < filter.createdAfter) return false;
+	if (filter.createdBefore !== undefined && createdAt > filter.createdBefore) return false;
+
+	return true;
+}
+
+/**
+ * Slice a result list into a page (1-based)
+ */
+export function paginateTransactions(
+	transactions: RuntimeTransaction[],
+	page: number,
+	pageSize: number,
+): TransactionPage {
+	const total = transactions.length;
+	const totalPages = Math.max(1, Math.ceil(total / pageSize));
+	const start = (page - 1) * pageSize;
+
+	return {
+		transactions: transactions.slice(start, start + pageSize),
+		total,
+		page,
+		pageSize,
+		totalPages,
+		hasMore: start + pageSize < total,
+	};
+}
+
+/**
+ * Find transaction IDs involving an address from kernel logs
+ *
+ * Scans in LOG_SCAN_BLOCK_RANGE chunks to stay within RPC provider limits.
+ * Each request has its own timeout and retries, so a slow chunk is retried
+ * on its own instead of restarting the whole scan.
+ *
+ * @param provider - JSON-RPC provider
+ * @param kernelAddress - ACTP kernel contract address
+ * @param address - Wallet address (requester or provider topic)
+ * @param fromBlock - First block to scan
+ * @param policy - Timeout and retry policy per request
+ * @param onRetry - Called before each retry
+ * @param toBlock - Last block to scan (defaults to the latest block)
+ * @returns Unique transaction IDs in discovery order
+ */
+export async function scanTransactionIds(
+	provider: JsonRpcProvider,
+	kernelAddress: string,
+	address: string,
+	fromBlock: number,
+	policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+	onRetry?: () => void,
+	toBlock?: number,
+): Promise<string[]> {
+	const kernel = new Contract(kernelAddress, KERNEL_EVENTS_ABI, provider);
+	const read = <T>(operation: () => Promise<T>, name: string) =>
+		executeWithProtection(operation, name, policy, onRetry);
+	const latestBlock = toBlock ?? (await read(() => provider.getBlockNumber(), 'getBlockNumber'));
+	const range = PROTOCOL_CONSTANTS.LOG_SCAN_BLOCK_RANGE;
+	const ids = new Set<string>();
+
+	for (let start = Math.max(0, fromBlock); start <= latestBlock; start += range) {
+		const end = Math.min(start + range - 1, latestBlock);
+		const [asRequester, asProvider] = await Promise.all([
+			read(
+				() => kernel.queryFilter(kernel.filters.TransactionCreated(null, address, null), start, end),
+				'queryTransactionLogs',
+			),
+			read(
+				() => kernel.queryFilter(kernel.filters.TransactionCreated(null, null, address), start, end),
+				'queryTransactionLogs',
+			),
+		]);
+		for (const log of [...asRequester, ...asProvider]) {
+			ids.add(String(log.topics[1]).toLowerCase());
+		}
+	}
+
+	return [...ids];
+}
+
+/**
+ * List all transactions involving the client's wallet
+ *
+ * Every RPC read runs under the node's timeout and retry options on its own.
+ *
+ * @param context - n8n execution context (credentials for RPC URL)
+ * @param client - ACTP client
+ * @param fromBlock - First block to scan on testnet/mainnet (ignored in mock mode)
+ * @param itemIndex - Item index for credential resolution
+ * @returns Transactions, newest first
+ */
+export async function listWalletTransactions(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	fromBlock: number | undefined,
+	itemIndex: number,
+): Promise<RuntimeTransaction[]> {
+	const address = getClientAddress(client);
+	let transactions: RuntimeTransaction[];
+
+	if (isMockClient(client)) {
+		transactions = (await listMockTransactions(client)).filter(
+			(tx) => getPartyRoles(tx, address).length > 0,
+		);
+	} else {
+		const provider = await getJsonRpcProvider(context, client, itemIndex);
+		const policy = getRetryPolicy(context, itemIndex);
+		const onRetry = () => recordRetry(context, itemIndex);
+		const startBlock =
+			fromBlock ??
+			(await executeWithProtection(() => provider.getBlockNumber(), 'getBlockNumber', policy, onRetry)) -
+				PROTOCOL_CONSTANTS.DEFAULT_LOG_LOOKBACK_BLOCKS;
+		const kernelAddress = getNetwork(getNetworkName(client.info.mode)).contracts.actpKernel;
+		const ids = await scanTransactionIds(provider, kernelAddress, address, startBlock, policy, onRetry);
+		transactions = await loadTransactions(client, ids, policy, onRetry);
+	}
+
+	return transactions.sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0));
+}
+
+/**
+ * Wallet transactions found since a block cursor
+ */
+export interface WalletTransactionSync {
+	/** New and known transactions that still exist */
+	transactions: RuntimeTransaction[];
+	/** Last block scanned (next cursor) */
+	lastBlock: number;
+}
+
+/**
+ * Find the wallet's transactions created after a cursor and reload known ones
+ *
+ * For pollers on testnet/mainnet: only blocks after the cursor are scanned,
+ * and transactions found earlier are reloaded by ID, so they are followed
+ * however old they are. Without a cursor, the default lookback is scanned.
+ *
+ * @param cursor - Last block scanned by the previous call
+ * @param knownIds - Transactions to reload by ID (e.g. those not yet settled)
+ */
+export async function syncWalletTransactions(
+	client: ACTPClient,
+	provider: JsonRpcProvider,
+	cursor: number | undefined,
+	knownIds: string[],
+	policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+	onRetry?: () => void,
+): Promise<WalletTransactionSync> {
+	const latestBlock = await executeWithProtection(
+		() => provider.getBlockNumber(),
+		'getBlockNumber',
+		policy,
+		onRetry,
+	);
+	const fromBlock =
+		cursor === undefined ? latestBlock - PROTOCOL_CONSTANTS.DEFAULT_LOG_LOOKBACK_BLOCKS : cursor + 1;
+
+	const kernelAddress = getNetwork(getNetworkName(client.info.mode)).contracts.actpKernel;
+	const newIds =
+		fromBlock <= latestBlock
+			? await scanTransactionIds(
+					provider,
+					kernelAddress,
+					getClientAddress(client),
+					fromBlock,
+					policy,
+					onRetry,
+					latestBlock,
+				)
+			: [];
+
+	const ids = [...new Set([...knownIds.map((id) => id.toLowerCase()), ...newIds])];
+	return {
+		transactions: await loadTransactions(client, ids, policy, onRetry),
+		lastBlock: latestBlock,
+	};
+}
+
+/**
+ * Load transactions by ID (missing ones are skipped)
+ */
+async function loadTransactions(
+	client: ACTPClient,
+	ids: string[],
+	policy: RetryPolicy,
+	onRetry?: () => void,
+): Promise<RuntimeTransaction[]> {
+	const loaded = await mapWithConcurrency(ids, 5, async (id) => {
+		const tx = await executeWithProtection(
+			() => client.standard.getTransaction(id),
+			'getTransaction',
+			policy,
+			onRetry,
+		);
+		return tx ? ({ ...(tx as RuntimeTransaction), id } as RuntimeTransaction) : undefined;
+	});
+	return loaded.filter((tx): tx is RuntimeTransaction => tx !== undefined);
+}
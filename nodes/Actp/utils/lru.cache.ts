@@ -0,0 +1,78 @@
+/**
+ * Bounded Cache
+ *
+ * Least-recently-used cache with a time-to-live, for module-level caches
+ * that live as long as the n8n process (clients, derived keys, ERC-8004 bridges).
+ */
+
+/**
+ * Cache limits
+ */
+export interface LruCacheOptions {
+	/** Maximum entries kept; the least recently used entry is evicted first */
+	maxEntries: number;
+	/** Entry lifetime in milliseconds (from when it was set) */
+	ttlMs: number;
+}
+
+interface CacheEntry<V> {
+	value: V;
+	expiresAt: number;
+}
+
+/**
+ * LRU cache with TTL (Map iteration order tracks recency)
+ */
+export class LruCache<V> {
+	private readonly entries = new Map<string, CacheEntry<V>>();
+
+	constructor(
+		private readonly options: LruCacheOptions,
+		private readonly now: () => number = Date.now,
+	) {}
+
+	/**
+	 * Get an entry and mark it as most recently used
+	 *
+	 * @returns Value, or undefined if missing or expired
+	 */
+	get(key: string): V | undefined {
+		const entry = this.entries.get(key);
+		if (!entry) return undefined;
+
+		this.entries.delete(key);
+		if (entry.expiresAt <= this.now()) {
+			return undefined;
+		}
+		this.entries.set(key, entry);
+		return entry.value;
+	}
+
+	/**
+	 * Set an entry, evicting the least recently used entries over the limit
+	 */
+	set(key: string, value: V): void {
+		this.entries.delete(key);
+		this.entries.set(key, { value, expiresAt: this.now() + this.options.ttlMs });
+
+		while (this.entries.size > this.options.maxEntries) {
+			const oldest = this.entries.keys().next().value as string;
+			this.entries.delete(oldest);
+		}
+	}
+
+	delete(key: string): void {
+		this.entries.delete(key);
+	}
+
+	clear(): void {
+		this.entries.clear();
+	}
+
+	/**
+	 * Number of entries held (including expired ones not yet evicted)
+	 */
+	get size(): number {
+		return this.entries.size;
+	}
+}
@@ -12,6 +12,42 @@ import { MAX_INPUT_LENGTHS, isZeroAddress } from './secrets';
  * Security: Validates input length to prevent DoS attacks
  */
 export function parseAmount(amount: string | number): bigint {
+	const parsedAmount = parseUsdc(amount);
+
+	// Minimum $0.05 (50000 wei at 6 decimals)
+	if (parsedAmount < 50000n) {
+		throw new Error(`Amount must be at least $0.05. Got: ${formatInput(amount)}`);
+	}
+
+	return parsedAmount;
+}
+
+/**
+ * Parse an amount filter to USDC wei (no payment minimum)
+ *
+ * Accepts the same formats as parseAmount, including "0" and "0.01".
+ *
+ * @throws Error if the amount is not a non-negative number
+ */
+export function parseAmountFilter(amount: string | number, fieldName = 'Amount'): bigint {
+	const parsedAmount = parseUsdc(amount);
+	if (parsedAmount < 0n) {
+		throw new Error(`${fieldName} cannot be negative. Got: ${formatInput(amount)}`);
+	}
+	return parsedAmount;
+}
+
+/**
+ * Amount input as "$<number>" for error messages
+ */
+function formatInput(amount: string | number): string {
+	return `$${String(amount).replace(/[$ ,]/g, '').trim()}`;
+}
+
+/**
+ * Parse a USDC amount input (6 decimals) without range checks
+ */
+function parseUsdc(amount: string | number): bigint {
 	const amountStr = typeof amount === 'number' ? amount.toString() : amount;
 
 	// DoS protection: limit input length
@@ -28,14 +64,7 @@ export function parseAmount(amount: string | number): bigint {
 		throw new Error(`Invalid amount: "${amount}". Use a number like "100" or "100.50"`);
 	}
 
-	const parsedAmount = parseUnits(cleaned, 6);
-
-	// Minimum $0.05 (50000 wei at 6 decimals)
-	if (parsedAmount < 50000n) {
-		throw new Error(`Amount must be at least $0.05. Got: $${cleaned}`);
-	}
-
-	return parsedAmount;
+	return parseUnits(cleaned, 6);
 }
 
 /**
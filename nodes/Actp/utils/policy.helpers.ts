@@ -0,0 +1,275 @@
+/**
+ * Spending Policy Utilities
+ *
+ * Credential-level guard for outgoing payments: a per-transaction limit,
+ * a rolling 24-hour limit, and allow/deny lists for recipient addresses
+ * and x402 hostnames. Checked before any payment is submitted.
+ *
+ * The rolling spend is tracked per wallet in the workflow's global static
+ * data (persisted by n8n for active workflows).
+ */
+
+import type { IExecuteFunctions, ICredentialDataDecryptedObject, IDataObject } from 'n8n-workflow';
+import type { ACTPClient } from '@agirails/sdk';
+import { parseUnits } from 'ethers';
+import { getItemCredentials } from './client.factory';
+import { PolicyViolationError } from './errors';
+import { formatAmount } from './formatters';
+import { getClientAddress } from './runtime.helpers';
+
+/**
+ * Rolling spend window (24 hours, in seconds)
+ */
+export const SPEND_WINDOW_SECONDS = 86400;
+
+/**
+ * Spending policy from credentials (limits in USDC wei)
+ */
+export interface SpendingPolicy {
+	/** Max amount per payment (undefined = no limit) */
+	maxPerTransaction?: bigint;
+	/** Max total over the last 24 hours (undefined = no limit) */
+	maxPer24Hours?: bigint;
+	/** Lowercase recipient addresses allowed (empty = any) */
+	recipientAllowlist: string[];
+	/** Lowercase recipient addresses refused */
+	recipientDenylist: string[];
+	/** Lowercase x402 hostnames allowed, subdomains included (empty = any) */
+	hostAllowlist: string[];
+	/** Lowercase x402 hostnames refused, subdomains included */
+	hostDenylist: string[];
+}
+
+/**
+ * Who a payment goes to: an ACTP recipient address or an x402 URL
+ */
+export type PaymentTarget = { address: string } | { url: string };
+
+/**
+ * Policy violation (title + actionable description)
+ */
+export interface PolicyViolation {
+	title: string;
+	description: string;
+}
+
+/**
+ * Recorded spend (amount kept as string for static data serialization)
+ */
+interface SpendEntry {
+	at: number;
+	amountWei: string;
+}
+
+/**
+ * Global static data layout for the spend ledger
+ */
+interface SpendingStaticData extends IDataObject {
+	actpSpendLedger?: Record<string, SpendEntry[]>;
+}
+
+/**
+ * Parse a USDC amount without the protocol minimum
+ * (x402 payments and limits may be below $0.05)
+ */
+export function parseUsdcAmount(amount: string | number, fieldName = 'Amount'): bigint {
+	const cleaned = String(amount).replace(/[$ ,]/g, '').trim();
+	if (!cleaned || isNaN(Number(cleaned)) || Number(cleaned) < 0) {
+		throw new Error(`${fieldName} must be a non-negative number. Got: "${amount}"`);
+	}
+	return parseUnits(cleaned, 6);
+}
+
+/**
+ * Parse a comma/newline separated list (lowercased, empty entries dropped)
+ */
+function parseList(value: unknown): string[] {
+	if (typeof value !== 'string') return [];
+	return value
+		.split(/[\s,]+/)
+		.map((entry) => entry.trim().toLowerCase())
+		.filter((entry) => entry.length > 0);
+}
+
+/**
+ * Parse a limit where 0 or empty means "no limit"
+ */
+function parseLimit(value: unknown, fieldName: string): bigint | undefined {
+	if (value === undefined || value === null || value === '') return undefined;
+	const limit = parseUsdcAmount(value as string | number, fieldName);
+	return limit > 0n ? limit : undefined;
+}
+
+/**
+ * Read the spending policy from credentials
+ */
+export function parseSpendingPolicy(credentials: ICredentialDataDecryptedObject): SpendingPolicy {
+	return {
+		maxPerTransaction: parseLimit(credentials.maxPerTransaction, 'Max per transaction'),
+		maxPer24Hours: parseLimit(credentials.maxPer24Hours, 'Max per 24 hours'),
+		recipientAllowlist: parseList(credentials.recipientAllowlist),
+		recipientDenylist: parseList(credentials.recipientDenylist),
+		hostAllowlist: parseList(credentials.x402HostAllowlist),
+		hostDenylist: parseList(credentials.x402HostDenylist),
+	};
+}
+
+/**
+ * Check if a policy restricts anything
+ */
+export function hasSpendingPolicy(policy: SpendingPolicy): boolean {
+	return (
+		policy.maxPerTransaction !== undefined ||
+		policy.maxPer24Hours !== undefined ||
+		policy.recipientAllowlist.length > 0 ||
+		policy.recipientDenylist.length > 0 ||
+		policy.hostAllowlist.length > 0 ||
+		policy.hostDenylist.length > 0
+	);
+}
+
+/**
+ * Check if a hostname matches a list entry (exact or subdomain)
+ */
+export function hostMatches(host: string, entry: string): boolean {
+	return host === entry || host.endsWith(`.${entry}`);
+}
+
+/**
+ * Check a payment against the policy
+ *
+ * @param spentWei - Amount already spent in the rolling window
+ * @returns Violation, or undefined if the payment is allowed
+ */
+export function checkSpendingPolicy(
+	policy: SpendingPolicy,
+	target: PaymentTarget,
+	amountWei: bigint,
+	spentWei: bigint,
+): PolicyViolation | undefined {
+	if ('address' in target) {
+		const address = target.address.toLowerCase();
+		if (policy.recipientDenylist.includes(address)) {
+			return {
+				title: 'Recipient is on the spending policy denylist',
+				description: `Payments to ${address} are blocked by the credential's recipient denylist.`,
+			};
+		}
+		if (policy.recipientAllowlist.length > 0 && !policy.recipientAllowlist.includes(address)) {
+			return {
+				title: 'Recipient is not on the spending policy allowlist',
+				description: `Payments to ${address} are blocked. Add the address to the credential's recipient allowlist to allow it.`,
+			};
+		}
+	} else {
+		let host: string;
+		try {
+			host = new URL(target.url).hostname.toLowerCase();
+		} catch {
+			throw new Error(`Invalid URL: ${target.url}`);
+		}
+		if (policy.hostDenylist.some((entry) => hostMatches(host, entry))) {
+			return {
+				title: 'x402 host is on the spending policy denylist',
+				description: `Payments to ${host} are blocked by the credential's x402 host denylist.`,
+			};
+		}
+		if (
+			policy.hostAllowlist.length > 0 &&
+			!policy.hostAllowlist.some((entry) => hostMatches(host, entry))
+		) {
+			return {
+				title: 'x402 host is not on the spending policy allowlist',
+				description: `Payments to ${host} are blocked. Add the host to the credential's x402 host allowlist to allow it.`,
+			};
+		}
+	}
+
+	if (policy.maxPerTransaction !== undefined && amountWei > policy.maxPerTransaction) {
+		return {
+			title: 'Payment exceeds the per-transaction limit',
+			description: `${formatAmount(amountWei)} is above the credential's limit of ${formatAmount(policy.maxPerTransaction)} per transaction.`,
+		};
+	}
+
+	if (policy.maxPer24Hours !== undefined && spentWei + amountWei > policy.maxPer24Hours) {
+		const remaining = policy.maxPer24Hours > spentWei ? policy.maxPer24Hours - spentWei : 0n;
+		return {
+			title: 'Payment exceeds the 24-hour spending limit',
+			description: `${formatAmount(spentWei)} was spent in the last 24 hours. ${formatAmount(amountWei)} more would exceed the credential's limit of ${formatAmount(policy.maxPer24Hours)} (${formatAmount(remaining)} remaining).`,
+		};
+	}
+
+	return undefined;
+}
+
+/**
+ * Spend ledger entries for the client's wallet within the rolling window
+ * (older entries are pruned from static data)
+ */
+function getLedger(context: IExecuteFunctions, client: ACTPClient, now: number): SpendEntry[] {
+	const staticData = context.getWorkflowStaticData('global') as SpendingStaticData;
+	const ledgers = (staticData.actpSpendLedger ??= {});
+	const address = getClientAddress(client);
+	const recent = (ledgers[address] ?? []).filter((entry) => entry.at > now - SPEND_WINDOW_SECONDS);
+	ledgers[address] = recent;
+	return recent;
+}
+
+/**
+ * Amount spent by the client's wallet in the last 24 hours
+ */
+export function getRollingSpend(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	now: number = Math.floor(Date.now() / 1000),
+): bigint {
+	return getLedger(context, client, now).reduce((sum, entry) => sum + BigInt(entry.amountWei), 0n);
+}
+
+/**
+ * Record a completed payment in the rolling spend ledger
+ */
+export function recordSpend(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	amountWei: bigint,
+	now: number = Math.floor(Date.now() / 1000),
+): void {
+	getLedger(context, client, now).push({ at: now, amountWei: amountWei.toString() });
+}
+
+/**
+ * Get the spending policy configured on the credential
+ */
+export async function getSpendingPolicy(
+	context: IExecuteFunctions,
+	itemIndex: number,
+): Promise<SpendingPolicy> {
+	const credentials = await getItemCredentials(context, itemIndex);
+	return parseSpendingPolicy(credentials);
+}
+
+/**
+ * Enforce the spending policy before a payment is submitted
+ *
+ * @throws PolicyViolationError if the payment would violate the policy
+ */
+export async function assertSpendingPolicy(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	target: PaymentTarget,
+	amountWei: bigint,
+	itemIndex: number,
+): Promise<void> {
+	const policy = await getSpendingPolicy(context, itemIndex);
+	if (!hasSpendingPolicy(policy)) return;
+
+	const violation = checkSpendingPolicy(policy, target, amountWei, getRollingSpend(context, client));
+	if (violation) {
+		throw new PolicyViolationError(context.getNode(), violation.title, {
+			itemIndex,
+			description: violation.description,
+		});
+	}
+}
@@ -0,0 +1,215 @@
+/**
+ * Remote Signer
+ *
+ * Delegates signing to an external HTTP signing service speaking
+ * Web3Signer-style JSON-RPC (eth_accounts, eth_signTransaction, eth_sign,
+ * eth_signTypedData), so the private key never enters n8n.
+ */
+
+import type { ICredentialDataDecryptedObject } from 'n8n-workflow';
+import type { Provider, TransactionLike, TransactionRequest, TypedDataDomain, TypedDataField } from 'ethers';
+import {
+	AbstractSigner,
+	FetchRequest,
+	TypedDataEncoder,
+	getAddress,
+	hexlify,
+	resolveAddress,
+	toQuantity,
+	toUtf8Bytes,
+} from 'ethers';
+import { PROTOCOL_CONSTANTS } from './constants';
+
+/**
+ * Connection settings for a remote signing service
+ */
+export interface RemoteSignerConfig {
+	/** JSON-RPC endpoint of the signing service */
+	url: string;
+	/** Optional Authorization header value (e.g. "Bearer ...") */
+	authorization?: string;
+}
+
+/**
+ * Call a JSON-RPC method on the signing service
+ *
+ * @throws Error on HTTP failure or a JSON-RPC error response
+ */
+export async function callRemoteSigner<T>(
+	config: RemoteSignerConfig,
+	method: string,
+	params: unknown[],
+): Promise<T> {
+	const request = new FetchRequest(config.url);
+	request.method = 'POST';
+	request.timeout = PROTOCOL_CONSTANTS.SDK_TIMEOUT_MS;
+	request.setHeader('content-type', 'application/json');
+	if (config.authorization) {
+		request.setHeader('authorization', config.authorization);
+	}
+	request.body = JSON.stringify({ jsonrpc: '2.0', id: 1, method, params });
+
+	const response = await request.send();
+	if (!response.ok()) {
+		throw new Error(`Remote signer returned HTTP ${response.statusCode} for ${method}`);
+	}
+
+	const body = response.bodyJson as { result?: T; error?: { message?: string } };
+	if (body.error) {
+		throw new Error(`Remote signer rejected ${method}: ${body.error.message || 'unknown error'}`);
+	}
+	if (body.result === undefined) {
+		throw new Error(`Remote signer returned no result for ${method}`);
+	}
+	return body.result;
+}
+
+/**
+ * Discover the signing address via eth_accounts
+ *
+ * @param expectedAddress - Address to use; must be managed by the signer.
+ *   Defaults to the first account the signer reports.
+ * @returns Checksummed address
+ * @throws Error if the signer has no accounts or does not manage the expected address
+ */
+export async function discoverRemoteSignerAddress(
+	config: RemoteSignerConfig,
+	expectedAddress?: string,
+): Promise<string> {
+	const accounts = await callRemoteSigner<string[]>(config, 'eth_accounts', []);
+	if (!Array.isArray(accounts) || accounts.length === 0) {
+		throw new Error('Remote signer does not manage any accounts');
+	}
+
+	if (!expectedAddress) {
+		return getAddress(accounts[0]);
+	}
+
+	const expected = getAddress(expectedAddress);
+	if (!accounts.some((account) => account.toLowerCase() === expected.toLowerCase())) {
+		throw new Error(`Remote signer does not manage address ${expected}`);
+	}
+	return expected;
+}
+
+/**
+ * Convert a populated transaction to JSON-RPC form (hex quantities)
+ */
+function toRpcTransaction(tx: TransactionLike<string>): Record<string, string> {
+	const rpcTx: Record<string, string> = {};
+
+	if (tx.from != null) rpcTx.from = tx.from.toLowerCase();
+	if (tx.to != null) rpcTx.to = tx.to.toLowerCase();
+	if (tx.data != null) rpcTx.data = hexlify(tx.data);
+
+	const quantities: Array<[keyof TransactionLike<string>, string]> = [
+		['type', 'type'],
+		['chainId', 'chainId'],
+		['nonce', 'nonce'],
+		['gasLimit', 'gas'],
+		['gasPrice', 'gasPrice'],
+		['maxFeePerGas', 'maxFeePerGas'],
+		['maxPriorityFeePerGas', 'maxPriorityFeePerGas'],
+		['value', 'value'],
+	];
+	for (const [key, rpcKey] of quantities) {
+		const value = tx[key];
+		if (value != null) {
+			rpcTx[rpcKey] = toQuantity(value as bigint | number);
+		}
+	}
+
+	return rpcTx;
+}
+
+/**
+ * Ethers signer backed by a remote signing service
+ *
+ * Nonce, gas and fees are populated locally from the provider; only the
+ * signature comes from the service. Broadcasting uses the provider.
+ */
+export class RemoteSigner extends AbstractSigner {
+	readonly address: string;
+
+	private readonly config: RemoteSignerConfig;
+
+	constructor(config: RemoteSignerConfig, address: string, provider?: null | Provider) {
+		super(provider);
+		this.config = config;
+		this.address = getAddress(address);
+	}
+
+	async getAddress(): Promise<string> {
+		return this.address;
+	}
+
+	connect(provider: null | Provider): RemoteSigner {
+		return new RemoteSigner(this.config, this.address, provider);
+	}
+
+	async signTransaction(tx: TransactionRequest): Promise<string> {
+		const to = tx.to == null ? undefined : await resolveAddress(tx.to, this.provider);
+		if (tx.from != null) {
+			const from = await resolveAddress(tx.from, this.provider);
+			if (from.toLowerCase() !== this.address.toLowerCase()) {
+				throw new Error(`Transaction from ${from} does not match remote signer ${this.address}`);
+			}
+		}
+
+		const rpcTx = toRpcTransaction({ ...(tx as TransactionLike<string>), to, from: this.address });
+		return callRemoteSigner<string>(this.config, 'eth_signTransaction', [rpcTx]);
+	}
+
+	async signMessage(message: string | Uint8Array): Promise<string> {
+		const data = typeof message === 'string' ? toUtf8Bytes(message) : message;
+		return callRemoteSigner<string>(this.config, 'eth_sign', [
+			this.address.toLowerCase(),
+			hexlify(data),
+		]);
+	}
+
+	async signTypedData(
+		domain: TypedDataDomain,
+		types: Record<string, TypedDataField[]>,
+		value: Record<string, unknown>,
+	): Promise<string> {
+		const resolved = await TypedDataEncoder.resolveNames(domain, types, value, async (name) =>
+			resolveAddress(name, this.provider),
+		);
+		return callRemoteSigner<string>(this.config, 'eth_signTypedData', [
+			this.address.toLowerCase(),
+			TypedDataEncoder.getPayload(resolved.domain, types, resolved.value),
+		]);
+	}
+}
+
+/**
+ * Check whether credentials use a remote signer
+ */
+export function isRemoteSignerCredentials(credentials: ICredentialDataDecryptedObject): boolean {
+	return credentials.walletType === 'remote';
+}
+
+/**
+ * Create a remote signer from credentials (discovers the address)
+ *
+ * @throws Error if the signer URL is missing or the address cannot be resolved
+ */
+export async function createRemoteSigner(
+	credentials: ICredentialDataDecryptedObject,
+	provider?: null | Provider,
+): Promise<RemoteSigner> {
+	const url = ((credentials.signerUrl as string) || '').trim();
+	if (!url) {
+		throw new Error('Signer URL is required for the remote signer');
+	}
+
+	const config: RemoteSignerConfig = {
+		url,
+		authorization: (credentials.signerAuthorization as string) || undefined,
+	};
+	const expectedAddress = ((credentials.signerAddress as string) || '').trim() || undefined;
+	const address = await discoverRemoteSignerAddress(config, expectedAddress);
+
+	return new RemoteSigner(config, address, provider);
+}
@@ -0,0 +1,90 @@
+/**
+ * Runtime Helper Utilities
+ *
+ * Access to the ACTP runtime behind a client (mock or blockchain)
+ * for operations that go beyond the Basic/Standard adapters.
+ */
+
+import type { ACTPClient, IMockRuntime } from '@agirails/sdk';
+import type { TransactionData } from './transaction.helpers';
+
+/**
+ * Transaction as stored by the runtime (includes its ID)
+ */
+export interface RuntimeTransaction extends TransactionData {
+	id: string;
+	serviceDescription?: string;
+}
+
+/**
+ * Check if the client runs against the local mock runtime
+ */
+export function isMockClient(client: ACTPClient): boolean {
+	return client.info.mode === 'mock';
+}
+
+/**
+ * Get the mock runtime behind a client
+ *
+ * @throws Error if the client is not in mock mode
+ */
+export function getMockRuntime(client: ACTPClient): IMockRuntime {
+	if (!isMockClient(client)) {
+		throw new Error('This operation is only available in mock mode.');
+	}
+	return client.advanced as IMockRuntime;
+}
+
+/**
+ * Current time as seen by the runtime (Unix seconds)
+ *
+ * Mock mode uses the mock clock, so Advance Time is respected.
+ */
+export function getRuntimeTime(client: ACTPClient): number {
+	if (isMockClient(client)) {
+		return getMockRuntime(client).time.now();
+	}
+	return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Get the wallet address the client acts as (lowercase)
+ */
+export function getClientAddress(client: ACTPClient): string {
+	return client.getAddress().toLowerCase();
+}
+
+/**
+ * List all transactions known to the mock runtime
+ *
+ * @param client - ACTP client in mock mode
+ * @returns Transactions from the mock state file
+ */
+export async function listMockTransactions(client: ACTPClient): Promise<RuntimeTransaction[]> {
+	const runtime = getMockRuntime(client);
+	const transactions = await runtime.getAllTransactions();
+	return transactions as unknown as RuntimeTransaction[];
+}
+
+/**
+ * Role of a transaction party
+ */
+export type PartyRole = 'requester' | 'provider';
+
+/**
+ * Get the roles an address holds in a transaction
+ *
+ * A wallet paying itself is both requester and provider.
+ *
+ * @returns Roles (requester first), empty if the address is not a party
+ */
+export function getPartyRoles(
+	tx: Pick<TransactionData, 'requester' | 'provider'>,
+	address: string,
+): PartyRole[] {
+	const normalized = address.toLowerCase();
+	const roles: PartyRole[] = [];
+	if (tx.requester?.toLowerCase() === normalized) roles.push('requester');
+	if (tx.provider?.toLowerCase() === normalized) roles.push('provider');
+	return roles;
+}
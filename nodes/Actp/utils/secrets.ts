@@ -6,88 +6,21 @@
  * - Private keys (64-char hex)
  * - BIP-39 mnemonic phrases (12-24 words)
  * - API keys (common patterns)
+ * - Keystore JSON crypto fields
  *
  * Security: Prevents accidental exposure of secrets in error messages,
  * logs, and user-facing outputs.
  */
 
+import { LangEn } from 'ethers';
+
 /**
- * BIP-39 English wordlist (first 100 most common words for quick detection)
- * Full BIP-39 has 2048 words, but checking the most common provides
- * high accuracy with minimal overhead.
+ * BIP-39 English wordlist (full 2048 words)
  *
- * These are the most frequently used words in seed phrases.
+ * Credentials may hold real, randomly generated mnemonics, so detection
+ * must recognize every word, not just the ones common in test phrases.
  */
-const BIP39_COMMON_WORDS = new Set([
-	// A
-	'abandon', 'ability', 'able', 'about', 'above', 'absent', 'absorb', 'abstract', 'absurd', 'abuse',
-	'access', 'accident', 'account', 'accuse', 'achieve', 'acid', 'acoustic', 'acquire', 'across', 'act',
-	'action', 'actor', 'actress', 'actual', 'adapt', 'add', 'addict', 'address', 'adjust', 'admit',
-	'adult', 'advance', 'advice', 'aerobic', 'affair', 'afford', 'afraid', 'again', 'age', 'agent',
-	'agree', 'ahead', 'aim', 'air', 'airport', 'aisle', 'alarm', 'album', 'alcohol', 'alert',
-	'alien', 'all', 'alley', 'allow', 'almost', 'alone', 'alpha', 'already', 'also', 'alter',
-	'always', 'amateur', 'amazing', 'among', 'amount', 'amused', 'analyst', 'anchor', 'ancient', 'anger',
-	'angle', 'angry', 'animal', 'ankle', 'announce', 'annual', 'another', 'answer', 'antenna', 'antique',
-	'anxiety', 'any', 'apart', 'apology', 'appear', 'apple', 'approve', 'april', 'arch', 'arctic',
-	'area', 'arena', 'argue', 'arm', 'armed', 'armor', 'army', 'around', 'arrange', 'arrest',
-	// B-Z (additional common words)
-	'basic', 'because', 'become', 'beef', 'before', 'begin', 'behind', 'believe', 'below', 'belt',
-	'bench', 'benefit', 'best', 'betray', 'better', 'between', 'beyond', 'bicycle', 'bid', 'bike',
-	'biology', 'bird', 'birth', 'bitter', 'black', 'blade', 'blame', 'blanket', 'blast', 'bleak',
-	'blind', 'blood', 'blossom', 'blouse', 'blue', 'blur', 'blush', 'board', 'boat', 'body',
-	'brain', 'brand', 'brass', 'brave', 'bread', 'breeze', 'brick', 'bridge', 'brief', 'bright',
-	'bring', 'brisk', 'broccoli', 'broken', 'bronze', 'broom', 'brother', 'brown', 'brush', 'bubble',
-	'call', 'calm', 'camera', 'camp', 'can', 'canal', 'cancel', 'candy', 'cannon', 'canoe',
-	'canvas', 'canyon', 'capable', 'capital', 'captain', 'car', 'carbon', 'card', 'cargo', 'carpet',
-	'case', 'cash', 'casino', 'castle', 'casual', 'cat', 'catalog', 'catch', 'category', 'cattle',
-	'caught', 'cause', 'caution', 'cave', 'ceiling', 'celery', 'cement', 'census', 'century', 'cereal',
-	'day', 'deal', 'debate', 'debris', 'decade', 'december', 'decide', 'decline', 'decorate', 'decrease',
-	'deer', 'defense', 'define', 'defy', 'degree', 'delay', 'deliver', 'demand', 'demise', 'denial',
-	'doctor', 'document', 'dog', 'doll', 'dolphin', 'domain', 'donate', 'donkey', 'donor', 'door',
-	'dose', 'double', 'dove', 'draft', 'dragon', 'drama', 'drastic', 'draw', 'dream', 'dress',
-	'early', 'earn', 'earth', 'easily', 'east', 'easy', 'echo', 'ecology', 'economy', 'edge',
-	'edit', 'educate', 'effort', 'egg', 'eight', 'either', 'elbow', 'elder', 'electric', 'elegant',
-	'element', 'elephant', 'elevator', 'elite', 'else', 'embark', 'embody', 'embrace', 'emerge', 'emotion',
-	'faculty', 'fade', 'faint', 'faith', 'fall', 'false', 'fame', 'family', 'famous', 'fan',
-	'fancy', 'fantasy', 'farm', 'fashion', 'fat', 'fatal', 'father', 'fatigue', 'fault', 'favorite',
-	'feature', 'february', 'federal', 'fee', 'feed', 'feel', 'female', 'fence', 'festival', 'fetch',
-	'game', 'gap', 'garage', 'garbage', 'garden', 'garlic', 'garment', 'gas', 'gasp', 'gate',
-	'gather', 'gauge', 'gaze', 'general', 'genius', 'genre', 'gentle', 'genuine', 'gesture', 'ghost',
-	'giant', 'gift', 'giggle', 'ginger', 'giraffe', 'girl', 'give', 'glad', 'glance', 'glare',
-	'half', 'hammer', 'hamster', 'hand', 'happy', 'harbor', 'hard', 'harsh', 'harvest', 'hat',
-	'have', 'hawk', 'hazard', 'head', 'health', 'heart', 'heavy', 'hedgehog', 'height', 'hello',
-	'helmet', 'help', 'hen', 'hero', 'hidden', 'high', 'hill', 'hint', 'hip', 'hire',
-	'ice', 'icon', 'idea', 'identify', 'idle', 'ignore', 'ill', 'illegal', 'illness', 'image',
-	'imitate', 'immense', 'immune', 'impact', 'impose', 'improve', 'impulse', 'inch', 'include', 'income',
-	'junior', 'junk', 'just', 'kangaroo', 'keen', 'keep', 'ketchup', 'key', 'kick', 'kid',
-	'kidney', 'kind', 'kingdom', 'kiss', 'kit', 'kitchen', 'kite', 'kitten', 'kiwi', 'knee',
-	'lab', 'label', 'labor', 'ladder', 'lady', 'lake', 'lamp', 'language', 'laptop', 'large',
-	'later', 'latin', 'laugh', 'laundry', 'lava', 'law', 'lawn', 'lawsuit', 'layer', 'lazy',
-	'make', 'mammal', 'man', 'manage', 'mandate', 'mango', 'mansion', 'manual', 'maple', 'marble',
-	'march', 'margin', 'marine', 'market', 'marriage', 'mask', 'mass', 'master', 'match', 'material',
-	'math', 'matrix', 'matter', 'maximum', 'maze', 'meadow', 'mean', 'measure', 'meat', 'mechanic',
-	'name', 'napkin', 'narrow', 'nasty', 'nation', 'nature', 'near', 'neck', 'need', 'negative',
-	'neglect', 'neither', 'nephew', 'nerve', 'nest', 'net', 'network', 'neutral', 'never', 'news',
-	'ocean', 'october', 'odor', 'off', 'offer', 'office', 'often', 'oil', 'okay', 'old',
-	'olive', 'olympic', 'omit', 'once', 'one', 'onion', 'online', 'only', 'open', 'opera',
-	'palace', 'palm', 'panda', 'panel', 'panic', 'panther', 'paper', 'parade', 'parent', 'park',
-	'parrot', 'party', 'pass', 'patch', 'path', 'patient', 'patrol', 'pattern', 'pause', 'pave',
-	'quality', 'quantum', 'quarter', 'question', 'quick', 'quit', 'quiz', 'quote', 'rabbit', 'raccoon',
-	'race', 'rack', 'radar', 'radio', 'rail', 'rain', 'raise', 'rally', 'ramp', 'ranch',
-	'sad', 'saddle', 'sadness', 'safe', 'sail', 'salad', 'salmon', 'salon', 'salt', 'salute',
-	'same', 'sample', 'sand', 'satisfy', 'satoshi', 'sauce', 'sausage', 'save', 'say', 'scale',
-	'table', 'tackle', 'tag', 'tail', 'talent', 'talk', 'tank', 'tape', 'target', 'task',
-	'taste', 'tattoo', 'taxi', 'teach', 'team', 'tell', 'ten', 'tenant', 'tennis', 'tent',
-	'umbrella', 'unable', 'unaware', 'uncle', 'uncover', 'under', 'undo', 'unfair', 'unfold', 'unhappy',
-	'uniform', 'unique', 'unit', 'universe', 'unknown', 'unlock', 'until', 'unusual', 'unveil', 'update',
-	'vacuum', 'vague', 'valid', 'valley', 'valve', 'van', 'vanish', 'vapor', 'various', 'vast',
-	'vault', 'vehicle', 'velvet', 'vendor', 'venture', 'venue', 'verb', 'verify', 'version', 'very',
-	'wage', 'wagon', 'wait', 'walk', 'wall', 'walnut', 'want', 'warfare', 'warm', 'warrior',
-	'wash', 'wasp', 'waste', 'water', 'wave', 'way', 'wealth', 'weapon', 'wear', 'weasel',
-	'year', 'yellow', 'you', 'young', 'youth', 'zebra', 'zero', 'zone', 'zoo',
-	// Critical words that often appear in test phrases
-	'about', 'word', 'worry', 'worth', 'wrap', 'wreck', 'wrestle', 'wrist', 'write', 'wrong',
-]);
+const BIP39_WORDLIST = LangEn.wordlist();
 
 /**
  * Maximum input length for validation (prevents ReDoS and buffer issues)
@@ -135,7 +68,7 @@ export function isMnemonicPhrase(input: string): boolean {
 	}
 
 	// Count how many words match BIP-39 wordlist
-	const matchingWords = words.filter((word) => BIP39_COMMON_WORDS.has(word));
+	const matchingWords = words.filter((word) => BIP39_WORDLIST.getWordIndex(word) >= 0);
 	const matchRatio = matchingWords.length / words.length;
 
 	// If 80% or more words match BIP-39, treat as mnemonic
@@ -208,6 +141,7 @@ export function isApiKey(input: string): boolean {
  * - Private keys (64-char hex) → [REDACTED_KEY]
  * - Mnemonic phrases → [REDACTED_MNEMONIC]
  * - API keys → [REDACTED_API_KEY]
+ * - Keystore crypto fields → [REDACTED_KEYSTORE]
  *
  * @param input - String containing potential secrets
  * @returns String with secrets redacted
@@ -224,13 +158,20 @@ export function redactSecrets(input: string): string {
 
 	let result = safeInput;
 
-	// 1. Redact private keys (64-char hex with 0x prefix)
+	// 1. Redact keystore JSON crypto fields (before hex redaction rewrites them)
+	// Security: Bounded quantifiers {min,max} prevent ReDoS attacks
+	result = result.replace(
+		/"(ciphertext|mac|salt|iv)"\s{0,10}:\s{0,10}"[0-9a-fA-F]{1,512}"/gi,
+		'"$1":"[REDACTED_KEYSTORE]"',
+	);
+
+	// 2. Redact private keys (64-char hex with 0x prefix)
 	result = result.replace(/0x[0-9a-fA-F]{64}\b/g, '[REDACTED_KEY]');
 
-	// 2. Redact private keys (64-char hex without prefix)
+	// 3. Redact private keys (64-char hex without prefix)
 	result = result.replace(/\b[0-9a-fA-F]{64}\b/g, '[REDACTED_KEY]');
 
-	// 3. Redact API keys (common patterns)
+	// 4. Redact API keys (common patterns)
 	// Security: Bounded quantifiers {min,max} prevent ReDoS attacks
 	result = result.replace(/sk_live_[a-zA-Z0-9]{20,100}/g, '[REDACTED_API_KEY]');
 	result = result.replace(/sk_test_[a-zA-Z0-9]{20,100}/g, '[REDACTED_API_KEY]');
@@ -241,7 +182,7 @@ export function redactSecrets(input: string): string {
 	result = result.replace(/ghp_[a-zA-Z0-9]{36}/g, '[REDACTED_API_KEY]');
 	result = result.replace(/glpat-[a-zA-Z0-9-_]{20,100}/g, '[REDACTED_API_KEY]');
 
-	// 4. Redact mnemonic phrases (11-24 word sequences)
+	// 5. Redact mnemonic phrases (11-24 word sequences)
 	// This is tricky - we need to find and redact multi-word sequences
 	result = redactMnemonicPhrases(result);
 
@@ -0,0 +1,141 @@
+/**
+ * ACTP State Machine
+ *
+ * Client-side copy of the ACTPKernel transition graph.
+ * Used to pre-validate transitions before sending anything on-chain,
+ * so illegal moves fail with a clear message instead of a gas-costing revert.
+ */
+
+import { ACTPState, STATE_NAMES, parseStateToEnum } from './constants';
+
+/**
+ * Party allowed to perform a transition
+ *
+ * Disputes are resolved by the protocol mediator, never by the parties.
+ */
+export type TransitionParty = 'requester' | 'provider' | 'mediator';
+
+/**
+ * Allowed transitions: from-state → to-state → parties that may perform it
+ */
+export const STATE_TRANSITIONS: Record<ACTPState, Partial<Record<ACTPState, TransitionParty[]>>> = {
+	[ACTPState.INITIATED]: {
+		[ACTPState.QUOTED]: ['provider'],
+		[ACTPState.COMMITTED]: ['requester'],
+		[ACTPState.CANCELLED]: ['requester'],
+	},
+	[ACTPState.QUOTED]: {
+		[ACTPState.COMMITTED]: ['requester'],
+		[ACTPState.CANCELLED]: ['requester', 'provider'],
+	},
+	[ACTPState.COMMITTED]: {
+		[ACTPState.IN_PROGRESS]: ['provider'],
+		[ACTPState.CANCELLED]: ['requester', 'provider'],
+	},
+	[ACTPState.IN_PROGRESS]: {
+		[ACTPState.DELIVERED]: ['provider'],
+		[ACTPState.CANCELLED]: ['requester', 'provider'],
+	},
+	[ACTPState.DELIVERED]: {
+		[ACTPState.SETTLED]: ['requester', 'provider'],
+		[ACTPState.DISPUTED]: ['requester', 'provider'],
+	},
+	[ACTPState.DISPUTED]: {
+		[ACTPState.SETTLED]: ['mediator'],
+		[ACTPState.CANCELLED]: ['mediator'],
+	},
+	[ACTPState.SETTLED]: {},
+	[ACTPState.CANCELLED]: {},
+};
+
+/**
+ * Allowed next step from a state
+ */
+export interface AllowedTransition {
+	state: string;
+	parties: TransitionParty[];
+}
+
+/**
+ * Get the allowed next states from a state
+ *
+ * @param fromState - Current state (name or enum)
+ * @returns Allowed target states with the parties that may perform them
+ */
+export function getAllowedTransitions(fromState: string | ACTPState): AllowedTransition[] {
+	const from = typeof fromState === 'number' ? fromState : parseStateToEnum(fromState);
+	const targets = STATE_TRANSITIONS[from] ?? {};
+
+	return Object.entries(targets).map(([to, parties]) => ({
+		state: STATE_NAMES[Number(to)],
+		parties: parties as TransitionParty[],
+	}));
+}
+
+/**
+ * Check if a transition is allowed (optionally for a specific party)
+ *
+ * @param fromState - Current state
+ * @param toState - Target state
+ * @param party - Party or parties the wallet acts as; allowed if any of them may
+ *   perform the transition (omit to skip the party check)
+ * @returns true if allowed
+ */
+export function isTransitionAllowed(
+	fromState: string | ACTPState,
+	toState: string | ACTPState,
+	party?: TransitionParty | TransitionParty[],
+): boolean {
+	const from = typeof fromState === 'number' ? fromState : parseStateToEnum(fromState);
+	const to = typeof toState === 'number' ? toState : parseStateToEnum(toState);
+	const parties = STATE_TRANSITIONS[from]?.[to];
+
+	if (!parties) return false;
+	if (party === undefined) return true;
+	return (Array.isArray(party) ? party : [party]).some((p) => parties.includes(p));
+}
+
+/**
+ * Format allowed next steps for error messages
+ *
+ * @example "IN_PROGRESS (provider), CANCELLED (requester, provider)"
+ */
+export function formatAllowedTransitions(fromState: string | ACTPState): string {
+	const allowed = getAllowedTransitions(fromState);
+	if (allowed.length === 0) {
+		return 'none (terminal state)';
+	}
+	return allowed.map((t) => `${t.state} (${t.parties.join(', ')})`).join(', ');
+}
+
+/**
+ * Validate a state transition
+ *
+ * @param fromState - Current state
+ * @param toState - Target state
+ * @param party - Party or parties the wallet acts as (omit to skip the party check)
+ * @throws Error listing the legal next steps if the transition is not allowed
+ */
+export function validateStateTransition(
+	fromState: string | ACTPState,
+	toState: string | ACTPState,
+	party?: TransitionParty | TransitionParty[],
+): void {
+	const from = typeof fromState === 'number' ? fromState : parseStateToEnum(fromState);
+	const to = typeof toState === 'number' ? toState : parseStateToEnum(toState);
+	const fromName = STATE_NAMES[from];
+	const toName = STATE_NAMES[to];
+
+	if (!isTransitionAllowed(from, to)) {
+		throw new Error(
+			`Invalid state transition: ${fromName} → ${toName}. Allowed next steps from ${fromName}: ${formatAllowedTransitions(from)}.`,
+		);
+	}
+
+	if (party !== undefined && !isTransitionAllowed(from, to, party)) {
+		const parties = STATE_TRANSITIONS[from][to] ?? [];
+		throw new Error(
+			`Only the ${parties.join(' or ')} can transition ${fromName} → ${toName} (your wallet is the ${[party].flat().join(' and ')}). Allowed next steps from ${fromName}: ${formatAllowedTransitions(from)}.`,
+		);
+	}
+}
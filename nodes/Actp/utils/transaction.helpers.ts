@@ -4,10 +4,24 @@
  * Common transaction operations with proper error handling.
  */
 
-import type { IExecuteFunctions } from 'n8n-workflow';
-import { NodeOperationError } from 'n8n-workflow';
+import type { IDataObject, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
 import { ACTPClient } from '@agirails/sdk';
-import { sanitizeError, executeWithProtection } from './client.factory';
+import {
+	executeWithProtection,
+	DEFAULT_RETRY_POLICY,
+	type RetryPolicy,
+	type RetryableErrorClass,
+} from './client.factory';
+import {
+	InvalidStateTransitionError,
+	NotAPartyError,
+	TransactionNotFoundError,
+	ValidationError,
+	toActpError,
+} from './errors';
+import { formatTransactionAdvanced } from './formatters';
+import { getClientAddress, getPartyRoles, isMockClient } from './runtime.helpers';
+import { validateStateTransition, type TransitionParty } from './state.machine';
 import {
 	TransitionableState,
 	VALID_TRANSITION_STATES,
@@ -26,6 +40,7 @@ export interface TransactionData {
 	disputeWindow?: number;
 	createdAt?: number;
 	updatedAt?: number;
+	deliveredAt?: number;
 	escrowId?: string;
 	contentHash?: string;
 }
@@ -38,7 +53,7 @@ export interface TransactionData {
  * @param context - n8n execution context
  * @param itemIndex - Item index for error context
  * @returns Transaction data
- * @throws NodeOperationError if transaction not found
+ * @throws TransactionNotFoundError if transaction not found
  */
 export async function getTransactionOrThrow(
 	client: ACTPClient,
@@ -49,10 +64,12 @@ export async function getTransactionOrThrow(
 	const tx = await executeWithProtection(
 		() => client.standard.getTransaction(txId),
 		'getTransaction',
+		getRetryPolicy(context, itemIndex),
+		() => recordRetry(context, itemIndex),
 	);
 
 	if (!tx) {
-		throw new NodeOperationError(
+		throw new TransactionNotFoundError(
 			context.getNode(),
 			`Transaction ${txId} not found`,
 			{ itemIndex },
@@ -69,7 +86,7 @@ export async function getTransactionOrThrow(
  * @param context - n8n execution context
  * @param itemIndex - Item index for error context
  * @returns Validated TransitionableState
- * @throws NodeOperationError if state is invalid
+ * @throws ValidationError if state is invalid
  */
 export function validateTransitionState(
 	state: string,
@@ -79,7 +96,7 @@ export function validateTransitionState(
 	const normalized = state.toUpperCase().trim();
 
 	if (!VALID_TRANSITION_STATES.includes(normalized as TransitionableState)) {
-		throw new NodeOperationError(
+		throw new ValidationError(
 			context.getNode(),
 			`Invalid transition state: "${state}". Valid states: ${VALID_TRANSITION_STATES.join(', ')}`,
 			{ itemIndex },
@@ -89,9 +106,54 @@ export function validateTransitionState(
 	return normalized as TransitionableState;
 }
 
+/**
+ * Pre-validate a state transition against the ACTP state machine
+ *
+ * The acting party (requester/provider) is only enforced on testnet/mainnet;
+ * the mock runtime lets a single wallet play both roles. A wallet that is
+ * both requester and provider may perform either party's transitions.
+ *
+ * @param client - ACTP client (used to determine the acting wallet)
+ * @param tx - Current transaction data
+ * @param toState - Target state
+ * @param context - n8n execution context
+ * @param itemIndex - Item index for error context
+ * @throws InvalidStateTransitionError listing the legal next steps if not allowed
+ * @throws NotAPartyError if the wallet is not a party (testnet/mainnet)
+ */
+export function assertTransitionAllowed(
+	client: ACTPClient,
+	tx: TransactionData,
+	toState: string,
+	context: IExecuteFunctions,
+	itemIndex: number,
+): void {
+	let parties: TransitionParty[] | undefined;
+	if (!isMockClient(client)) {
+		parties = getPartyRoles(tx, getClientAddress(client));
+		if (parties.length === 0) {
+			throw new NotAPartyError(
+				context.getNode(),
+				'Your wallet is neither the requester nor the provider of this transaction',
+				{ itemIndex },
+			);
+		}
+	}
+
+	// SDK may report states as numbers ("2") or names ("COMMITTED")
+	const fromState = /^\d+$/.test(String(tx.state)) ? Number(tx.state) : tx.state;
+
+	try {
+		validateStateTransition(fromState, toState, parties);
+	} catch (error) {
+		throw new InvalidStateTransitionError(context.getNode(), (error as Error).message, { itemIndex });
+	}
+}
+
 /**
  * Convert SDK state string to state number
  *
+ * Accepts state names or numeric strings ("0"-"7").
  * Safely handles unknown states by returning 0 (INITIATED) as fallback.
  *
  * @param state - State string from SDK
@@ -100,6 +162,9 @@ export function validateTransitionState(
 export function sdkStateToNumber(state: string | undefined): number {
 	if (!state) return 0;
 
+	// Some runtimes report the numeric state ("4") instead of the name
+	if (/^[0-7]$/.test(String(state))) return Number(state);
+
 	try {
 		return stateStringToNumber(state);
 	} catch {
@@ -108,14 +173,99 @@ export function sdkStateToNumber(state: string | undefined): number {
 	}
 }
 
+/**
+ * Format SDK transaction data for Advanced mode output
+ *
+ * @param txId - Transaction ID
+ * @param tx - Transaction data from SDK
+ * @returns Formatted transaction (see formatTransactionAdvanced)
+ */
+export function formatTransactionData(txId: string, tx: TransactionData): IDataObject {
+	return formatTransactionAdvanced({
+		transactionId: txId,
+		state: sdkStateToNumber(tx.state),
+		amount: BigInt(tx.amount),
+		requester: tx.requester,
+		provider: tx.provider,
+		deadline: tx.deadline,
+		disputeWindow: tx.disputeWindow,
+		createdAt: tx.createdAt ?? undefined,
+		updatedAt: tx.updatedAt ?? undefined,
+		escrowId: tx.escrowId ?? undefined,
+		contentHash: tx.contentHash ?? undefined,
+	});
+}
+
+/**
+ * Retries per item (context objects are per execution)
+ */
+const retryCounts = new WeakMap<object, Map<number, number>>();
+
+/**
+ * Read the timeout and retry policy from the node's Options
+ *
+ * Missing options fall back to DEFAULT_RETRY_POLICY.
+ */
+export function getRetryPolicy(context: IExecuteFunctions, itemIndex: number): RetryPolicy {
+	const options = context.getNodeParameter('options', itemIndex, {}) as IDataObject;
+	return {
+		timeoutMs:
+			options.timeout !== undefined
+				? Number(options.timeout) * 1000
+				: DEFAULT_RETRY_POLICY.timeoutMs,
+		maxAttempts:
+			options.maxAttempts !== undefined
+				? Math.max(1, Math.floor(Number(options.maxAttempts)))
+				: DEFAULT_RETRY_POLICY.maxAttempts,
+		baseDelayMs:
+			options.retryBaseDelay !== undefined
+				? Number(options.retryBaseDelay)
+				: DEFAULT_RETRY_POLICY.baseDelayMs,
+		jitter: (options.retryJitter as boolean | undefined) ?? DEFAULT_RETRY_POLICY.jitter,
+		retryOn: (options.retryOn as RetryableErrorClass[] | undefined) ?? DEFAULT_RETRY_POLICY.retryOn,
+	};
+}
+
+/**
+ * Count a retry for an item
+ */
+export function recordRetry(context: IExecuteFunctions, itemIndex: number): void {
+	let counts = retryCounts.get(context);
+	if (!counts) {
+		counts = new Map();
+		retryCounts.set(context, counts);
+	}
+	counts.set(itemIndex, (counts.get(itemIndex) ?? 0) + 1);
+}
+
+/**
+ * Number of retries made for an item in this execution
+ */
+export function getRetryCount(context: IExecuteFunctions, itemIndex: number): number {
+	return retryCounts.get(context)?.get(itemIndex) ?? 0;
+}
+
+/**
+ * Add the item's retry count to its results (only when retries happened)
+ */
+export function reportRetries(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	results: INodeExecutionData[],
+): INodeExecutionData[] {
+	const retries = getRetryCount(context, itemIndex);
+	if (retries === 0) return results;
+	return results.map((result) => ({ ...result, json: { ...result.json, retries } }));
+}
+
 /**
  * Wrap SDK operation with error handling
  *
  * Combines:
- * - Timeout protection (30s)
- * - Retry on transient errors
+ * - Timeout protection (node Options, default 30s)
+ * - Retry on transient errors (node Options), counted per item
  * - Error sanitization
- * - NodeOperationError wrapping
+ * - ActpError wrapping (code mapped from the SDK/ethers error)
  *
  * @param operation - Async operation to execute
  * @param operationName - Name for error messages
@@ -130,12 +280,13 @@ export async function executeSDKOperation<T>(
 	itemIndex: number,
 ): Promise<T> {
 	try {
-		return await executeWithProtection(operation, operationName);
-	} catch (error) {
-		throw new NodeOperationError(
-			context.getNode(),
-			sanitizeError(error as Error),
-			{ itemIndex },
+		return await executeWithProtection(
+			operation,
+			operationName,
+			getRetryPolicy(context, itemIndex),
+			() => recordRetry(context, itemIndex),
 		);
+	} catch (error) {
+		throw toActpError(context.getNode(), error, itemIndex);
 	}
 }
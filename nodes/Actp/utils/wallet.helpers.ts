@@ -0,0 +1,162 @@
+/**
+ * Wallet Helper Utilities
+ *
+ * Balance lookups for the credential wallet (or any address).
+ * Mock mode reads the mock runtime's token ledger; testnet/mainnet
+ * query the USDC contract and native balance over JSON-RPC.
+ *
+ * Also hosts the pre-flight funds check run before escrow is funded.
+ */
+
+import type { IExecuteFunctions } from 'n8n-workflow';
+import type { ACTPClient } from '@agirails/sdk';
+import { getNetwork } from '@agirails/sdk';
+import { Contract, JsonRpcProvider } from 'ethers';
+import { getExecutionResource } from './client.factory';
+import { InsufficientFundsError } from './errors';
+import { getMockRuntime, isMockClient } from './runtime.helpers';
+import { DEFAULT_RPC_URLS, PROTOCOL_CONSTANTS } from './constants';
+import { formatAmount, formatEth } from './formatters';
+
+/**
+ * Minimal ERC-20 ABI for balance reads
+ */
+const ERC20_ABI = [
+	'function balanceOf(address owner) view returns (uint256)',
+];
+
+/**
+ * Map ACTPClient mode to SDK network name
+ */
+export function getNetworkName(mode: string): 'base-sepolia' | 'base' {
+	if (mode === 'testnet') return 'base-sepolia';
+	if (mode === 'mainnet') return 'base';
+	throw new Error(`No blockchain network for mode: ${mode}`);
+}
+
+/**
+ * Get the JSON-RPC provider for the client's network
+ *
+ * Uses the credential's custom RPC URL when set. One provider is shared
+ * by all items of an execution with the same credentials.
+ */
+export async function getJsonRpcProvider(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	itemIndex: number,
+): Promise<JsonRpcProvider> {
+	const mode = client.info.mode as keyof typeof DEFAULT_RPC_URLS;
+	return getExecutionResource(context, itemIndex, `provider:${mode}`, async (credentials) => {
+		const rpcUrl = (credentials.rpcUrl as string) || undefined;
+		return new JsonRpcProvider(rpcUrl || DEFAULT_RPC_URLS[mode]);
+	});
+}
+
+/**
+ * Wallet balances (raw wei)
+ */
+export interface WalletBalances {
+	/** USDC balance (6 decimals) */
+	usdc: bigint;
+	/** Native ETH balance (18 decimals) */
+	eth: bigint;
+}
+
+/**
+ * Get USDC balance of an address
+ *
+ * @param context - n8n execution context (credentials for RPC URL)
+ * @param client - ACTP client
+ * @param address - Address to check
+ * @param itemIndex - Item index for credential resolution
+ * @returns USDC balance in wei (6 decimals)
+ */
+export async function getUsdcBalance(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	address: string,
+	itemIndex: number,
+): Promise<bigint> {
+	if (isMockClient(client)) {
+		const balance = await getMockRuntime(client).getBalance(address);
+		return BigInt(balance);
+	}
+
+	const provider = await getJsonRpcProvider(context, client, itemIndex);
+	const usdc = new Contract(
+		getNetwork(getNetworkName(client.info.mode)).contracts.usdc,
+		ERC20_ABI,
+		provider,
+	);
+	return BigInt(await usdc.balanceOf(address));
+}
+
+/**
+ * Get USDC and native ETH balances of an address
+ *
+ * Mock mode has no gas, so ETH is always 0.
+ */
+export async function getWalletBalances(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	address: string,
+	itemIndex: number,
+): Promise<WalletBalances> {
+	const usdc = await getUsdcBalance(context, client, address, itemIndex);
+
+	if (isMockClient(client)) {
+		return { usdc, eth: 0n };
+	}
+
+	const provider = await getJsonRpcProvider(context, client, itemIndex);
+	const eth = await provider.getBalance(address);
+	return { usdc, eth };
+}
+
+/**
+ * Verify the wallet can fund an escrow before submitting anything
+ *
+ * Checks the USDC balance, then ETH for gas (PREFLIGHT_GAS_LIMIT at the
+ * current fee). The USDC allowance is not checked: the SDK approves the
+ * escrow vault itself when funding. Mock mode only checks the USDC balance.
+ *
+ * @param context - n8n execution context
+ * @param client - ACTP client
+ * @param amountWei - Amount to be locked in escrow (USDC wei)
+ * @param itemIndex - Item index for error context
+ * @throws InsufficientFundsError describing what is missing
+ */
+export async function assertSufficientFunds(
+	context: IExecuteFunctions,
+	client: ACTPClient,
+	amountWei: bigint,
+	itemIndex: number,
+): Promise<void> {
+	const address = client.getAddress();
+	const usdcBalance = await getUsdcBalance(context, client, address, itemIndex);
+
+	if (usdcBalance < amountWei) {
+		throw new InsufficientFundsError(context.getNode(), 'Insufficient USDC balance', {
+			itemIndex,
+			description: `Wallet ${address} has ${formatAmount(usdcBalance)} but ${formatAmount(amountWei)} is required. Top up at least ${formatAmount(amountWei - usdcBalance)} before retrying.`,
+		});
+	}
+
+	if (isMockClient(client)) {
+		return;
+	}
+
+	const provider = await getJsonRpcProvider(context, client, itemIndex);
+	const [ethBalance, feeData] = await Promise.all([
+		provider.getBalance(address),
+		provider.getFeeData(),
+	]);
+	const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+	const requiredEth = gasPrice * PROTOCOL_CONSTANTS.PREFLIGHT_GAS_LIMIT;
+	if (ethBalance < requiredEth) {
+		throw new InsufficientFundsError(context.getNode(), 'Insufficient ETH for gas', {
+			itemIndex,
+			description: `Wallet ${address} has ${formatEth(ethBalance)} but about ${formatEth(requiredEth)} is needed for gas at current prices. Send at least ${formatEth(requiredEth - ethBalance)} to the wallet before retrying.`,
+		});
+	}
+}
@@ -0,0 +1,313 @@
+/**
+ * ACTP Trigger Node - Fires on ACTP transaction state changes
+ *
+ * Polls the ACTP runtime and emits one item per state transition
+ * (e.g. INITIATED → COMMITTED, DELIVERED → SETTLED) for transactions
+ * where the credential wallet is requester or provider.
+ *
+ * State is tracked in the workflow static data, so the first poll only
+ * records a baseline and later polls emit the differences. On
+ * testnet/mainnet the last scanned block is kept too: each poll scans the
+ * kernel's logs from there for new transactions and reloads the open ones
+ * by ID, so a transaction is followed until it settles however old it is.
+ *
+ * @packageDocumentation
+ */
+
+import type {
+	ICredentialDataDecryptedObject,
+	IDataObject,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	IPollFunctions,
+} from 'n8n-workflow';
+import type { ACTPClient } from '@agirails/sdk';
+import { JsonRpcProvider } from 'ethers';
+import {
+	createClientFromCredentials,
+	DEFAULT_RPC_URLS,
+	executeWithProtection,
+	formatTransactionData,
+	getClientAddress,
+	getPartyRoles,
+	isMockClient,
+	listMockTransactions,
+	parseTransactionId,
+	sdkStateToNumber,
+	STATE_NAMES,
+	stateNumberToString,
+	syncWalletTransactions,
+	TERMINAL_STATES,
+	toActpError,
+	type PartyRole,
+	type RuntimeTransaction,
+} from '../Actp/utils';
+
+/**
+ * Static data persisted between polls
+ */
+interface TriggerStaticData {
+	/** State per transaction (on testnet/mainnet, only transactions not yet settled or cancelled) */
+	transactionStates?: Record<string, string>;
+	/** Last block scanned for new transactions (testnet/mainnet) */
+	lastBlock?: number;
+}
+
+/**
+ * Transactions fetched by one poll
+ */
+interface WatchedTransactions {
+	transactions: RuntimeTransaction[];
+	/** Set when new transactions come from a block scan (settled ones are then not kept) */
+	lastBlock?: number;
+}
+
+/**
+ * State name of a transaction (runtimes may report the numeric state)
+ */
+function stateName(tx: RuntimeTransaction): string {
+	return stateNumberToString(sdkStateToNumber(tx.state));
+}
+
+/**
+ * Fetch the transactions this trigger is watching
+ */
+async function fetchWatchedTransactions(
+	context: IPollFunctions,
+	client: ACTPClient,
+	credentials: ICredentialDataDecryptedObject,
+	staticData: TriggerStaticData,
+): Promise<WatchedTransactions> {
+	const watch = context.getNodeParameter('watch', 'myTransactions') as string;
+
+	if (watch === 'transactionIds') {
+		const idsInput = context.getNodeParameter('transactionIds', '') as string;
+		const txIds = idsInput
+			.split(',')
+			.map((id) => id.trim())
+			.filter((id) => id.length > 0)
+			.map((id) => parseTransactionId(id));
+
+		const transactions: RuntimeTransaction[] = [];
+		for (const txId of txIds) {
+			const tx = await executeWithProtection(
+				() => client.standard.getTransaction(txId),
+				'getTransaction',
+			);
+			if (tx) {
+				transactions.push({ ...(tx as RuntimeTransaction), id: txId });
+			}
+		}
+		return { transactions };
+	}
+
+	const role = context.getNodeParameter('role', 'any') as string;
+	const address = getClientAddress(client);
+	const isWatched = (tx: RuntimeTransaction) => {
+		const roles = getPartyRoles(tx, address);
+		return role === 'any' ? roles.length > 0 : roles.includes(role as PartyRole);
+	};
+
+	if (isMockClient(client)) {
+		const transactions = await executeWithProtection(
+			() => listMockTransactions(client),
+			'listTransactions',
+		);
+		return { transactions: transactions.filter(isWatched) };
+	}
+
+	const mode = client.info.mode as keyof typeof DEFAULT_RPC_URLS;
+	const provider = new JsonRpcProvider((credentials.rpcUrl as string) || DEFAULT_RPC_URLS[mode]);
+	const { transactions, lastBlock } = await syncWalletTransactions(
+		client,
+		provider,
+		staticData.lastBlock,
+		Object.keys(staticData.transactionStates ?? {}),
+	);
+	return { transactions: transactions.filter(isWatched), lastBlock };
+}
+
+/**
+ * Build the output item for a state transition
+ */
+function buildTransitionItem(
+	tx: RuntimeTransaction,
+	previousState: string | null,
+	address: string,
+): INodeExecutionData {
+	// A wallet paying itself is both requester and provider
+	const roles = getPartyRoles(tx, address);
+	return {
+		json: {
+			event: 'stateChanged',
+			previousState,
+			newState: stateName(tx),
+			role: roles[0] ?? null,
+			roles,
+			...formatTransactionData(tx.id, tx),
+		} as IDataObject,
+	};
+}
+
+/**
+ * ACTP Trigger Node Implementation
+ */
+export class ActpTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'ACTP Trigger',
+		name: 'actpTrigger',
+		icon: 'file:actp.svg',
+		group: ['trigger'],
+		version: 1,
+		subtitle: '={{"Watching " + $parameter["watch"]}}',
+		description: 'Starts the workflow when an ACTP transaction changes state',
+		defaults: {
+			name: 'ACTP Trigger',
+		},
+		polling: true,
+		inputs: [],
+		outputs: ['main'],
+		credentials: [
+			{
+				name: 'actpApi',
+				required: true,
+			},
+		],
+		properties: [
+			{
+				displayName: 'Watch',
+				name: 'watch',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'My Transactions',
+						value: 'myTransactions',
+						description: 'All transactions where your wallet is requester or provider',
+					},
+					{
+						name: 'Transaction IDs',
+						value: 'transactionIds',
+						description: 'Specific transactions by ID',
+					},
+				],
+				default: 'myTransactions',
+				description: 'Which transactions to watch for state changes',
+			},
+			{
+				displayName: 'Role',
+				name: 'role',
+				type: 'options',
+				options: [
+					{
+						name: 'Any',
+						value: 'any',
+						description: 'Requester or provider',
+					},
+					{
+						name: 'Requester',
+						value: 'requester',
+						description: 'Only transactions you pay for',
+					},
+					{
+						name: 'Provider',
+						value: 'provider',
+						description: 'Only transactions you get paid for',
+					},
+				],
+				default: 'any',
+				description: 'Your role in the watched transactions',
+				displayOptions: {
+					show: {
+						watch: ['myTransactions'],
+					},
+				},
+			},
+			{
+				displayName: 'Transaction IDs',
+				name: 'transactionIds',
+				type: 'string',
+				required: true,
+				default: '',
+				placeholder: '0x..., 0x...',
+				description: 'Comma-separated list of transaction IDs to watch',
+				displayOptions: {
+					show: {
+						watch: ['transactionIds'],
+					},
+				},
+			},
+			{
+				displayName: 'Trigger On States',
+				name: 'states',
+				type: 'multiOptions',
+				options: Object.values(STATE_NAMES).map((state) => ({
+					name: state,
+					value: state,
+				})),
+				default: [],
+				description:
+					'Only fire when a transaction enters one of these states. Leave empty to fire on every transition.',
+			},
+		],
+	};
+
+	/**
+	 * Poll for state transitions since the last run
+	 */
+	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+		const staticData = this.getWorkflowStaticData('node') as TriggerStaticData;
+		const stateFilter = this.getNodeParameter('states', []) as string[];
+
+		let client: ACTPClient;
+		let watched: WatchedTransactions;
+		try {
+			const credentials = await this.getCredentials('actpApi');
+			client = await createClientFromCredentials(credentials);
+			watched = await fetchWatchedTransactions(this, client, credentials, staticData);
+		} catch (error) {
+			throw toActpError(this.getNode(), error);
+		}
+
+		const { transactions, lastBlock } = watched;
+		const address = getClientAddress(client);
+		const previousStates = staticData.transactionStates;
+		const currentStates: Record<string, string> = {};
+		const items: INodeExecutionData[] = [];
+
+		for (const tx of transactions) {
+			const txId = tx.id.toLowerCase();
+			const state = stateName(tx);
+
+			// On testnet/mainnet only open transactions are kept (settled ones never change again)
+			const settled = TERMINAL_STATES.includes(sdkStateToNumber(tx.state));
+			if (lastBlock === undefined || !settled) currentStates[txId] = state;
+
+			// First poll only records the baseline
+			if (previousStates === undefined) continue;
+
+			// Baselines stored before states were normalized may hold numeric states
+			const stored = previousStates[txId];
+			const previousState = stored === undefined ? undefined : stateNumberToString(sdkStateToNumber(stored));
+			if (previousState === state) continue;
+			if (stateFilter.length > 0 && !stateFilter.includes(state)) continue;
+
+			items.push(buildTransitionItem(tx, previousState ?? null, address));
+		}
+
+		staticData.transactionStates = currentStates;
+		if (lastBlock !== undefined) staticData.lastBlock = lastBlock;
+
+		// Manual runs return the most recently updated transaction as a sample
+		if (items.length === 0 && this.getMode() === 'manual' && transactions.length > 0) {
+			const latest = [...transactions].sort(
+				(a, b) => (b.updatedAt ?? 0) - (a.updatedAt ?? 0),
+			)[0];
+			items.push(buildTransitionItem(latest, null, address));
+		}
+
+		return items.length > 0 ? [items] : null;
+	}
+}
+
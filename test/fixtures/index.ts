@@ -5,6 +5,11 @@
  * These fixtures are used across unit, integration, and security tests.
  */
 
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { Wallet, getBytes } from 'ethers';
+
 /**
  * Standard test Ethereum addresses
  */
@@ -327,3 +332,94 @@ export const DISPUTE_WINDOWS = {
 	MINIMUM: 3600, // 1 hour minimum
 	MAXIMUM: 2592000, // 30 days maximum
 } as const;
+
+/**
+ * Testnet credentials pointing at a local RPC (calls are spied on in tests)
+ */
+export const TESTNET_CREDENTIALS = {
+	environment: 'testnet',
+	rpcUrl: 'http://localhost:8545',
+} as const;
+
+/**
+ * Create a mock n8n execution context
+ *
+ * Node parameters fall back to the default passed by the handler.
+ * Credentials are in mock mode unless `environment` is overridden.
+ */
+export function createMockContext(
+	params: Record<string, any> = {},
+	credentials: Record<string, any> = {},
+	staticData: Record<string, any> = {},
+): IExecuteFunctions {
+	return {
+		getNodeParameter: jest.fn((name: string, _itemIndex: number, defaultValue?: any) => {
+			return params[name] !== undefined ? params[name] : defaultValue;
+		}),
+		getNode: jest.fn(() => ({ name: 'ACTP' })),
+		getCredentials: jest.fn().mockResolvedValue({ environment: 'mock', ...credentials }),
+		getWorkflowStaticData: jest.fn(() => staticData),
+		continueOnFail: jest.fn(() => false),
+	} as unknown as IExecuteFunctions;
+}
+
+/**
+ * In-process remote signer (Web3Signer-style JSON-RPC) for tests
+ *
+ * Signs with a local wallet. When `authorization` is set, requests without
+ * a matching Authorization header get HTTP 401.
+ */
+export async function startSignerServer(
+	privateKey: string,
+	authorization?: string,
+): Promise<{ url: string; address: string; requests: string[]; close: () => Promise<void> }> {
+	const wallet = new Wallet(privateKey);
+	const requests: string[] = [];
+
+	const server = createServer((req, res) => {
+		let raw = '';
+		req.on('data', (chunk) => (raw += chunk));
+		req.on('end', async () => {
+			if (authorization && req.headers.authorization !== authorization) {
+				res.writeHead(401).end();
+				return;
+			}
+
+			const { id, method, params } = JSON.parse(raw);
+			requests.push(method);
+			let result: unknown;
+			try {
+				switch (method) {
+					case 'eth_accounts':
+						result = [wallet.address.toLowerCase()];
+						break;
+					case 'eth_signTransaction': {
+						const { gas, from: _from, ...tx } = params[0];
+						result = await wallet.signTransaction({ ...tx, gasLimit: gas });
+						break;
+					}
+					case 'eth_sign':
+						result = await wallet.signMessage(getBytes(params[1]));
+						break;
+					default:
+						throw new Error(`Method ${method} not supported`);
+				}
+				res.writeHead(200, { 'content-type': 'application/json' });
+				res.end(JSON.stringify({ jsonrpc: '2.0', id, result }));
+			} catch (error) {
+				res.writeHead(200, { 'content-type': 'application/json' });
+				res.end(JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32000, message: (error as Error).message } }));
+			}
+		});
+	});
+
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+	const { port } = server.address() as AddressInfo;
+
+	return {
+		url: `http://127.0.0.1:${port}`,
+		address: wallet.address,
+		requests,
+		close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+	};
+}
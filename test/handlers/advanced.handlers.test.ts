@@ -12,17 +12,27 @@ import {
 	handleTransitionState,
 	handleReleaseEscrow,
 	handleGetTransaction,
+	handleWaitForState,
 	handleGetEscrowBalance,
 	handleCancelAdvanced,
+	handleSweepExpired,
 } from '../../nodes/ACTP/handlers/advanced.handlers';
+import { getRetryCount } from '../../nodes/ACTP/utils/transaction.helpers';
+import { getRollingSpend } from '../../nodes/ACTP/utils/policy.helpers';
 
 // Mock n8n context
-const createMockContext = (params: Record<string, any> = {}): IExecuteFunctions => {
+const createMockContext = (
+	params: Record<string, any> = {},
+	credentials: Record<string, any> = {},
+	staticData: Record<string, any> = {},
+): IExecuteFunctions => {
 	return {
 		getNodeParameter: jest.fn((name: string, _itemIndex: number, defaultValue?: any) => {
 			return params[name] !== undefined ? params[name] : defaultValue;
 		}),
 		getNode: jest.fn(() => ({ name: 'ACTP' })),
+		getCredentials: jest.fn().mockResolvedValue({ environment: 'mock', ...credentials }),
+		getWorkflowStaticData: jest.fn(() => staticData),
 		continueOnFail: jest.fn(() => false),
 	} as unknown as IExecuteFunctions;
 };
@@ -33,6 +43,12 @@ const createMockClient = (overrides: Record<string, any> = {}) => {
 	const defaultEscrowId = '0x' + 'b'.repeat(64);
 
 	return {
+		info: { mode: 'mock' },
+		getAddress: () => '0x' + '1'.repeat(40),
+		advanced: {
+			getBalance: jest.fn().mockResolvedValue('1000000000'),
+			getAllTransactions: jest.fn().mockResolvedValue([]),
+		},
 		standard: {
 			createTransaction: jest.fn().mockResolvedValue(defaultTxId),
 			linkEscrow: jest.fn().mockResolvedValue(defaultEscrowId),
@@ -57,6 +73,26 @@ const createMockClient = (overrides: Record<string, any> = {}) => {
 };
 
 describe('handleCreateTransaction', () => {
+	it('should return the existing transaction for a reused idempotency key', async () => {
+		const params = {
+			provider: '0x' + '2'.repeat(40),
+			amount: '100',
+			idempotencyKey: 'order-42',
+		};
+		const staticData = {};
+		const client = createMockClient();
+
+		await handleCreateTransaction(createMockContext(params, {}, staticData), client as any, 0);
+		const result = await handleCreateTransaction(createMockContext(params, {}, staticData), client as any, 0);
+
+		expect(client.standard.createTransaction).toHaveBeenCalledTimes(1);
+		expect(client.standard.createTransaction).toHaveBeenCalledWith(
+			expect.objectContaining({ serviceDescription: expect.stringMatching(/^\[idempotency:/) }),
+		);
+		expect(result[0].json.transactionId).toBe('0x' + 'a'.repeat(64));
+		expect(result[0].json.idempotentReplay).toBe(true);
+	});
+
 	it('should create transaction without funding', async () => {
 		const context = createMockContext({
 			provider: '0x' + '2'.repeat(40),
@@ -122,15 +158,48 @@ describe('handleCreateTransaction', () => {
 			NodeOperationError,
 		);
 	});
+
+	it('should refuse a provider missing from the recipient allowlist', async () => {
+		const context = createMockContext(
+			{ provider: '0x' + '2'.repeat(40), amount: '100' },
+			{ recipientAllowlist: '0x' + '3'.repeat(40) },
+		);
+		const client = createMockClient();
+
+		await expect(handleCreateTransaction(context, client as any, 0)).rejects.toThrow(
+			'Recipient is not on the spending policy allowlist',
+		);
+		expect(client.standard.createTransaction).not.toHaveBeenCalled();
+	});
 });
 
 describe('handleLinkEscrow', () => {
+	it('should not link escrow in dry run', async () => {
+		const context = createMockContext({
+			transactionId: '0x' + 'a'.repeat(64),
+			dryRun: true,
+		});
+		const client = createMockClient({
+			standard: {
+				getTransaction: jest.fn().mockResolvedValue({ state: 'INITIATED', amount: '100000000' }),
+				linkEscrow: jest.fn().mockResolvedValue('0x' + 'b'.repeat(64)),
+			},
+		});
+
+		const result = await handleLinkEscrow(context, client as any, 0);
+
+		expect(client.standard.linkEscrow).not.toHaveBeenCalled();
+		expect(result[0].json.dryRun).toBe(true);
+		expect(result[0].json.state).toBe('COMMITTED');
+	});
+
 	it('should link escrow and return escrowId', async () => {
 		const txId = '0x' + 'a'.repeat(64);
 		const context = createMockContext({
 			transactionId: txId,
 		});
 		const client = createMockClient();
+		client.standard.getTransaction.mockResolvedValueOnce({ state: 'INITIATED', amount: '100000000' });
 
 		const result = await handleLinkEscrow(context, client as any, 0);
 
@@ -139,9 +208,105 @@ describe('handleLinkEscrow', () => {
 		expect(result[0].json.escrowId).toBe('0x' + 'b'.repeat(64));
 		expect(result[0].json.state).toBe('COMMITTED');
 	});
+
+	it('should not link escrow when USDC balance is too low', async () => {
+		const context = createMockContext({
+			transactionId: '0x' + 'a'.repeat(64),
+		});
+		const client = createMockClient({
+			advanced: { getBalance: jest.fn().mockResolvedValue('0') },
+		});
+		client.standard.getTransaction.mockResolvedValueOnce({ state: 'INITIATED', amount: '100000000' });
+
+		await expect(handleLinkEscrow(context, client as any, 0)).rejects.toThrow(
+			'Insufficient USDC balance',
+		);
+		expect(client.standard.linkEscrow).not.toHaveBeenCalled();
+	});
+
+	it('should enforce the spending policy when funding', async () => {
+		const context = createMockContext(
+			{ transactionId: '0x' + 'a'.repeat(64) },
+			{ maxPerTransaction: 50 },
+		);
+		const client = createMockClient();
+		client.standard.getTransaction.mockResolvedValueOnce({
+			state: 'INITIATED',
+			amount: '100000000',
+			provider: '0x' + '2'.repeat(40),
+		});
+
+		await expect(handleLinkEscrow(context, client as any, 0)).rejects.toMatchObject({
+			code: 'POLICY_VIOLATION',
+		});
+		expect(client.standard.linkEscrow).not.toHaveBeenCalled();
+	});
+
+	it('should count the amount toward the 24h limit when funded, not when created', async () => {
+		const staticData = {};
+		const client = createMockClient();
+		const createContext = createMockContext(
+			{ provider: '0x' + '2'.repeat(40), amount: '100' },
+			{ maxPer24Hours: 150 },
+			staticData,
+		);
+		const linkContext = createMockContext(
+			{ transactionId: '0x' + 'a'.repeat(64) },
+			{ maxPer24Hours: 150 },
+			staticData,
+		);
+
+		await handleCreateTransaction(createContext, client as any, 0);
+		expect(getRollingSpend(createContext, client as any)).toBe(0n);
+
+		client.standard.getTransaction.mockResolvedValueOnce({
+			state: 'INITIATED',
+			amount: '100000000',
+			provider: '0x' + '2'.repeat(40),
+		});
+		await handleLinkEscrow(linkContext, client as any, 0);
+		expect(getRollingSpend(linkContext, client as any)).toBe(100000000n);
+	});
+
+	it('should report an invalid transition before checking funds', async () => {
+		const context = createMockContext({
+			transactionId: '0x' + 'a'.repeat(64),
+		});
+		const client = createMockClient({
+			advanced: { getBalance: jest.fn().mockResolvedValue('0') },
+		});
+		client.standard.getTransaction.mockResolvedValueOnce({ state: 'SETTLED', amount: '100000000' });
+
+		await expect(handleLinkEscrow(context, client as any, 0)).rejects.toMatchObject({
+			code: 'INVALID_STATE_TRANSITION',
+		});
+		expect(client.advanced.getBalance).not.toHaveBeenCalled();
+		expect(client.standard.linkEscrow).not.toHaveBeenCalled();
+	});
 });
 
 describe('handleTransitionState', () => {
+	it('should return the would-be transition in dry run', async () => {
+		const context = createMockContext({
+			transactionId: '0x' + 'a'.repeat(64),
+			newState: 'DELIVERED',
+			dryRun: true,
+		});
+		const client = createMockClient({
+			standard: {
+				getTransaction: jest.fn().mockResolvedValue({ state: 'IN_PROGRESS' }),
+				transitionState: jest.fn().mockResolvedValue(undefined),
+			},
+		});
+
+		const result = await handleTransitionState(context, client as any, 0);
+
+		expect(client.standard.transitionState).not.toHaveBeenCalled();
+		expect(result[0].json.dryRun).toBe(true);
+		expect(result[0].json.newState).toBe('DELIVERED');
+		expect(result[0].json.proof).toMatch(/^0x/);
+	});
+
 	it('should transition state and show before/after', async () => {
 		const txId = '0x' + 'a'.repeat(64);
 		const context = createMockContext({
@@ -152,7 +317,7 @@ describe('handleTransitionState', () => {
 			standard: {
 				getTransaction: jest
 					.fn()
-					.mockResolvedValueOnce({ state: 'COMMITTED' })
+					.mockResolvedValueOnce({ state: 'IN_PROGRESS' })
 					.mockResolvedValueOnce({ state: 'DELIVERED' }),
 				transitionState: jest.fn().mockResolvedValue(undefined),
 			},
@@ -166,12 +331,30 @@ describe('handleTransitionState', () => {
 			'DELIVERED',
 			expect.stringMatching(/^0x/), // Proof is ABI-encoded dispute window
 		);
-		expect(result[0].json.previousState).toBe('COMMITTED');
+		expect(result[0].json.previousState).toBe('IN_PROGRESS');
 		expect(result[0].json.newState).toBe('DELIVERED');
-		expect(result[0].json.message).toContain('COMMITTED');
+		expect(result[0].json.message).toContain('IN_PROGRESS');
 		expect(result[0].json.message).toContain('DELIVERED');
 	});
 
+	it('should reject illegal transitions before sending', async () => {
+		const context = createMockContext({
+			transactionId: '0x' + 'a'.repeat(64),
+			newState: 'DELIVERED',
+		});
+		const client = createMockClient({
+			standard: {
+				getTransaction: jest.fn().mockResolvedValue({ state: 'COMMITTED' }),
+				transitionState: jest.fn().mockResolvedValue(undefined),
+			},
+		});
+
+		await expect(handleTransitionState(context, client as any, 0)).rejects.toThrow(
+			'Allowed next steps from COMMITTED: IN_PROGRESS (provider), CANCELLED (requester, provider)',
+		);
+		expect(client.standard.transitionState).not.toHaveBeenCalled();
+	});
+
 	it('should throw if transaction not found (hardened behavior)', async () => {
 		const txId = '0x' + 'a'.repeat(64);
 		const context = createMockContext({
@@ -192,6 +375,44 @@ describe('handleTransitionState', () => {
 });
 
 describe('handleReleaseEscrow', () => {
+	it('should preview the release in dry run', async () => {
+		const attestationUID = '0x' + 'c'.repeat(64);
+		const context = createMockContext({
+			escrowId: '0x' + 'b'.repeat(64),
+			attestationUID,
+			dryRun: true,
+		});
+		const client = createMockClient({
+			standard: {
+				getTransaction: jest.fn().mockResolvedValue({
+					state: 'DELIVERED',
+					amount: '100000000',
+					provider: '0x' + '2'.repeat(40),
+				}),
+				releaseEscrow: jest.fn().mockResolvedValue(undefined),
+			},
+		});
+
+		const result = await handleReleaseEscrow(context, client as any, 0);
+
+		expect(client.standard.releaseEscrow).not.toHaveBeenCalled();
+		expect(result[0].json.dryRun).toBe(true);
+		expect(result[0].json.attestationUID).toBe(attestationUID);
+		expect(result[0].json.amount).toBe('$100.0 USDC');
+	});
+
+	it('should reject a release that is not allowed in dry run', async () => {
+		const context = createMockContext({
+			escrowId: '0x' + 'b'.repeat(64),
+			dryRun: true,
+		});
+		const client = createMockClient();
+
+		await expect(handleReleaseEscrow(context, client as any, 0)).rejects.toThrow(
+			'Invalid state transition: COMMITTED → SETTLED',
+		);
+	});
+
 	it('should release escrow without attestation', async () => {
 		const escrowId = '0x' + 'b'.repeat(64);
 		const context = createMockContext({
@@ -223,6 +444,43 @@ describe('handleReleaseEscrow', () => {
 		});
 		expect(result[0].json.success).toBe(true);
 	});
+
+	it('should create and pass a delivery attestation in auto mode', async () => {
+		const escrowId = '0x' + 'b'.repeat(64);
+		const context = createMockContext({
+			escrowId,
+			attestationUID: '',
+			autoAttestation: 'lookUpOrCreate',
+		});
+		const client = createMockClient({
+			advanced: { time: { now: () => 1700000000 } },
+		});
+
+		const result = await handleReleaseEscrow(context, client as any, 0);
+		const attestationUID = result[0].json.attestationUID as string;
+
+		expect(attestationUID).toMatch(/^0x[0-9a-f]{64}$/);
+		expect(client.standard.releaseEscrow).toHaveBeenCalledWith(escrowId, {
+			txId: escrowId,
+			attestationUID,
+		});
+	});
+
+	it('should throw when look-up finds no attestation', async () => {
+		const context = createMockContext({
+			escrowId: '0x' + 'b'.repeat(64),
+			attestationUID: '',
+			autoAttestation: 'lookUp',
+		});
+		const client = createMockClient({
+			advanced: { time: { now: () => 1700000000 } },
+		});
+
+		await expect(handleReleaseEscrow(context, client as any, 0)).rejects.toThrow(
+			NodeOperationError,
+		);
+		expect(client.standard.releaseEscrow).not.toHaveBeenCalled();
+	});
 });
 
 describe('handleGetTransaction', () => {
@@ -254,6 +512,155 @@ describe('handleGetTransaction', () => {
 
 		await expect(handleGetTransaction(context, client as any, 0)).rejects.toThrow('not found');
 	});
+
+	it('should report a stable error code when not found', async () => {
+		const context = createMockContext({
+			transactionId: '0x' + 'a'.repeat(64),
+		});
+		const client = createMockClient({
+			standard: {
+				getTransaction: jest.fn().mockResolvedValue(null),
+			},
+		});
+
+		await expect(handleGetTransaction(context, client as any, 0)).rejects.toMatchObject({
+			code: 'TX_NOT_FOUND',
+			retryable: false,
+		});
+	});
+
+	it('should map SDK errors to error codes', async () => {
+		const context = createMockContext({
+			transactionId: '0x' + 'a'.repeat(64),
+			options: { maxAttempts: 1 },
+		});
+		const client = createMockClient({
+			standard: {
+				getTransaction: jest.fn().mockRejectedValue(new Error('connect ECONNREFUSED 127.0.0.1:8545')),
+			},
+		});
+
+		await expect(handleGetTransaction(context, client as any, 0)).rejects.toMatchObject({
+			code: 'RPC_UNAVAILABLE',
+			retryable: true,
+		});
+	});
+});
+
+describe('handleWaitForState', () => {
+	const txId = '0x' + 'a'.repeat(64);
+	const baseTx = {
+		amount: '100000000',
+		requester: '0x' + '1'.repeat(40),
+		provider: '0x' + '2'.repeat(40),
+		deadline: 1700000000,
+	};
+
+	beforeEach(() => {
+		jest.useFakeTimers();
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it('should return immediately when already in target state', async () => {
+		const context = createMockContext({
+			transactionId: txId,
+			targetStates: ['DELIVERED'],
+		});
+		const client = createMockClient({
+			standard: {
+				getTransaction: jest.fn().mockResolvedValue({ ...baseTx, state: 'DELIVERED' }),
+			},
+		});
+
+		const result = await handleWaitForState(context, client as any, 0);
+
+		expect(result[0].json.success).toBe(true);
+		expect(result[0].json.timedOut).toBe(false);
+		expect(result[0].json.state).toBe('DELIVERED');
+		expect(result[0].json.amount).toContain('USDC');
+	});
+
+	it('should poll until target state is reached', async () => {
+		const context = createMockContext({
+			transactionId: txId,
+			targetStates: ['DELIVERED'],
+			pollInterval: 5,
+			maxWait: 60,
+		});
+		const getTransaction = jest
+			.fn()
+			.mockResolvedValueOnce({ ...baseTx, state: 'COMMITTED' })
+			.mockResolvedValueOnce({ ...baseTx, state: 'IN_PROGRESS' })
+			.mockResolvedValue({ ...baseTx, state: 'DELIVERED' });
+		const client = createMockClient({ standard: { getTransaction } });
+
+		const promise = handleWaitForState(context, client as any, 0);
+		await jest.advanceTimersByTimeAsync(10000);
+		const result = await promise;
+
+		expect(getTransaction).toHaveBeenCalledTimes(3);
+		expect(result[0].json.state).toBe('DELIVERED');
+		expect(result[0].json.waitedSeconds).toBe(10);
+	});
+
+	it('should return timeout result when max wait elapses', async () => {
+		const context = createMockContext({
+			transactionId: txId,
+			targetStates: ['DELIVERED'],
+			pollInterval: 5,
+			maxWait: 10,
+		});
+		const client = createMockClient({
+			standard: {
+				getTransaction: jest.fn().mockResolvedValue({ ...baseTx, state: 'IN_PROGRESS' }),
+			},
+		});
+
+		const promise = handleWaitForState(context, client as any, 0);
+		await jest.advanceTimersByTimeAsync(10000);
+		const result = await promise;
+
+		expect(result[0].json.success).toBe(false);
+		expect(result[0].json.timedOut).toBe(true);
+		expect(result[0].json.state).toBe('IN_PROGRESS');
+		expect(result[0].json.targetStates).toEqual(['DELIVERED']);
+	});
+
+	it('should fail fast on unexpected terminal state', async () => {
+		const context = createMockContext({
+			transactionId: txId,
+			targetStates: ['DELIVERED'],
+		});
+		const client = createMockClient({
+			standard: {
+				getTransaction: jest.fn().mockResolvedValue({ ...baseTx, state: 'CANCELLED' }),
+			},
+		});
+
+		await expect(handleWaitForState(context, client as any, 0)).rejects.toThrow(
+			'terminal state CANCELLED',
+		);
+	});
+
+	it('should accept a terminal state as target', async () => {
+		const context = createMockContext({
+			transactionId: txId,
+			targetStates: ['SETTLED', 'CANCELLED'],
+		});
+		const client = createMockClient({
+			standard: {
+				getTransaction: jest.fn().mockResolvedValue({ ...baseTx, state: 'SETTLED' }),
+			},
+		});
+
+		const result = await handleWaitForState(context, client as any, 0);
+
+		expect(result[0].json.success).toBe(true);
+		expect(result[0].json.state).toBe('SETTLED');
+	});
 });
 
 describe('handleGetEscrowBalance', () => {
@@ -273,6 +680,42 @@ describe('handleGetEscrowBalance', () => {
 });
 
 describe('handleCancelAdvanced', () => {
+	it('should retry transient errors per the node options and count the retries', async () => {
+		const txId = '0x' + 'a'.repeat(64);
+		const context = createMockContext({
+			transactionId: txId,
+			options: { maxAttempts: 2, retryBaseDelay: 0 },
+		});
+		const client = createMockClient({
+			standard: {
+				getTransaction: jest.fn().mockResolvedValue({ state: 'COMMITTED' }),
+				transitionState: jest
+					.fn()
+					.mockRejectedValueOnce(new Error('network error'))
+					.mockResolvedValue(undefined),
+			},
+		});
+
+		await handleCancelAdvanced(context, client as any, 0);
+
+		expect(client.standard.transitionState).toHaveBeenCalledTimes(2);
+		expect(getRetryCount(context, 0)).toBe(1);
+	});
+
+	it('should not cancel in dry run', async () => {
+		const context = createMockContext({
+			transactionId: '0x' + 'a'.repeat(64),
+			dryRun: true,
+		});
+		const client = createMockClient();
+
+		const result = await handleCancelAdvanced(context, client as any, 0);
+
+		expect(client.standard.transitionState).not.toHaveBeenCalled();
+		expect(result[0].json.dryRun).toBe(true);
+		expect(result[0].json.previousState).toBe('COMMITTED');
+	});
+
 	it('should cancel and show previous state', async () => {
 		const txId = '0x' + 'a'.repeat(64);
 		const context = createMockContext({
@@ -292,3 +735,106 @@ describe('handleCancelAdvanced', () => {
 		expect(result[0].json.newState).toBe('CANCELLED');
 	});
 });
+
+describe('handleSweepExpired', () => {
+	const NOW = 1700000000;
+	const ME = '0x' + '1'.repeat(40);
+	const OTHER = '0x' + '2'.repeat(40);
+	const id = (c: string) => '0x' + c.repeat(64);
+
+	const tx = (c: string, state: string, deadline: number, requester = ME) => ({
+		id: id(c),
+		state,
+		amount: '100000000',
+		requester,
+		provider: OTHER,
+		deadline,
+		createdAt: NOW - 86400,
+	});
+
+	const createSweepClient = (standard: Record<string, any> = {}) =>
+		createMockClient({
+			advanced: {
+				time: { now: () => NOW },
+				getAllTransactions: jest.fn().mockResolvedValue([
+					tx('a', 'COMMITTED', NOW - 60),
+					tx('b', 'INITIATED', NOW - 3600),
+					tx('c', 'IN_PROGRESS', NOW + 3600),
+					tx('d', 'DELIVERED', NOW - 3600),
+					tx('e', 'COMMITTED', NOW - 3600, OTHER),
+				]),
+			},
+			standard: {
+				transitionState: jest.fn().mockResolvedValue(undefined),
+				...standard,
+			},
+		});
+
+	it('should report expired transactions without cancelling by default', async () => {
+		const client = createSweepClient();
+
+		const result = await handleSweepExpired(createMockContext(), client as any, 0);
+
+		expect(result.map((r) => r.json.transactionId)).toEqual([id('b'), id('a')]);
+		expect(result.every((r) => r.json.cancelled === false)).toBe(true);
+		expect(result[0].json.amountRefundedWei).toBe('0');
+		expect(result[1].json.amountRefunded).toBe('$100.0 USDC');
+		expect(result[1].json.overdueBy).toBe('1m');
+		expect(client.standard.transitionState).not.toHaveBeenCalled();
+	});
+
+	it('should cancel expired transactions and report the refunds', async () => {
+		const client = createSweepClient();
+
+		const result = await handleSweepExpired(
+			createMockContext({ cancelExpired: true }),
+			client as any,
+			0,
+		);
+
+		expect(client.standard.transitionState).toHaveBeenCalledTimes(2);
+		expect(client.standard.transitionState).toHaveBeenCalledWith(id('a'), 'CANCELLED');
+		expect(result[1].json).toEqual(
+			expect.objectContaining({
+				cancelled: true,
+				previousState: 'COMMITTED',
+				newState: 'CANCELLED',
+				amountRefundedWei: '100000000',
+			}),
+		);
+	});
+
+	it('should keep sweeping when one cancellation fails', async () => {
+		const client = createSweepClient({
+			transitionState: jest
+				.fn()
+				.mockRejectedValueOnce(new Error('execution reverted'))
+				.mockResolvedValue(undefined),
+		});
+
+		const result = await handleSweepExpired(
+			createMockContext({ cancelExpired: true, options: { maxAttempts: 1 } }),
+			client as any,
+			0,
+		);
+
+		expect(result[0].json.success).toBe(false);
+		expect(result[0].json.cancelled).toBe(false);
+		expect(result[0].json.error).toContain('execution reverted');
+		expect(result[1].json.cancelled).toBe(true);
+	});
+
+	it('should only preview cancellations in dry run', async () => {
+		const client = createSweepClient();
+
+		const result = await handleSweepExpired(
+			createMockContext({ cancelExpired: true, dryRun: true }),
+			client as any,
+			0,
+		);
+
+		expect(result).toHaveLength(2);
+		expect(result[0].json.dryRun).toBe(true);
+		expect(client.standard.transitionState).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,60 @@
+/**
+ * Attestation Handler Tests
+ *
+ * Tests for createAttestation against the mock stand-in registry.
+ */
+
+import { NodeOperationError } from 'n8n-workflow';
+import { handleCreateAttestation } from '../../nodes/Actp/handlers/attestation.handlers';
+import { DELIVERY_SCHEMA_UID } from '../../nodes/Actp/utils/attestation.helpers';
+import { createMockContext } from '../fixtures';
+
+const TX_ID = '0x' + 'a'.repeat(64);
+
+// Mock ACTP Client (mock mode)
+const createMockClient = () => ({
+	info: { mode: 'mock' },
+	getAddress: () => '0x' + '2'.repeat(40),
+	advanced: { time: { now: () => 1700000000 } },
+	standard: {
+		getTransaction: jest.fn().mockResolvedValue({
+			state: 'DELIVERED',
+			amount: '100000000',
+			requester: '0x' + '1'.repeat(40),
+			provider: '0x' + '2'.repeat(40),
+			deadline: 1700086400,
+			contentHash: '0x' + 'c'.repeat(64),
+		}),
+	},
+});
+
+describe('handleCreateAttestation', () => {
+	it('should create a delivery attestation with the transaction content hash', async () => {
+		const context = createMockContext({ transactionId: TX_ID });
+
+		const result = await handleCreateAttestation(context, createMockClient() as any, 0);
+
+		expect(result[0].json.success).toBe(true);
+		expect(result[0].json.attestationUID).toMatch(/^0x[0-9a-f]{64}$/);
+		expect(result[0].json.schemaUID).toBe(DELIVERY_SCHEMA_UID);
+		expect(result[0].json.contentHash).toBe('0x' + 'c'.repeat(64));
+		expect(result[0].json.recipient).toBe('0x' + '1'.repeat(40));
+	});
+
+	it('should use a provided content hash', async () => {
+		const contentHash = '0x' + 'D'.repeat(64);
+		const context = createMockContext({ transactionId: TX_ID, contentHash });
+
+		const result = await handleCreateAttestation(context, createMockClient() as any, 0);
+
+		expect(result[0].json.contentHash).toBe(contentHash.toLowerCase());
+	});
+
+	it('should reject a malformed schema UID', async () => {
+		const context = createMockContext({ transactionId: TX_ID, schemaUID: '0x1234' });
+
+		await expect(handleCreateAttestation(context, createMockClient() as any, 0)).rejects.toThrow(
+			NodeOperationError,
+		);
+	});
+});
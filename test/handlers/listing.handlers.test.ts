@@ -0,0 +1,185 @@
+/**
+ * Listing Handler Tests
+ *
+ * Tests for listTransactions and listIncomingJobs against a mock runtime.
+ */
+
+import { NodeOperationError } from 'n8n-workflow';
+import {
+	handleListTransactions,
+	handleListIncomingJobs,
+	parseTransactionFilter,
+} from '../../nodes/Actp/handlers/listing.handlers';
+import { createMockContext } from '../fixtures';
+
+const ME = '0x' + '1'.repeat(40);
+const OTHER = '0x' + '2'.repeat(40);
+
+// Mock ACTP Client with three transactions in the mock runtime
+const createMockClient = () => {
+	const tx = (id: string, state: string, createdAt: number, requester = ME, provider = OTHER) => ({
+		id: '0x' + id.repeat(64),
+		state,
+		amount: '100000000',
+		requester,
+		provider,
+		deadline: 1700086400,
+		createdAt,
+	});
+
+	return {
+		info: { mode: 'mock' },
+		getAddress: () => ME,
+		advanced: {
+			getAllTransactions: jest.fn().mockResolvedValue([
+				tx('a', 'DELIVERED', 1700000000),
+				tx('b', 'COMMITTED', 1700000100),
+				tx('c', 'DELIVERED', 1700000200),
+				tx('d', 'DELIVERED', 1700000300, OTHER, '0x' + '3'.repeat(40)),
+			]),
+		},
+	};
+};
+
+describe('handleListTransactions', () => {
+	it('should list matching transactions newest first', async () => {
+		const context = createMockContext({
+			mode: 'advanced',
+			filters: { states: ['DELIVERED'] },
+		});
+
+		const result = await handleListTransactions(context, createMockClient() as any, 0);
+		const transactions = result[0].json.transactions as any[];
+
+		expect(result[0].json.total).toBe(2);
+		expect(transactions.map((t) => t.transactionId)).toEqual([
+			'0x' + 'c'.repeat(64),
+			'0x' + 'a'.repeat(64),
+		]);
+		expect(transactions[0].amountWei).toBe('100000000');
+	});
+
+	it('should paginate and use the simple formatter in Simple mode', async () => {
+		const context = createMockContext({ mode: 'simple', page: 2, pageSize: 2 });
+
+		const result = await handleListTransactions(context, createMockClient() as any, 0);
+		const transactions = result[0].json.transactions as any[];
+
+		expect(result[0].json.total).toBe(3);
+		expect(result[0].json.totalPages).toBe(2);
+		expect(result[0].json.hasMore).toBe(false);
+		expect(transactions).toHaveLength(1);
+		expect(transactions[0].status).toBe('DELIVERED');
+	});
+
+	it('should throw on invalid page size', async () => {
+		const context = createMockContext({ mode: 'advanced', pageSize: 1000 });
+
+		await expect(handleListTransactions(context, createMockClient() as any, 0)).rejects.toThrow(
+			NodeOperationError,
+		);
+	});
+});
+
+describe('handleListIncomingJobs', () => {
+	const NOW = 1700000000;
+
+	// Mock client where ME is the provider of some transactions
+	const createInboxClient = () => {
+		const tx = (id: string, state: string, deadline: number, provider = ME) => ({
+			id: '0x' + id.repeat(64),
+			state,
+			amount: '25000000',
+			requester: OTHER,
+			provider,
+			deadline,
+			createdAt: NOW - 100,
+			serviceDescription: `job ${id}`,
+		});
+
+		return {
+			info: { mode: 'mock' },
+			getAddress: () => ME,
+			advanced: {
+				time: { now: () => NOW },
+				getAllTransactions: jest.fn().mockResolvedValue([
+					tx('a', 'COMMITTED', NOW + 7200),
+					tx('b', 'COMMITTED', NOW + 90),
+					tx('c', 'IN_PROGRESS', NOW + 60),
+					tx('d', 'COMMITTED', NOW - 10),
+					tx('e', 'COMMITTED', NOW + 30, '0x' + '3'.repeat(40)),
+				]),
+			},
+		};
+	};
+
+	it('should return one item per open job, soonest deadline first', async () => {
+		const result = await handleListIncomingJobs(createMockContext(), createInboxClient() as any, 0);
+
+		expect(result.map((r) => r.json.transactionId)).toEqual([
+			'0x' + 'b'.repeat(64),
+			'0x' + 'a'.repeat(64),
+		]);
+		expect(result[0].json).toEqual(
+			expect.objectContaining({
+				requester: OTHER,
+				amount: '$25.0 USDC',
+				serviceDescription: 'job b',
+				timeRemaining: '1m',
+				expired: false,
+			}),
+		);
+		expect(result[1].json.timeRemaining).toBe('2h');
+	});
+
+	it('should include expired jobs when asked and apply the limit', async () => {
+		const context = createMockContext({ includeExpired: true, limit: 2 });
+
+		const result = await handleListIncomingJobs(context, createInboxClient() as any, 0);
+
+		expect(result).toHaveLength(2);
+		expect(result[0].json.timeRemaining).toBe('Expired');
+		expect(result[0].json.expired).toBe(true);
+	});
+
+	it('should return no items when there are no jobs', async () => {
+		const client = createMockClient();
+		(client.advanced as any).time = { now: () => NOW };
+
+		const result = await handleListIncomingJobs(createMockContext(), client as any, 0);
+
+		expect(result).toEqual([]);
+	});
+
+	it('should throw on an invalid limit', async () => {
+		await expect(
+			handleListIncomingJobs(createMockContext({ limit: 0 }), createInboxClient() as any, 0),
+		).rejects.toThrow(NodeOperationError);
+	});
+});
+
+describe('parseTransactionFilter', () => {
+	it('should normalize states and parse amounts and dates', () => {
+		const filter = parseTransactionFilter({
+			states: ['delivered'],
+			minAmount: '10',
+			createdAfter: '2023-11-14T22:13:20.000Z',
+		});
+
+		expect(filter.states).toEqual(['DELIVERED']);
+		expect(filter.minAmount).toBe(10000000n);
+		expect(filter.createdAfter).toBe(1700000000);
+	});
+
+	it('should allow amount filters below the payment minimum', () => {
+		const filter = parseTransactionFilter({ minAmount: '0.01' });
+
+		expect(filter.minAmount).toBe(10000n);
+	});
+
+	it('should reject an inverted amount range', () => {
+		expect(() => parseTransactionFilter({ minAmount: '100', maxAmount: '10' })).toThrow(
+			'Min amount cannot be greater than max amount',
+		);
+	});
+});
@@ -0,0 +1,172 @@
+/**
+ * Quote Flow Handler Tests
+ *
+ * Tests for submitQuote, acceptQuote and rejectQuote.
+ */
+
+import { NodeOperationError } from 'n8n-workflow';
+import { ethers } from 'ethers';
+import {
+	handleSubmitQuote,
+	handleAcceptQuote,
+	handleRejectQuote,
+	encodeQuoteProof,
+} from '../../nodes/Actp/handlers/quote.handlers';
+import { createMockContext } from '../fixtures';
+
+const TX_ID = '0x' + 'a'.repeat(64);
+
+const createTx = (state: string, amount = '100000000') => ({
+	state,
+	amount,
+	requester: '0x' + '1'.repeat(40),
+	provider: '0x' + '2'.repeat(40),
+	deadline: 1700000000,
+});
+
+// Mock ACTP Client (mock mode; getTransaction returns states in order)
+const createMockClient = (states: string[], balance = '1000000000') => {
+	const getTransaction = jest.fn();
+	for (const state of states) {
+		getTransaction.mockResolvedValueOnce(createTx(state));
+	}
+
+	return {
+		info: { mode: 'mock' },
+		getAddress: () => '0x' + '1'.repeat(40),
+		advanced: {
+			getBalance: jest.fn().mockResolvedValue(balance),
+			linkEscrow: jest.fn().mockResolvedValue('0x' + 'b'.repeat(64)),
+		},
+		standard: {
+			getTransaction,
+			transitionState: jest.fn().mockResolvedValue(undefined),
+			linkEscrow: jest.fn().mockResolvedValue('0x' + 'b'.repeat(64)),
+		},
+	};
+};
+
+describe('encodeQuoteProof', () => {
+	it('should ABI-encode the quoted amount', () => {
+		const proof = encodeQuoteProof(150000000n);
+		const [decoded] = ethers.AbiCoder.defaultAbiCoder().decode(['uint256'], proof);
+		expect(decoded).toBe(150000000n);
+	});
+});
+
+describe('handleSubmitQuote', () => {
+	it('should transition to QUOTED with amount proof', async () => {
+		const context = createMockContext({ transactionId: TX_ID, quoteAmount: '150' });
+		const client = createMockClient(['INITIATED']);
+
+		const result = await handleSubmitQuote(context, client as any, 0);
+
+		expect(client.standard.transitionState).toHaveBeenCalledWith(
+			TX_ID,
+			'QUOTED',
+			encodeQuoteProof(150000000n),
+		);
+		expect(result[0].json.originalAmount).toBe('$100.0 USDC');
+		expect(result[0].json.quotedAmount).toBe('$150.0 USDC');
+		expect(result[0].json.difference).toBe('+$50.0 USDC');
+	});
+
+	it('should reject quotes below the minimum amount', async () => {
+		const context = createMockContext({ transactionId: TX_ID, quoteAmount: '0.01' });
+		const client = createMockClient(['INITIATED']);
+
+		await expect(handleSubmitQuote(context, client as any, 0)).rejects.toThrow(
+			'at least $0.05',
+		);
+		expect(client.standard.transitionState).not.toHaveBeenCalled();
+	});
+
+	it('should reject quoting a committed transaction', async () => {
+		const context = createMockContext({ transactionId: TX_ID, quoteAmount: '150' });
+		const client = createMockClient(['COMMITTED']);
+
+		await expect(handleSubmitQuote(context, client as any, 0)).rejects.toThrow(
+			'Invalid state transition: COMMITTED → QUOTED',
+		);
+	});
+});
+
+describe('handleAcceptQuote', () => {
+	it('should link escrow and report the funded amount', async () => {
+		const context = createMockContext({ transactionId: TX_ID, quoteAmount: '100' });
+		const client = createMockClient(['QUOTED', 'COMMITTED']);
+
+		const result = await handleAcceptQuote(context, client as any, 0);
+
+		expect(client.advanced.linkEscrow).toHaveBeenCalledWith(TX_ID, '100000000');
+		expect(result[0].json.newState).toBe('COMMITTED');
+		expect(result[0].json.amount).toBe('$100.0 USDC');
+		expect(result[0].json.amountWei).toBe('100000000');
+	});
+
+	it('should fund a quote that differs from the original amount', async () => {
+		const context = createMockContext({ transactionId: TX_ID, quoteAmount: '150' });
+		const client = createMockClient(['QUOTED', 'COMMITTED']);
+
+		const result = await handleAcceptQuote(context, client as any, 0);
+
+		expect(client.advanced.linkEscrow).toHaveBeenCalledWith(TX_ID, '150000000');
+		expect(client.standard.linkEscrow).not.toHaveBeenCalled();
+		expect(result[0].json.amountWei).toBe('150000000');
+		expect(result[0].json.originalAmount).toBe('$100.0 USDC');
+		expect(result[0].json.quotedAmount).toBe('$150.0 USDC');
+		expect(result[0].json.difference).toBe('+$50.0 USDC');
+	});
+
+	it('should fail when there is no quote', async () => {
+		const context = createMockContext({ transactionId: TX_ID, quoteAmount: '100' });
+		const client = createMockClient(['INITIATED']);
+
+		await expect(handleAcceptQuote(context, client as any, 0)).rejects.toThrow('not QUOTED');
+		expect(client.advanced.linkEscrow).not.toHaveBeenCalled();
+	});
+
+	it('should enforce the spending policy', async () => {
+		const context = createMockContext(
+			{ transactionId: TX_ID, quoteAmount: '100' },
+			{ maxPerTransaction: 50 },
+		);
+		const client = createMockClient(['QUOTED']);
+
+		await expect(handleAcceptQuote(context, client as any, 0)).rejects.toMatchObject({
+			code: 'POLICY_VIOLATION',
+		});
+		expect(client.advanced.linkEscrow).not.toHaveBeenCalled();
+	});
+
+	it('should fail pre-flight when balance is too low', async () => {
+		const context = createMockContext({ transactionId: TX_ID, quoteAmount: '100' });
+		const client = createMockClient(['QUOTED'], '80000000');
+
+		await expect(handleAcceptQuote(context, client as any, 0)).rejects.toThrow(
+			'Insufficient USDC balance',
+		);
+		expect(client.advanced.linkEscrow).not.toHaveBeenCalled();
+	});
+});
+
+describe('handleRejectQuote', () => {
+	it('should cancel a quoted transaction', async () => {
+		const context = createMockContext({ transactionId: TX_ID });
+		const client = createMockClient(['QUOTED']);
+
+		const result = await handleRejectQuote(context, client as any, 0);
+
+		expect(client.standard.transitionState).toHaveBeenCalledWith(TX_ID, 'CANCELLED');
+		expect(result[0].json.newState).toBe('CANCELLED');
+	});
+
+	it('should throw NodeOperationError when not quoted', async () => {
+		const context = createMockContext({ transactionId: TX_ID });
+		const client = createMockClient(['COMMITTED']);
+
+		await expect(handleRejectQuote(context, client as any, 0)).rejects.toThrow(
+			NodeOperationError,
+		);
+	});
+});
@@ -0,0 +1,126 @@
+/**
+ * Sandbox Mode Handler Tests
+ *
+ * Tests for mock runtime controls.
+ */
+
+import { NodeOperationError } from 'n8n-workflow';
+import {
+	handleMintTokens,
+	handleAdvanceTime,
+	handleResetState,
+	handleDumpState,
+} from '../../nodes/Actp/handlers/sandbox.handlers';
+import { createMockContext } from '../fixtures';
+
+const OWN_ADDRESS = '0x' + '1'.repeat(40);
+const PROVIDER = '0x' + '2'.repeat(40);
+
+// Mock ACTP Client backed by a tiny in-memory runtime
+const createMockClient = (mode = 'mock') => {
+	const balances: Record<string, bigint> = {};
+	let now = 1700000000;
+
+	return {
+		info: { mode },
+		getAddress: () => OWN_ADDRESS,
+		mintTokens: jest.fn(async (address: string, amount: string) => {
+			balances[address] = (balances[address] ?? 0n) + BigInt(amount);
+		}),
+		reset: jest.fn().mockResolvedValue(undefined),
+		advanced: {
+			getBalance: jest.fn(async (address: string) => (balances[address] ?? 0n).toString()),
+			getAllTransactions: jest.fn().mockResolvedValue([
+				{
+					id: '0x' + 'a'.repeat(64),
+					state: 'COMMITTED',
+					amount: '100000000',
+					requester: OWN_ADDRESS,
+					provider: PROVIDER,
+					deadline: 1700086400,
+				},
+			]),
+			time: {
+				now: jest.fn(() => now),
+				advanceTime: jest.fn(async (seconds: number) => {
+					now += seconds;
+				}),
+			},
+		},
+	};
+};
+
+describe('handleMintTokens', () => {
+	it('should mint to own wallet when address is empty', async () => {
+		const context = createMockContext({ mintAddress: '', mintAmount: '500' });
+		const client = createMockClient();
+
+		const result = await handleMintTokens(context, client as any, 0);
+
+		expect(client.mintTokens).toHaveBeenCalledWith(OWN_ADDRESS, '500000000');
+		expect(result[0].json.success).toBe(true);
+		expect(result[0].json.minted).toBe('$500.0 USDC');
+		expect(result[0].json.balanceWei).toBe('500000000');
+	});
+
+	it('should fail outside mock mode', async () => {
+		const context = createMockContext({ mintAmount: '500' });
+		const client = createMockClient('testnet');
+
+		await expect(handleMintTokens(context, client as any, 0)).rejects.toThrow(
+			'only available in mock mode',
+		);
+		expect(client.mintTokens).not.toHaveBeenCalled();
+	});
+});
+
+describe('handleAdvanceTime', () => {
+	it('should advance the mock clock by a duration string', async () => {
+		const context = createMockContext({ duration: '2h' });
+		const client = createMockClient();
+
+		const result = await handleAdvanceTime(context, client as any, 0);
+
+		expect(client.advanced.time.advanceTime).toHaveBeenCalledWith(7200);
+		expect(result[0].json.advancedSeconds).toBe(7200);
+		expect(result[0].json.currentTime).toBe(1700007200);
+	});
+
+	it('should reject non-positive durations', async () => {
+		const context = createMockContext({ duration: '0' });
+		const client = createMockClient();
+
+		await expect(handleAdvanceTime(context, client as any, 0)).rejects.toThrow(
+			NodeOperationError,
+		);
+	});
+});
+
+describe('handleResetState', () => {
+	it('should reset the mock runtime', async () => {
+		const context = createMockContext();
+		const client = createMockClient();
+
+		const result = await handleResetState(context, client as any, 0);
+
+		expect(client.reset).toHaveBeenCalled();
+		expect(result[0].json.success).toBe(true);
+	});
+});
+
+describe('handleDumpState', () => {
+	it('should output transactions and balances of all parties', async () => {
+		const context = createMockContext();
+		const client = createMockClient();
+		await client.mintTokens(OWN_ADDRESS, '1000000');
+
+		const result = await handleDumpState(context, client as any, 0);
+		const balances = result[0].json.balances as Record<string, any>;
+
+		expect(result[0].json.transactionCount).toBe(1);
+		expect((result[0].json.transactions as any[])[0].transactionId).toBe('0x' + 'a'.repeat(64));
+		expect(balances[OWN_ADDRESS].usdc).toBe('$1.0 USDC');
+		expect(balances[PROVIDER].usdcWei).toBe('0');
+		expect(result[0].json.currentTime).toBe(1700000000);
+	});
+});
@@ -6,23 +6,33 @@
 
 import type { IExecuteFunctions } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
+import { ethers } from 'ethers';
 import {
 	handleSendPayment,
+	handleSendPaymentBatch,
 	handleCheckStatus,
 	handleStartWork,
 	handleMarkDelivered,
+	handleClaimAfterDisputeWindow,
+	handleVerifyDelivery,
 	handleReleasePayment,
 	handleRaiseDispute,
 	handleCancelSimple,
 } from '../../nodes/ACTP/handlers/simple.handlers';
 
 // Mock n8n context
-const createMockContext = (params: Record<string, any> = {}): IExecuteFunctions => {
+const createMockContext = (
+	params: Record<string, any> = {},
+	credentials: Record<string, any> = {},
+	staticData: Record<string, any> = {},
+): IExecuteFunctions => {
 	return {
 		getNodeParameter: jest.fn((name: string, _itemIndex: number, defaultValue?: any) => {
 			return params[name] !== undefined ? params[name] : defaultValue;
 		}),
 		getNode: jest.fn(() => ({ name: 'ACTP' })),
+		getCredentials: jest.fn().mockResolvedValue({ environment: 'mock', ...credentials }),
+		getWorkflowStaticData: jest.fn(() => staticData),
 		continueOnFail: jest.fn(() => false),
 	} as unknown as IExecuteFunctions;
 };
@@ -30,6 +40,12 @@ const createMockContext = (params: Record<string, any> = {}): IExecuteFunctions
 // Mock ACTP Client
 const createMockClient = (overrides: Record<string, any> = {}) => {
 	return {
+		info: { mode: 'mock' },
+		getAddress: () => '0x' + '1'.repeat(40),
+		advanced: {
+			getBalance: jest.fn().mockResolvedValue('1000000000'),
+			getAllTransactions: jest.fn().mockResolvedValue([]),
+		},
 		basic: {
 			pay: jest.fn().mockResolvedValue({
 				txId: '0x' + 'a'.repeat(64),
@@ -66,7 +82,137 @@ const createMockClient = (overrides: Record<string, any> = {}) => {
 	};
 };
 
+// Mock client backed by an in-memory ledger (keyed payments use createTransaction + linkEscrow)
+const createLedgerClient = () => {
+	const transactions: Record<string, any>[] = [];
+	const find = (id: string) => transactions.find((tx) => tx.id === id);
+
+	return createMockClient({
+		advanced: {
+			getBalance: jest.fn().mockResolvedValue('1000000000'),
+			getAllTransactions: jest.fn(async () => transactions),
+		},
+		standard: {
+			createTransaction: jest.fn(async (params: any) => {
+				const id = '0x' + (transactions.length + 1).toString(16).padStart(64, '0');
+				transactions.push({
+					id,
+					state: 'INITIATED',
+					requester: '0x' + '1'.repeat(40),
+					provider: params.provider,
+					amount: String(Number(params.amount) * 1e6),
+					deadline: params.deadline,
+					serviceDescription: params.serviceDescription,
+				});
+				return id;
+			}),
+			linkEscrow: jest.fn(async (id: string) => {
+				find(id)!.state = 'COMMITTED';
+				return '0x' + 'b'.repeat(64);
+			}),
+			getTransaction: jest.fn(async (id: string) => find(id) ?? null),
+		},
+	});
+};
+
 describe('handleSendPayment', () => {
+	const keyedParams = { to: '0x' + '2'.repeat(40), amount: '100', idempotencyKey: 'order-42' };
+
+	it('should bind an idempotency key to the transaction description', async () => {
+		const client = createLedgerClient();
+
+		const result = await handleSendPayment(createMockContext(keyedParams), client as any, 0);
+
+		expect(client.basic.pay).not.toHaveBeenCalled();
+		expect(client.standard.createTransaction).toHaveBeenCalledWith(
+			expect.objectContaining({ serviceDescription: expect.stringMatching(/^\[idempotency:[0-9a-f]{16}\]$/) }),
+		);
+		expect(client.standard.linkEscrow).toHaveBeenCalledWith(result[0].json.transactionId);
+		expect(result[0].json.state).toBe('COMMITTED');
+		expect(result[0].json.amount).toBe('$100.0 USDC');
+	});
+
+	it('should return the existing payment for a reused idempotency key', async () => {
+		const staticData = {};
+		const client = createLedgerClient();
+
+		const first = await handleSendPayment(createMockContext(keyedParams, {}, staticData), client as any, 0);
+		const second = await handleSendPayment(createMockContext(keyedParams, {}, staticData), client as any, 0);
+
+		expect(client.standard.createTransaction).toHaveBeenCalledTimes(1);
+		expect(second[0].json.transactionId).toBe(first[0].json.transactionId);
+		expect(second[0].json.idempotentReplay).toBe(true);
+	});
+
+	it('should find the payment on-chain when static data is not kept (manual runs)', async () => {
+		const client = createLedgerClient();
+
+		const first = await handleSendPayment(createMockContext(keyedParams), client as any, 0);
+		const second = await handleSendPayment(createMockContext(keyedParams), client as any, 0);
+
+		expect(client.standard.createTransaction).toHaveBeenCalledTimes(1);
+		expect(second[0].json.transactionId).toBe(first[0].json.transactionId);
+		expect(second[0].json.idempotentReplay).toBe(true);
+	});
+
+	it('should fund the existing transaction after the escrow link failed', async () => {
+		const client = createLedgerClient();
+		client.standard.linkEscrow.mockRejectedValueOnce(new Error('execution reverted'));
+
+		await expect(handleSendPayment(createMockContext(keyedParams), client as any, 0)).rejects.toThrow();
+		const retry = await handleSendPayment(createMockContext(keyedParams), client as any, 0);
+
+		const txId = client.standard.createTransaction.mock.results[0].value;
+		expect(client.standard.createTransaction).toHaveBeenCalledTimes(1);
+		expect(client.standard.linkEscrow).toHaveBeenLastCalledWith(await txId);
+		expect(retry[0].json.transactionId).toBe(await txId);
+		expect(retry[0].json.state).toBe('COMMITTED');
+		expect(retry[0].json.idempotentReplay).toBeUndefined();
+		expect(retry[0].json.message).toContain('is now funded');
+	});
+
+	it('should refuse an idempotency key reused for a different amount', async () => {
+		const client = createLedgerClient();
+
+		await handleSendPayment(createMockContext(keyedParams), client as any, 0);
+
+		await expect(
+			handleSendPayment(createMockContext({ ...keyedParams, amount: '200' }), client as any, 0),
+		).rejects.toThrow('already used for a different payment');
+		expect(client.standard.createTransaction).toHaveBeenCalledTimes(1);
+	});
+
+	it('should report zero fees in mock mode', async () => {
+		const context = createMockContext({
+			to: '0x' + '2'.repeat(40),
+			amount: '100',
+		});
+		const client = createMockClient();
+
+		const result = await handleSendPayment(context, client as any, 0);
+
+		expect(result[0].json.gasUsed).toBe('0');
+		expect(result[0].json.feeEth).toBe('0.0 ETH');
+	});
+
+	it('should not pay in dry run', async () => {
+		const context = createMockContext({
+			to: '0x' + '2'.repeat(40),
+			amount: '100',
+			deadline: 24,
+			disputeWindow: '2d',
+			dryRun: true,
+		});
+		const client = createMockClient();
+
+		const result = await handleSendPayment(context, client as any, 0);
+
+		expect(client.basic.pay).not.toHaveBeenCalled();
+		expect(result[0].json.dryRun).toBe(true);
+		expect(result[0].json.amountWei).toBe('100000000');
+		expect(result[0].json.typicalGasCost).toBeDefined();
+	});
+
 	it('should create payment successfully', async () => {
 		const context = createMockContext({
 			to: '0x' + '2'.repeat(40),
@@ -131,6 +277,255 @@ describe('handleSendPayment', () => {
 			'Insufficient balance',
 		);
 	});
+
+	it('should fail pre-flight when USDC balance is too low', async () => {
+		const context = createMockContext({
+			to: '0x' + '2'.repeat(40),
+			amount: '100',
+		});
+		const client = createMockClient({
+			advanced: { getBalance: jest.fn().mockResolvedValue('40000000') },
+		});
+
+		const promise = handleSendPayment(context, client as any, 0);
+
+		await expect(promise).rejects.toThrow('Insufficient USDC balance');
+		await expect(promise).rejects.toMatchObject({
+			description: expect.stringContaining('Top up at least $60.0 USDC'),
+		});
+		expect(client.basic.pay).not.toHaveBeenCalled();
+	});
+
+	it('should refuse a payment above the per-transaction limit', async () => {
+		const context = createMockContext(
+			{ to: '0x' + '2'.repeat(40), amount: '100' },
+			{ maxPerTransaction: 50 },
+		);
+		const client = createMockClient();
+
+		await expect(handleSendPayment(context, client as any, 0)).rejects.toThrow(
+			'Payment exceeds the per-transaction limit',
+		);
+		expect(client.basic.pay).not.toHaveBeenCalled();
+	});
+
+	it('should track spend in static data for the 24-hour limit', async () => {
+		const staticData: Record<string, any> = {};
+		const context = createMockContext(
+			{ to: '0x' + '2'.repeat(40), amount: '60' },
+			{ maxPer24Hours: 100 },
+			staticData,
+		);
+		const client = createMockClient();
+
+		await handleSendPayment(context, client as any, 0);
+		await expect(handleSendPayment(context, client as any, 0)).rejects.toThrow(
+			'Payment exceeds the 24-hour spending limit',
+		);
+
+		expect(client.basic.pay).toHaveBeenCalledTimes(1);
+		expect(staticData.actpSpendLedger['0x' + '1'.repeat(40)]).toHaveLength(1);
+	});
+});
+
+describe('handleSendPaymentBatch', () => {
+	// Per-item parameters (index = itemIndex)
+	const createBatchContext = (
+		itemParams: Record<string, any>[],
+		nodeParams: Record<string, any> = {},
+		credentials: Record<string, any> = {},
+	) => {
+		return {
+			getNodeParameter: jest.fn((name: string, itemIndex: number, defaultValue?: any) => {
+				const value = itemParams[itemIndex]?.[name] ?? nodeParams[name];
+				return value !== undefined ? value : defaultValue;
+			}),
+			getNode: jest.fn(() => ({ name: 'ACTP' })),
+			getCredentials: jest.fn().mockResolvedValue({ environment: 'mock', ...credentials }),
+			getWorkflowStaticData: jest.fn(() => ({})),
+			continueOnFail: jest.fn(() => false),
+		} as unknown as IExecuteFunctions;
+	};
+
+	const createBatchClient = (balance: string, pay?: jest.Mock) =>
+		createMockClient({
+			getAddress: () => '0x' + '1'.repeat(40),
+			advanced: {
+				getBalance: jest.fn().mockResolvedValue(balance),
+				getAllTransactions: jest.fn().mockResolvedValue([]),
+			},
+			basic: {
+				pay:
+					pay ??
+					jest.fn().mockImplementation(async (params: any) => ({
+						txId: '0x' + 'a'.repeat(64),
+						provider: params.to,
+						requester: '0x' + '1'.repeat(40),
+						amount: `$${params.amount} USDC`,
+						deadline: '2024-12-31T23:59:59.000Z',
+						state: 'COMMITTED',
+					})),
+			},
+		});
+
+	const items = (count: number) => Array.from({ length: count }, () => ({ json: {} }));
+
+	it('should skip items already paid under their idempotency key', async () => {
+		const itemParams = [
+			{ to: '0x' + '2'.repeat(40), amount: '10', idempotencyKey: 'order-1' },
+			{ to: '0x' + '3'.repeat(40), amount: '20', idempotencyKey: 'order-2' },
+		];
+		const staticData = {};
+		const context = {
+			...createBatchContext(itemParams),
+			getWorkflowStaticData: jest.fn(() => staticData),
+		} as unknown as IExecuteFunctions;
+		const client = createLedgerClient();
+
+		await handleSendPaymentBatch(context, client as any, items(2));
+		const result = await handleSendPaymentBatch(context, client as any, items(2));
+
+		expect(client.basic.pay).not.toHaveBeenCalled();
+		expect(client.standard.createTransaction).toHaveBeenCalledTimes(2);
+		expect(result).toHaveLength(3);
+		expect(result[0].json.idempotentReplay).toBe(true);
+		expect(result[1].json.itemIndex).toBe(1);
+		expect(result[2].json.replayed).toBe(2);
+	});
+
+	it('should fund items created under their key by a run that stopped before escrow', async () => {
+		const itemParams = [
+			{ to: '0x' + '2'.repeat(40), amount: '10', idempotencyKey: 'order-1' },
+			{ to: '0x' + '3'.repeat(40), amount: '20', idempotencyKey: 'order-2' },
+		];
+		const client = createLedgerClient();
+		client.standard.linkEscrow.mockRejectedValueOnce(new Error('execution reverted'));
+
+		await handleSendPaymentBatch(createBatchContext(itemParams), client as any, items(2));
+		const result = await handleSendPaymentBatch(createBatchContext(itemParams), client as any, items(2));
+
+		expect(client.standard.createTransaction).toHaveBeenCalledTimes(2);
+		expect(client.standard.linkEscrow).toHaveBeenCalledTimes(3);
+		expect(result[0].json.state).toBe('COMMITTED');
+		expect(result[0].json.idempotentReplay).toBeUndefined();
+		expect(result[1].json.idempotentReplay).toBe(true);
+		expect(result[2].json.succeeded).toBe(1);
+		expect(result[2].json.replayed).toBe(1);
+	});
+
+	it('should reject duplicate idempotency keys within a batch', async () => {
+		const context = createBatchContext([
+			{ to: '0x' + '2'.repeat(40), amount: '10', idempotencyKey: 'order-1' },
+			{ to: '0x' + '3'.repeat(40), amount: '20', idempotencyKey: 'order-1' },
+		]);
+		const client = createBatchClient('100000000');
+
+		await expect(handleSendPaymentBatch(context, client as any, items(2))).rejects.toThrow(
+			'used by more than one item',
+		);
+		expect(client.basic.pay).not.toHaveBeenCalled();
+	});
+
+	it('should not pay anything in dry run', async () => {
+		const context = createBatchContext(
+			[
+				{ to: '0x' + '2'.repeat(40), amount: '10' },
+				{ to: '0x' + '3'.repeat(40), amount: '20' },
+			],
+			{ dryRun: true },
+		);
+		const client = createBatchClient('100000000');
+
+		const result = await handleSendPaymentBatch(context, client as any, items(2));
+
+		expect(client.basic.pay).not.toHaveBeenCalled();
+		expect(result).toHaveLength(3);
+		expect(result[1].json.dryRun).toBe(true);
+		expect(result[2].json.dryRun).toBe(true);
+		expect(result[2].json.totalAmountWei).toBe('30000000');
+	});
+
+	it('should pay every item and append a summary', async () => {
+		const context = createBatchContext([
+			{ to: '0x' + '2'.repeat(40), amount: '10' },
+			{ to: '0x' + '3'.repeat(40), amount: '20' },
+		]);
+		const client = createBatchClient('100000000'); // $100
+
+		const result = await handleSendPaymentBatch(context, client as any, items(2));
+
+		expect(client.basic.pay).toHaveBeenCalledTimes(2);
+		expect(result).toHaveLength(3);
+		expect(result[0].json.itemIndex).toBe(0);
+		expect(result[1].pairedItem).toEqual({ item: 1 });
+		expect(result[2].json.summary).toBe(true);
+		expect(result[2].json.succeeded).toBe(2);
+		expect(result[2].json.failed).toBe(0);
+		expect(result[2].json.totalAmountWei).toBe('30000000');
+	});
+
+	it('should not pay anything if any item is invalid', async () => {
+		const context = createBatchContext([
+			{ to: '0x' + '2'.repeat(40), amount: '10' },
+			{ to: 'invalid', amount: '20' },
+		]);
+		const client = createBatchClient('100000000');
+
+		await expect(handleSendPaymentBatch(context, client as any, items(2))).rejects.toThrow(
+			'Item 1',
+		);
+		expect(client.basic.pay).not.toHaveBeenCalled();
+	});
+
+	it('should not pay anything if total exceeds balance', async () => {
+		const context = createBatchContext([
+			{ to: '0x' + '2'.repeat(40), amount: '60' },
+			{ to: '0x' + '3'.repeat(40), amount: '60' },
+		]);
+		const client = createBatchClient('100000000');
+
+		await expect(handleSendPaymentBatch(context, client as any, items(2))).rejects.toThrow(
+			'Insufficient USDC balance for batch',
+		);
+		expect(client.basic.pay).not.toHaveBeenCalled();
+	});
+
+	it('should report per-item failures without stopping the batch', async () => {
+		const pay = jest
+			.fn()
+			.mockRejectedValueOnce(new Error('Self-payment not allowed'))
+			.mockResolvedValue({ txId: '0x' + 'a'.repeat(64), state: 'COMMITTED' });
+		const context = createBatchContext([
+			{ to: '0x' + '2'.repeat(40), amount: '10' },
+			{ to: '0x' + '3'.repeat(40), amount: '20' },
+		], { batchConcurrency: 1 });
+		const client = createBatchClient('100000000', pay);
+
+		const result = await handleSendPaymentBatch(context, client as any, items(2));
+
+		expect(result[0].json.success).toBe(false);
+		expect(result[0].json.error).toContain('Self-payment');
+		expect(result[1].json.success).toBe(true);
+		expect(result[2].json.failed).toBe(1);
+		expect(result[2].json.paidAmountWei).toBe('20000000');
+	});
+
+	it('should not pay anything if the batch would exceed the 24-hour limit', async () => {
+		const context = createBatchContext(
+			[
+				{ to: '0x' + '2'.repeat(40), amount: '30' },
+				{ to: '0x' + '3'.repeat(40), amount: '30' },
+			],
+			{},
+			{ maxPer24Hours: 50 },
+		);
+		const client = createBatchClient('100000000');
+
+		await expect(handleSendPaymentBatch(context, client as any, items(2))).rejects.toThrow(
+			'Spending policy blocked 1 of 2 items',
+		);
+		expect(client.basic.pay).not.toHaveBeenCalled();
+	});
 });
 
 describe('handleCheckStatus', () => {
@@ -169,7 +564,15 @@ describe('handleStartWork', () => {
 		const context = createMockContext({
 			transactionId: txId,
 		});
-		const client = createMockClient();
+		const client = createMockClient({
+			standard: {
+				transitionState: jest.fn().mockResolvedValue(undefined),
+				getTransaction: jest
+					.fn()
+					.mockResolvedValueOnce({ state: 'COMMITTED' })
+					.mockResolvedValueOnce({ state: 'IN_PROGRESS' }),
+			},
+		});
 
 		const result = await handleStartWork(context, client as any, 0);
 
@@ -177,6 +580,46 @@ describe('handleStartWork', () => {
 		expect(result[0].json.success).toBe(true);
 		expect(result[0].json.state).toBe('IN_PROGRESS');
 	});
+
+	it('should reject before sending when not COMMITTED', async () => {
+		const context = createMockContext({
+			transactionId: '0x' + 'a'.repeat(64),
+		});
+		const client = createMockClient({
+			standard: {
+				transitionState: jest.fn().mockResolvedValue(undefined),
+				getTransaction: jest.fn().mockResolvedValue({ state: 'INITIATED' }),
+			},
+		});
+
+		await expect(handleStartWork(context, client as any, 0)).rejects.toThrow(
+			'Allowed next steps from INITIATED',
+		);
+		expect(client.standard.transitionState).not.toHaveBeenCalled();
+	});
+
+	it('should reject when wallet is not the provider (testnet)', async () => {
+		const context = createMockContext({
+			transactionId: '0x' + 'a'.repeat(64),
+		});
+		const client = createMockClient({
+			info: { mode: 'testnet' },
+			getAddress: () => '0x' + '1'.repeat(40),
+			standard: {
+				transitionState: jest.fn().mockResolvedValue(undefined),
+				getTransaction: jest.fn().mockResolvedValue({
+					state: 'COMMITTED',
+					requester: '0x' + '1'.repeat(40),
+					provider: '0x' + '2'.repeat(40),
+				}),
+			},
+		});
+
+		await expect(handleStartWork(context, client as any, 0)).rejects.toThrow(
+			'Only the provider',
+		);
+		expect(client.standard.transitionState).not.toHaveBeenCalled();
+	});
 });
 
 describe('handleMarkDelivered', () => {
@@ -202,9 +645,218 @@ describe('handleMarkDelivered', () => {
 		);
 		expect(result[0].json.state).toBe('DELIVERED');
 	});
+
+	it('should hash a JSON deliverable into the proof', async () => {
+		const txId = '0x' + 'a'.repeat(64);
+		const context = createMockContext({
+			transactionId: txId,
+			deliverableSource: 'json',
+			deliverableJson: '{"b": 2, "a": 1}',
+		});
+		const client = createMockClient({
+			standard: {
+				transitionState: jest.fn().mockResolvedValue(undefined),
+				getTransaction: jest.fn().mockResolvedValue({ state: 'IN_PROGRESS', disputeWindow: 3600 }),
+			},
+		});
+
+		const result = await handleMarkDelivered(context, client as any, 0);
+		const expectedHash = ethers.keccak256(ethers.toUtf8Bytes('{"a":1,"b":2}'));
+
+		expect(result[0].json.contentHash).toBe(expectedHash);
+		expect(client.standard.transitionState).toHaveBeenCalledWith(
+			txId,
+			'DELIVERED',
+			ethers.AbiCoder.defaultAbiCoder().encode(['uint256', 'bytes32'], [3600, expectedHash]),
+		);
+	});
+
+	it('should hash a binary deliverable', async () => {
+		const content = Buffer.from('final report');
+		const context = {
+			...createMockContext({
+				transactionId: '0x' + 'a'.repeat(64),
+				deliverableSource: 'binary',
+				binaryPropertyName: 'report',
+			}),
+			getInputData: () => [{ json: {}, binary: { report: { data: '', mimeType: 'text/plain' } } }],
+			helpers: { getBinaryDataBuffer: jest.fn().mockResolvedValue(content) },
+		} as unknown as IExecuteFunctions;
+		const client = createMockClient();
+
+		const result = await handleMarkDelivered(context, client as any, 0);
+
+		expect(result[0].json.contentHash).toBe(ethers.keccak256(content));
+		expect(result[0].json.deliverableSizeBytes).toBe(content.length);
+	});
+
+	it('should fail when the binary property is missing', async () => {
+		const context = {
+			...createMockContext({
+				transactionId: '0x' + 'a'.repeat(64),
+				deliverableSource: 'binary',
+			}),
+			getInputData: () => [{ json: {} }],
+		} as unknown as IExecuteFunctions;
+		const client = createMockClient();
+
+		await expect(handleMarkDelivered(context, client as any, 0)).rejects.toThrow(
+			'has no binary property "data"',
+		);
+		expect(client.standard.transitionState).not.toHaveBeenCalled();
+	});
+});
+
+describe('handleVerifyDelivery', () => {
+	const txId = '0x' + 'a'.repeat(64);
+	const payload = '{"result": "done", "score": 9}';
+	const payloadHash = ethers.keccak256(ethers.toUtf8Bytes('{"result":"done","score":9}'));
+
+	const createVerifyClient = (contentHash?: string) =>
+		createMockClient({
+			standard: {
+				getTransaction: jest.fn().mockResolvedValue({ state: 'DELIVERED', contentHash }),
+			},
+		});
+
+	it('should report a match', async () => {
+		const context = createMockContext({
+			transactionId: txId,
+			deliverableSource: 'json',
+			deliverableJson: payload,
+		});
+
+		const result = await handleVerifyDelivery(context, createVerifyClient(payloadHash) as any, 0);
+
+		expect(result[0].json.match).toBe(true);
+		expect(result[0].json.computedHash).toBe(payloadHash);
+		expect(result[0].json.onChainHash).toBe(payloadHash);
+	});
+
+	it('should report a mismatch with both hashes', async () => {
+		const context = createMockContext({
+			transactionId: txId,
+			deliverableSource: 'json',
+			deliverableJson: '{"result": "tampered"}',
+		});
+
+		const result = await handleVerifyDelivery(context, createVerifyClient(payloadHash) as any, 0);
+
+		expect(result[0].json.match).toBe(false);
+		expect(result[0].json.onChainHash).toBe(payloadHash);
+		expect(result[0].json.computedHash).not.toBe(payloadHash);
+	});
+
+	it('should not match when no hash is on-chain', async () => {
+		const context = createMockContext({
+			transactionId: txId,
+			deliverableSource: 'json',
+			deliverableJson: payload,
+		});
+
+		const result = await handleVerifyDelivery(
+			context,
+			createVerifyClient('0x' + '0'.repeat(64)) as any,
+			0,
+		);
+
+		expect(result[0].json.match).toBe(false);
+		expect(result[0].json.onChainHash).toBeNull();
+	});
+});
+
+describe('handleClaimAfterDisputeWindow', () => {
+	const txId = '0x' + 'a'.repeat(64);
+	const delivered = {
+		state: 'DELIVERED',
+		amount: '100000000',
+		requester: '0x' + '1'.repeat(40),
+		provider: '0x' + '2'.repeat(40),
+		deadline: 1700086400,
+		disputeWindow: 3600,
+		deliveredAt: 1700000000,
+	};
+
+	const createClaimClient = (now: number, tx: Record<string, any> = delivered) =>
+		createMockClient({
+			advanced: { time: { now: () => now } },
+			standard: {
+				getTransaction: jest.fn().mockResolvedValue(tx),
+				releaseEscrow: jest.fn().mockResolvedValue(undefined),
+			},
+		});
+
+	it('should return claimable time while the window is open', async () => {
+		const context = createMockContext({ transactionId: txId });
+		const client = createClaimClient(1700001800);
+
+		const result = await handleClaimAfterDisputeWindow(context, client as any, 0);
+
+		expect(client.standard.releaseEscrow).not.toHaveBeenCalled();
+		expect(result[0].json.settled).toBe(false);
+		expect(result[0].json.claimableAtRaw).toBe(1700003600);
+		expect(result[0].json.claimableAt).toBe('2023-11-14T23:13:20.000Z');
+		expect(result[0].json.remainingSeconds).toBe(1800);
+		expect(result[0].json.remaining).toBe('30m');
+	});
+
+	it('should settle once the window has expired', async () => {
+		const context = createMockContext({ transactionId: txId });
+		const client = createClaimClient(1700003600);
+
+		const result = await handleClaimAfterDisputeWindow(context, client as any, 0);
+
+		expect(client.standard.releaseEscrow).toHaveBeenCalledWith(txId);
+		expect(result[0].json.settled).toBe(true);
+		expect(result[0].json.state).toBe('SETTLED');
+	});
+
+	it('should fall back to updatedAt when deliveredAt is missing', async () => {
+		const context = createMockContext({ transactionId: txId });
+		const { deliveredAt: _deliveredAt, ...withoutDeliveredAt } = delivered;
+		const client = createClaimClient(1700000000, { ...withoutDeliveredAt, updatedAt: 1699999000 });
+
+		const result = await handleClaimAfterDisputeWindow(context, client as any, 0);
+
+		expect(result[0].json.claimableAtRaw).toBe(1700002600);
+	});
+
+	it('should reject transactions that are not delivered', async () => {
+		const context = createMockContext({ transactionId: txId });
+		const client = createClaimClient(1700003600, { ...delivered, state: 'IN_PROGRESS' });
+
+		await expect(handleClaimAfterDisputeWindow(context, client as any, 0)).rejects.toThrow(
+			'Only DELIVERED transactions can be claimed',
+		);
+	});
 });
 
 describe('handleReleasePayment', () => {
+	it('should not release in dry run', async () => {
+		const txId = '0x' + 'a'.repeat(64);
+		const context = createMockContext({
+			transactionId: txId,
+			autoAttestation: 'create',
+			dryRun: true,
+		});
+		const client = createMockClient({
+			standard: {
+				getTransaction: jest.fn().mockResolvedValue({
+					state: 'DELIVERED',
+					amount: '100000000',
+					provider: '0x' + '2'.repeat(40),
+				}),
+				releaseEscrow: jest.fn().mockResolvedValue(undefined),
+			},
+		});
+
+		const result = await handleReleasePayment(context, client as any, 0);
+
+		expect(client.standard.releaseEscrow).not.toHaveBeenCalled();
+		expect(result[0].json.dryRun).toBe(true);
+		expect(result[0].json.attestationWouldBeCreated).toBe(true);
+	});
+
 	it('should release escrow', async () => {
 		const txId = '0x' + 'a'.repeat(64);
 		const context = createMockContext({
@@ -248,7 +900,12 @@ describe('handleRaiseDispute', () => {
 			transactionId: txId,
 			reason: 'Work not delivered as expected',
 		});
-		const client = createMockClient();
+		const client = createMockClient({
+			standard: {
+				transitionState: jest.fn().mockResolvedValue(undefined),
+				getTransaction: jest.fn().mockResolvedValue({ state: 'DELIVERED' }),
+			},
+		});
 
 		const result = await handleRaiseDispute(context, client as any, 0);
 
@@ -262,7 +919,12 @@ describe('handleRaiseDispute', () => {
 			transactionId: '0x' + 'a'.repeat(64),
 			reason: '',
 		});
-		const client = createMockClient();
+		const client = createMockClient({
+			standard: {
+				transitionState: jest.fn().mockResolvedValue(undefined),
+				getTransaction: jest.fn().mockResolvedValue({ state: 'DELIVERED' }),
+			},
+		});
 
 		const result = await handleRaiseDispute(context, client as any, 0);
 
@@ -271,6 +933,20 @@ describe('handleRaiseDispute', () => {
 });
 
 describe('handleCancelSimple', () => {
+	it('should validate but not cancel in dry run', async () => {
+		const context = createMockContext({
+			transactionId: '0x' + 'a'.repeat(64),
+			dryRun: true,
+		});
+		const client = createMockClient();
+
+		const result = await handleCancelSimple(context, client as any, 0);
+
+		expect(client.standard.transitionState).not.toHaveBeenCalled();
+		expect(result[0].json.dryRun).toBe(true);
+		expect(result[0].json.state).toBe('CANCELLED');
+	});
+
 	it('should transition to CANCELLED', async () => {
 		const txId = '0x' + 'a'.repeat(64);
 		const context = createMockContext({
@@ -283,4 +959,21 @@ describe('handleCancelSimple', () => {
 		expect(client.standard.transitionState).toHaveBeenCalledWith(txId, 'CANCELLED');
 		expect(result[0].json.state).toBe('CANCELLED');
 	});
+
+	it('should reject cancelling a delivered transaction', async () => {
+		const context = createMockContext({
+			transactionId: '0x' + 'a'.repeat(64),
+		});
+		const client = createMockClient({
+			standard: {
+				transitionState: jest.fn().mockResolvedValue(undefined),
+				getTransaction: jest.fn().mockResolvedValue({ state: 'DELIVERED' }),
+			},
+		});
+
+		await expect(handleCancelSimple(context, client as any, 0)).rejects.toThrow(
+			'Invalid state transition: DELIVERED → CANCELLED',
+		);
+		expect(client.standard.transitionState).not.toHaveBeenCalled();
+	});
 });
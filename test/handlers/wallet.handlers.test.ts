@@ -0,0 +1,61 @@
+/**
+ * Wallet Handler Tests
+ *
+ * Tests for balance queries in mock mode.
+ */
+
+import { NodeOperationError } from 'n8n-workflow';
+import { handleGetWalletBalance } from '../../nodes/Actp/handlers/wallet.handlers';
+import { createMockContext } from '../fixtures';
+
+const OWN_ADDRESS = '0x' + '1'.repeat(40);
+const OTHER_ADDRESS = '0x' + '2'.repeat(40);
+
+// Mock ACTP Client (mock mode, token ledger in runtime)
+const createMockClient = (balances: Record<string, string> = {}) => {
+	return {
+		info: { mode: 'mock' },
+		getAddress: () => OWN_ADDRESS,
+		advanced: {
+			getBalance: jest.fn(async (address: string) => balances[address] ?? '0'),
+		},
+	};
+};
+
+describe('handleGetWalletBalance', () => {
+	it('should return own wallet balance when address is empty', async () => {
+		const context = createMockContext({ walletAddress: '' });
+		const client = createMockClient({ [OWN_ADDRESS]: '250500000' });
+
+		const result = await handleGetWalletBalance(context, client as any, 0);
+
+		expect(client.advanced.getBalance).toHaveBeenCalledWith(OWN_ADDRESS);
+		expect(result[0].json.success).toBe(true);
+		expect(result[0].json.address).toBe(OWN_ADDRESS);
+		expect(result[0].json.isOwnWallet).toBe(true);
+		expect(result[0].json.usdc).toBe('$250.5 USDC');
+		expect(result[0].json.usdcWei).toBe('250500000');
+		expect(result[0].json.eth).toBe('0.0 ETH');
+		expect(result[0].json.ethWei).toBe('0');
+	});
+
+	it('should return balance of an arbitrary address', async () => {
+		const context = createMockContext({ walletAddress: OTHER_ADDRESS });
+		const client = createMockClient({ [OTHER_ADDRESS]: '1000000' });
+
+		const result = await handleGetWalletBalance(context, client as any, 0);
+
+		expect(result[0].json.address).toBe(OTHER_ADDRESS);
+		expect(result[0].json.isOwnWallet).toBe(false);
+		expect(result[0].json.usdc).toBe('$1.0 USDC');
+	});
+
+	it('should throw on invalid address', async () => {
+		const context = createMockContext({ walletAddress: 'not-an-address' });
+		const client = createMockClient();
+
+		await expect(handleGetWalletBalance(context, client as any, 0)).rejects.toThrow(
+			NodeOperationError,
+		);
+	});
+});
@@ -7,11 +7,13 @@
  * Uses SDK's mintTokens() to fund test wallets before each test.
  */
 
+import type { IExecuteFunctions } from 'n8n-workflow';
 import { ACTPClient, IMockRuntime } from '@agirails/sdk';
 import {
 	createClientFromCredentials,
 	clearClientCache,
 } from '../../nodes/ACTP/utils/client.factory';
+import { handleMarkDelivered, handleVerifyDelivery } from '../../nodes/ACTP/handlers/simple.handlers';
 
 // Helper to access mock runtime time controls
 const advanceTime = async (client: ACTPClient, seconds: number): Promise<void> => {
@@ -378,6 +380,86 @@ describe('Integration: State Machine Validation', () => {
 	});
 });
 
+describe('Integration: Delivery Verification', () => {
+	let client: ACTPClient;
+
+	// Minimal n8n context for calling handlers against the mock runtime
+	const createContext = (params: Record<string, any>): IExecuteFunctions =>
+		({
+			getNodeParameter: jest.fn((name: string, _itemIndex: number, defaultValue?: any) =>
+				params[name] !== undefined ? params[name] : defaultValue,
+			),
+			getNode: jest.fn(() => ({ name: 'ACTP' })),
+			getCredentials: jest.fn().mockResolvedValue({ environment: 'mock' }),
+			getWorkflowStaticData: jest.fn(() => ({})),
+			continueOnFail: jest.fn(() => false),
+		}) as unknown as IExecuteFunctions;
+
+	beforeEach(async () => {
+		clearClientCache();
+		client = await ACTPClient.create({
+			mode: 'mock',
+			requesterAddress: REQUESTER,
+		});
+		await client.mintTokens(REQUESTER, INITIAL_BALANCE);
+	});
+
+	afterEach(async () => {
+		await client.reset();
+		clearClientCache();
+	});
+
+	const deliver = async (deliverableJson: unknown): Promise<string> => {
+		const txId = await client.standard.createTransaction({
+			provider: PROVIDER,
+			amount: '100',
+			deadline: Math.floor(Date.now() / 1000) + 86400,
+			disputeWindow: 3600,
+		});
+		await client.standard.linkEscrow(txId);
+		await handleMarkDelivered(
+			createContext({ transactionId: txId, deliverableSource: 'json', deliverableJson }),
+			client,
+			0,
+		);
+		return txId;
+	};
+
+	it('should match the deliverable hashed by Mark Delivered', async () => {
+		const txId = await deliver({ report: 'done', pages: 3 });
+
+		const result = await handleVerifyDelivery(
+			createContext({
+				transactionId: txId,
+				deliverableSource: 'json',
+				deliverableJson: { pages: 3, report: 'done' },
+			}),
+			client,
+			0,
+		);
+
+		expect(result[0].json.onChainHash).toBe(result[0].json.computedHash);
+		expect(result[0].json.match).toBe(true);
+	});
+
+	it('should not match a different deliverable', async () => {
+		const txId = await deliver({ report: 'done', pages: 3 });
+
+		const result = await handleVerifyDelivery(
+			createContext({
+				transactionId: txId,
+				deliverableSource: 'json',
+				deliverableJson: { report: 'draft' },
+			}),
+			client,
+			0,
+		);
+
+		expect(result[0].json.onChainHash).not.toBeNull();
+		expect(result[0].json.match).toBe(false);
+	});
+});
+
 describe('Integration: Client Factory', () => {
 	beforeEach(() => {
 		clearClientCache();
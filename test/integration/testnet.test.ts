@@ -15,9 +15,10 @@
  * - Deployed ACTP contracts on Base Sepolia
  */
 
-import { ACTPClient } from '@agirails/sdk';
-import { Wallet } from 'ethers';
+import { ACTPClient, getNetwork } from '@agirails/sdk';
+import { JsonRpcProvider, Wallet } from 'ethers';
 import { createClientFromCredentials, clearClientCache } from '../../nodes/ACTP/utils/client.factory';
+import { scanTransactionIds } from '../../nodes/ACTP/utils/listing.helpers';
 
 /**
  * Check if testnet configuration is available
@@ -135,6 +136,28 @@ describeTestnet('Integration: Base Sepolia Testnet', () => {
 			logTestStatus('standard-api', 'PASS', 'transitionState() method available');
 		});
 	});
+
+	describe('Transaction Discovery', () => {
+		it('should find a transaction created through the SDK in kernel logs', async () => {
+			// Ties the node's hand-written TransactionCreated ABI to the SDK's kernel
+			const provider = new JsonRpcProvider(config.rpcUrl);
+			const address = (await client.getAddress()).toLowerCase();
+			const fromBlock = await provider.getBlockNumber();
+
+			const txId = await client.standard.createTransaction({
+				provider: '0x' + '2'.repeat(40),
+				amount: '0.05',
+				deadline: Math.floor(Date.now() / 1000) + 3600,
+				disputeWindow: 172800,
+			});
+
+			const kernelAddress = getNetwork('base-sepolia').contracts.actpKernel;
+			const ids = await scanTransactionIds(provider, kernelAddress, address, fromBlock);
+
+			expect(ids).toContain(String(txId).toLowerCase());
+			logTestStatus('transaction-discovery', 'PASS', `Found ${txId} from block ${fromBlock}`);
+		}, 120000);
+	});
 });
 
 describe('Integration: Testnet Skip Behavior', () => {
@@ -0,0 +1,125 @@
+/**
+ * ACTP Node Tests
+ *
+ * Tests for item routing and failure output in execute().
+ */
+
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { Actp } from '../../nodes/Actp/Actp.node';
+import { clearClientCache } from '../../nodes/Actp/utils/client.factory';
+
+const WALLET = '0x1111111111111111111111111111111111111111';
+const FOUND = '0x' + 'a'.repeat(64);
+const MISSING = '0x' + 'b'.repeat(64);
+
+jest.mock('@agirails/sdk', () => ({
+	ACTPClient: {
+		create: jest.fn().mockImplementation(async (config) => ({
+			info: { mode: config.mode },
+			getAddress: () => config.requesterAddress,
+			standard: {
+				getTransaction: jest.fn(async (txId: string) =>
+					txId === '0x' + 'a'.repeat(64)
+						? {
+								state: 'COMMITTED',
+								amount: '100000000',
+								requester: config.requesterAddress,
+								provider: '0x' + '2'.repeat(40),
+								deadline: 1700086400,
+								createdAt: 1700000000,
+								updatedAt: 1700000000,
+							}
+						: null,
+				),
+			},
+		})),
+	},
+}));
+
+// Mock n8n execute context: one input item per transaction ID
+const createExecuteContext = (
+	transactionIds: string[],
+	node: Record<string, any> = {},
+	continueOnFail = true,
+): IExecuteFunctions => {
+	const items = transactionIds.map((transactionId) => ({ json: { transactionId, orderId: 42 } }));
+	return {
+		getInputData: jest.fn(() => items),
+		getNodeParameter: jest.fn((name: string, itemIndex: number, defaultValue?: any) => {
+			const params: Record<string, any> = {
+				mode: 'advanced',
+				operation: 'getTransaction',
+				transactionId: transactionIds[itemIndex],
+			};
+			return params[name] !== undefined ? params[name] : defaultValue;
+		}),
+		getCredentials: jest.fn(async () => ({ environment: 'mock', mockAddress: WALLET })),
+		getNode: jest.fn(() => ({ name: 'ACTP', ...node })),
+		continueOnFail: jest.fn(() => continueOnFail),
+	} as unknown as IExecuteFunctions;
+};
+
+describe('Actp.execute', () => {
+	const actp = new Actp();
+
+	beforeEach(() => {
+		clearClientCache();
+	});
+
+	it('should output failed items with error code and paired item', async () => {
+		const result = await actp.execute.call(createExecuteContext([FOUND, MISSING]));
+
+		expect(result).toHaveLength(1);
+		expect(result[0][0].json.success).toBe(true);
+		expect(result[0][1].json).toEqual(
+			expect.objectContaining({
+				success: false,
+				code: 'TX_NOT_FOUND',
+				retryable: false,
+				itemIndex: 1,
+			}),
+		);
+		expect(result[0][1].json.orderId).toBeUndefined();
+		expect(result[0][1].pairedItem).toEqual({ item: 1 });
+	});
+
+	it('should keep the input item JSON for the Error output', async () => {
+		const context = createExecuteContext([MISSING], { onError: 'continueErrorOutput' });
+
+		const result = await actp.execute.call(context);
+		const failed = result[0][0];
+
+		expect(failed.json).toEqual(
+			expect.objectContaining({
+				transactionId: MISSING,
+				orderId: 42,
+				error: `Transaction ${MISSING} not found`,
+				code: 'TX_NOT_FOUND',
+			}),
+		);
+		expect(failed.pairedItem).toEqual({ item: 0 });
+	});
+
+	it('should fail every input item when a whole batch fails', async () => {
+		const context = {
+			...createExecuteContext([FOUND, MISSING]),
+			getNodeParameter: jest.fn((name: string, _itemIndex: number, defaultValue?: any) => {
+				const params: Record<string, any> = { mode: 'simple', operation: 'sendPayment', batchMode: true };
+				return params[name] !== undefined ? params[name] : defaultValue;
+			}),
+			getCredentials: jest.fn().mockRejectedValue(new Error('Credentials not found')),
+		} as unknown as IExecuteFunctions;
+
+		const result = await actp.execute.call(context);
+
+		expect(result[0]).toHaveLength(2);
+		expect(result[0].map((item) => item.pairedItem)).toEqual([{ item: 0 }, { item: 1 }]);
+		expect(result[0][1].json).toEqual(expect.objectContaining({ success: false, itemIndex: 1 }));
+	});
+
+	it('should throw the coded error without Continue On Fail', async () => {
+		const context = createExecuteContext([MISSING], {}, false);
+
+		await expect(actp.execute.call(context)).rejects.toMatchObject({ code: 'TX_NOT_FOUND' });
+	});
+});
@@ -0,0 +1,310 @@
+/**
+ * ACTP Trigger Node Tests
+ *
+ * Tests for polling state transitions against a mocked runtime.
+ */
+
+import type { IPollFunctions } from 'n8n-workflow';
+import { ethers } from 'ethers';
+import { ActpTrigger } from '../../nodes/ActpTrigger/ActpTrigger.node';
+import { clearClientCache } from '../../nodes/Actp/utils/client.factory';
+
+const WALLET = '0x1111111111111111111111111111111111111111';
+const OTHER = '0x2222222222222222222222222222222222222222';
+const TX_1 = '0x' + 'a'.repeat(64);
+const TX_2 = '0x' + 'b'.repeat(64);
+const KERNEL = '0x' + '4'.repeat(40);
+
+// Transactions returned by the mocked runtime (mutated per test)
+let runtimeTransactions: any[] = [];
+
+jest.mock('@agirails/sdk', () => ({
+	getNetwork: jest.fn(() => ({ contracts: { actpKernel: '0x' + '4'.repeat(40) } })),
+	ACTPClient: {
+		create: jest.fn().mockImplementation(async (config) => ({
+			info: { mode: config.mode },
+			getAddress: () => config.requesterAddress,
+			advanced: {
+				getAllTransactions: jest.fn(async () => runtimeTransactions),
+			},
+			standard: {
+				getTransaction: jest.fn(async (txId: string) =>
+					runtimeTransactions.find((tx) => tx.id === txId) ?? null,
+				),
+			},
+		})),
+	},
+}));
+
+const createTransaction = (id: string, state: string, overrides: Record<string, any> = {}) => ({
+	id,
+	state,
+	amount: '100000000',
+	requester: WALLET,
+	provider: OTHER,
+	deadline: 1700086400,
+	disputeWindow: 172800,
+	createdAt: 1700000000,
+	updatedAt: 1700000000,
+	...overrides,
+});
+
+// Mock n8n poll context with persistent static data
+const createPollContext = (
+	params: Record<string, any> = {},
+	staticData: Record<string, any> = {},
+	mode = 'trigger',
+	credentials: Record<string, any> = { environment: 'mock', mockAddress: WALLET },
+): IPollFunctions => {
+	return {
+		getNodeParameter: jest.fn((name: string, defaultValue?: any) => {
+			return params[name] !== undefined ? params[name] : defaultValue;
+		}),
+		getCredentials: jest.fn(async () => credentials),
+		getWorkflowStaticData: jest.fn(() => staticData),
+		getNode: jest.fn(() => ({ name: 'ACTP Trigger' })),
+		getMode: jest.fn(() => mode),
+	} as unknown as IPollFunctions;
+};
+
+describe('ActpTrigger', () => {
+	const trigger = new ActpTrigger();
+
+	beforeEach(() => {
+		clearClientCache();
+		runtimeTransactions = [];
+	});
+
+	it('should record a baseline on first poll without emitting', async () => {
+		runtimeTransactions = [createTransaction(TX_1, 'INITIATED')];
+		const staticData: Record<string, any> = {};
+
+		const result = await trigger.poll.call(createPollContext({}, staticData));
+
+		expect(result).toBeNull();
+		expect(staticData.transactionStates).toEqual({ [TX_1]: 'INITIATED' });
+	});
+
+	it('should emit one item per state transition', async () => {
+		const staticData: Record<string, any> = {
+			transactionStates: { [TX_1]: 'INITIATED', [TX_2]: 'DELIVERED' },
+		};
+		runtimeTransactions = [
+			createTransaction(TX_1, 'COMMITTED'),
+			createTransaction(TX_2, 'DELIVERED'),
+		];
+
+		const result = await trigger.poll.call(createPollContext({}, staticData));
+
+		expect(result).toHaveLength(1);
+		expect(result![0]).toHaveLength(1);
+		expect(result![0][0].json.transactionId).toBe(TX_1);
+		expect(result![0][0].json.previousState).toBe('INITIATED');
+		expect(result![0][0].json.newState).toBe('COMMITTED');
+		expect(result![0][0].json.role).toBe('requester');
+		expect(staticData.transactionStates[TX_1]).toBe('COMMITTED');
+	});
+
+	it('should store and emit state names when the runtime reports numeric states', async () => {
+		const staticData: Record<string, any> = { transactionStates: { [TX_1]: '2' } };
+		runtimeTransactions = [createTransaction(TX_1, '4')];
+
+		const result = await trigger.poll.call(
+			createPollContext({ states: ['DELIVERED'] }, staticData),
+		);
+
+		expect(result![0]).toHaveLength(1);
+		expect(result![0][0].json.previousState).toBe('COMMITTED');
+		expect(result![0][0].json.newState).toBe('DELIVERED');
+		expect(staticData.transactionStates[TX_1]).toBe('DELIVERED');
+
+		expect(await trigger.poll.call(createPollContext({}, staticData))).toBeNull();
+	});
+
+	describe('on testnet', () => {
+		const privateKey = '0x' + '5'.repeat(64);
+		const address = new ethers.Wallet(privateKey).address.toLowerCase();
+		const credentials = { environment: 'testnet', privateKey };
+		let latestBlock = 1000;
+
+		// TransactionCreated log for TX_1 (wallet as requester) in block 990
+		const createdLog = (provider: ethers.Provider) =>
+			new ethers.Log(
+				{
+					address: KERNEL,
+					blockNumber: 990,
+					blockHash: '0x' + '0'.repeat(64),
+					transactionHash: '0x' + 'c'.repeat(64),
+					transactionIndex: 0,
+					index: 0,
+					removed: false,
+					data: ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [100000000n]),
+					topics: [
+						ethers.id('TransactionCreated(bytes32,address,address,uint256)'),
+						TX_1,
+						ethers.zeroPadValue(address, 32),
+						ethers.zeroPadValue(OTHER, 32),
+					],
+				},
+				provider,
+			);
+
+		let getLogs: jest.SpyInstance;
+
+		beforeEach(() => {
+			latestBlock = 1000;
+			jest
+				.spyOn(ethers.JsonRpcProvider.prototype, 'getBlockNumber')
+				.mockImplementation(async () => latestBlock);
+			getLogs = jest
+				.spyOn(ethers.JsonRpcProvider.prototype, 'getLogs')
+				.mockImplementation(async function (this: ethers.JsonRpcProvider, filter: ethers.Filter | ethers.FilterByBlockHash) {
+					const { fromBlock, toBlock } = filter as ethers.Filter;
+					const inRange = Number(fromBlock) <= 990 && Number(toBlock) >= 990;
+					return filter.topics?.[2] && inRange ? [createdLog(this)] : [];
+				});
+		});
+
+		afterEach(() => {
+			jest.restoreAllMocks();
+		});
+
+		it('should find wallet transactions from kernel logs', async () => {
+			runtimeTransactions = [
+				createTransaction(TX_1, 'COMMITTED', { requester: address }),
+				createTransaction(TX_2, 'COMMITTED', { requester: address }),
+			];
+			const staticData: Record<string, any> = { transactionStates: {} };
+
+			const result = await trigger.poll.call(createPollContext({}, staticData, 'trigger', credentials));
+
+			expect(result![0]).toHaveLength(1);
+			expect(result![0][0].json.transactionId).toBe(TX_1);
+			expect(result![0][0].json.role).toBe('requester');
+			expect(staticData.lastBlock).toBe(1000);
+		});
+
+		it('should follow open transactions past the lookback window until they settle', async () => {
+			runtimeTransactions = [createTransaction(TX_1, 'COMMITTED', { requester: address })];
+			const staticData: Record<string, any> = {};
+			const poll = () => trigger.poll.call(createPollContext({}, staticData, 'trigger', credentials));
+
+			expect(await poll()).toBeNull();
+			expect(staticData).toEqual({ transactionStates: { [TX_1]: 'COMMITTED' }, lastBlock: 1000 });
+
+			// Creation block is long out of range: only blocks after the cursor are scanned
+			latestBlock = 1000 + 200000;
+			getLogs.mockClear();
+			runtimeTransactions[0].state = 'DELIVERED';
+			const delivered = await poll();
+
+			expect(delivered![0][0].json.newState).toBe('DELIVERED');
+			expect(getLogs.mock.calls.every(([filter]) => Number(filter.fromBlock) > 1000)).toBe(true);
+
+			runtimeTransactions[0].state = 'SETTLED';
+			const settled = await poll();
+
+			expect(settled![0][0].json.previousState).toBe('DELIVERED');
+			expect(settled![0][0].json.newState).toBe('SETTLED');
+			expect(staticData.transactionStates).toEqual({});
+			expect(staticData.lastBlock).toBe(201000);
+		});
+	});
+
+	it('should emit new transactions with null previous state', async () => {
+		const staticData: Record<string, any> = { transactionStates: {} };
+		runtimeTransactions = [createTransaction(TX_1, 'INITIATED')];
+
+		const result = await trigger.poll.call(createPollContext({}, staticData));
+
+		expect(result![0][0].json.previousState).toBeNull();
+		expect(result![0][0].json.newState).toBe('INITIATED');
+	});
+
+	it('should only emit transitions into selected states', async () => {
+		const staticData: Record<string, any> = {
+			transactionStates: { [TX_1]: 'INITIATED', [TX_2]: 'DELIVERED' },
+		};
+		runtimeTransactions = [
+			createTransaction(TX_1, 'COMMITTED'),
+			createTransaction(TX_2, 'SETTLED'),
+		];
+
+		const result = await trigger.poll.call(
+			createPollContext({ states: ['SETTLED'] }, staticData),
+		);
+
+		expect(result![0]).toHaveLength(1);
+		expect(result![0][0].json.transactionId).toBe(TX_2);
+	});
+
+	it('should filter by role', async () => {
+		const staticData: Record<string, any> = { transactionStates: {} };
+		runtimeTransactions = [
+			createTransaction(TX_1, 'COMMITTED'),
+			createTransaction(TX_2, 'COMMITTED', { requester: OTHER, provider: WALLET }),
+		];
+
+		const result = await trigger.poll.call(
+			createPollContext({ role: 'provider' }, staticData),
+		);
+
+		expect(result![0]).toHaveLength(1);
+		expect(result![0][0].json.transactionId).toBe(TX_2);
+		expect(result![0][0].json.role).toBe('provider');
+	});
+
+	it('should report both roles when the wallet pays itself', async () => {
+		const staticData: Record<string, any> = { transactionStates: {} };
+		runtimeTransactions = [createTransaction(TX_1, 'COMMITTED', { provider: WALLET })];
+
+		const result = await trigger.poll.call(
+			createPollContext({ role: 'provider' }, staticData),
+		);
+
+		expect(result![0]).toHaveLength(1);
+		expect(result![0][0].json.roles).toEqual(['requester', 'provider']);
+	});
+
+	it('should ignore transactions where wallet is not a party', async () => {
+		const staticData: Record<string, any> = { transactionStates: {} };
+		runtimeTransactions = [
+			createTransaction(TX_1, 'COMMITTED', {
+				requester: '0x' + '3'.repeat(40),
+				provider: OTHER,
+			}),
+		];
+
+		const result = await trigger.poll.call(createPollContext({}, staticData));
+
+		expect(result).toBeNull();
+	});
+
+	it('should watch specific transaction IDs', async () => {
+		const staticData: Record<string, any> = { transactionStates: { [TX_2]: 'IN_PROGRESS' } };
+		runtimeTransactions = [
+			createTransaction(TX_1, 'COMMITTED'),
+			createTransaction(TX_2, 'DELIVERED'),
+		];
+
+		const result = await trigger.poll.call(
+			createPollContext({ watch: 'transactionIds', transactionIds: TX_2 }, staticData),
+		);
+
+		expect(result![0]).toHaveLength(1);
+		expect(result![0][0].json.transactionId).toBe(TX_2);
+		expect(staticData.transactionStates).toEqual({ [TX_2]: 'DELIVERED' });
+	});
+
+	it('should return a sample item on manual runs', async () => {
+		runtimeTransactions = [
+			createTransaction(TX_1, 'COMMITTED', { updatedAt: 1700000100 }),
+			createTransaction(TX_2, 'DELIVERED', { updatedAt: 1700000200 }),
+		];
+
+		const result = await trigger.poll.call(createPollContext({}, {}, 'manual'));
+
+		expect(result![0]).toHaveLength(1);
+		expect(result![0][0].json.transactionId).toBe(TX_2);
+	});
+});
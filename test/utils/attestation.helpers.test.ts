@@ -0,0 +1,180 @@
+/**
+ * EAS Attestation Unit Tests
+ *
+ * Tests for the mock-mode stand-in registry and release resolution.
+ */
+
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { ethers, JsonRpcProvider, Wallet } from 'ethers';
+import {
+	DELIVERY_SCHEMA,
+	DELIVERY_SCHEMA_UID,
+	getDeliverySchemaUID,
+	encodeDeliveryAttestationData,
+	createDeliveryAttestation,
+	findDeliveryAttestation,
+	resolveReleaseAttestation,
+} from '../../nodes/Actp/utils/attestation.helpers';
+
+const TX_ID = '0x' + 'a'.repeat(64);
+const CONTENT_HASH = '0x' + 'c'.repeat(64);
+
+const tx = {
+	state: 'DELIVERED',
+	amount: '100000000',
+	requester: '0x' + '1'.repeat(40),
+	provider: '0x' + '2'.repeat(40),
+	deadline: 1700086400,
+	contentHash: CONTENT_HASH,
+};
+
+const context = {} as IExecuteFunctions;
+
+// Each client gets its own runtime, so its own stand-in registry
+const createMockClient = () => ({
+	info: { mode: 'mock' },
+	getAddress: () => tx.provider,
+	advanced: { time: { now: () => 1700000000 } },
+});
+
+describe('DELIVERY_SCHEMA_UID', () => {
+	it('should match the EAS schema UID derivation', () => {
+		expect(DELIVERY_SCHEMA_UID).toBe(
+			ethers.solidityPackedKeccak256(
+				['string', 'address', 'bool'],
+				[DELIVERY_SCHEMA, ethers.ZeroAddress, true],
+			),
+		);
+	});
+});
+
+describe('encodeDeliveryAttestationData', () => {
+	it('should round-trip the schema fields', () => {
+		const data = encodeDeliveryAttestationData(TX_ID, CONTENT_HASH, tx.provider);
+		const [txId, hash, provider] = ethers.AbiCoder.defaultAbiCoder().decode(
+			['bytes32', 'bytes32', 'address'],
+			data,
+		);
+		expect(txId).toBe(TX_ID);
+		expect(hash).toBe(CONTENT_HASH);
+		expect(provider.toLowerCase()).toBe(tx.provider);
+	});
+});
+
+describe('mock stand-in registry', () => {
+	it('should create and find an attestation', async () => {
+		const client = createMockClient();
+
+		const created = await createDeliveryAttestation(context, client as any, TX_ID, tx, 0);
+		const found = await findDeliveryAttestation(context, client as any, TX_ID, tx, 0);
+
+		expect(created.uid).toMatch(/^0x[0-9a-f]{64}$/);
+		expect(created.contentHash).toBe(CONTENT_HASH);
+		expect(created.recipient).toBe(tx.requester);
+		expect(found?.uid).toBe(created.uid);
+	});
+
+	it('should return undefined when nothing was attested', async () => {
+		const found = await findDeliveryAttestation(context, createMockClient() as any, TX_ID, tx, 0);
+		expect(found).toBeUndefined();
+	});
+});
+
+describe('resolveReleaseAttestation', () => {
+	it('should do nothing when off', async () => {
+		const result = await resolveReleaseAttestation(context, createMockClient() as any, TX_ID, tx, 'none', 0);
+		expect(result).toBeUndefined();
+	});
+
+	it('should fail look-up when none exists', async () => {
+		await expect(
+			resolveReleaseAttestation(context, createMockClient() as any, TX_ID, tx, 'lookUp', 0),
+		).rejects.toThrow('No delivery attestation found');
+	});
+
+	it('should reuse an existing attestation in lookUpOrCreate mode', async () => {
+		const client = createMockClient();
+		const first = await resolveReleaseAttestation(context, client as any, TX_ID, tx, 'lookUpOrCreate', 0);
+		const second = await resolveReleaseAttestation(context, client as any, TX_ID, tx, 'lookUpOrCreate', 0);
+
+		expect(second?.uid).toBe(first?.uid);
+	});
+
+	it('should always create in create mode', async () => {
+		const client = createMockClient();
+		const first = await resolveReleaseAttestation(context, client as any, TX_ID, tx, 'create', 0);
+		const second = await resolveReleaseAttestation(context, client as any, TX_ID, tx, 'create', 0);
+
+		expect(second?.uid).not.toBe(first?.uid);
+	});
+});
+
+describe('on-chain attestations', () => {
+	const CUSTOM_SCHEMA = '0x' + 'd'.repeat(64);
+
+	const createChainContext = (credentials: Record<string, any> = {}): IExecuteFunctions =>
+		({
+			getNode: jest.fn(() => ({ name: 'ACTP' })),
+			getNodeParameter: jest.fn((_name: string, _itemIndex: number, defaultValue?: any) => defaultValue),
+			getCredentials: jest.fn().mockResolvedValue({
+				environment: 'testnet',
+				privateKey: '0x' + '11'.repeat(32),
+				rpcUrl: 'http://localhost:8545',
+				...credentials,
+			}),
+		}) as unknown as IExecuteFunctions;
+
+	const chainClient = { info: { mode: 'testnet' }, getAddress: () => tx.requester } as any;
+
+	const mockRegisteredSchema = (uid: string) =>
+		jest
+			.spyOn(JsonRpcProvider.prototype, 'call')
+			.mockResolvedValue(
+				ethers.AbiCoder.defaultAbiCoder().encode(
+					['tuple(bytes32,address,bool,string)'],
+					[[uid, ethers.ZeroAddress, true, DELIVERY_SCHEMA]],
+				),
+			);
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it('should use the schema UID configured on the credential', async () => {
+		const uid = await getDeliverySchemaUID(
+			createChainContext({ attestationSchemaUid: CUSTOM_SCHEMA }),
+			chainClient,
+			0,
+		);
+
+		expect(uid).toBe(CUSTOM_SCHEMA);
+	});
+
+	it('should reject a malformed schema UID', async () => {
+		await expect(
+			getDeliverySchemaUID(createChainContext({ attestationSchemaUid: '0x1234' }), chainClient, 0),
+		).rejects.toThrow('64 hex characters');
+	});
+
+	it('should refuse to attest against an unregistered schema', async () => {
+		mockRegisteredSchema(ethers.ZeroHash);
+		const send = jest.spyOn(Wallet.prototype, 'sendTransaction');
+
+		await expect(
+			createDeliveryAttestation(createChainContext(), chainClient, TX_ID, tx, 0),
+		).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+		expect(send).not.toHaveBeenCalled();
+	});
+
+	it('should send the attestation once, without retrying', async () => {
+		mockRegisteredSchema(DELIVERY_SCHEMA_UID);
+		const send = jest
+			.spyOn(Wallet.prototype, 'sendTransaction')
+			.mockRejectedValue(ethers.makeError('bad gateway', 'SERVER_ERROR'));
+
+		await expect(
+			createDeliveryAttestation(createChainContext(), chainClient, TX_ID, tx, 0),
+		).rejects.toThrow('bad gateway');
+		expect(send).toHaveBeenCalledTimes(1);
+	});
+});
@@ -4,11 +4,21 @@
  * Tests for ACTP client creation and caching.
  */
 
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { encryptKeystoreJsonSync } from 'ethers';
 import {
+	createActpClient,
 	createClientFromCredentials,
 	clearClientCache,
+	resolvePrivateKey,
 	sanitizeError,
+	withTimeout,
+	withRetry,
+	classifyError,
+	executeWithProtection,
+	DEFAULT_RETRY_POLICY,
 } from '../../nodes/ACTP/utils/client.factory';
+import { startSignerServer } from '../fixtures';
 
 // Mock the SDK
 jest.mock('@agirails/sdk', () => ({
@@ -215,6 +225,167 @@ describe('createClientFromCredentials', () => {
 		});
 	});
 
+	describe('mnemonic wallet', () => {
+		// Well-known development mnemonic (Hardhat/Anvil default accounts)
+		const mnemonic = 'test test test test test test test test test test test junk';
+
+		it('should derive the first account by default', async () => {
+			const { ACTPClient } = require('@agirails/sdk');
+			const credentials = {
+				environment: 'testnet',
+				walletType: 'mnemonic',
+				mnemonic,
+			};
+
+			await createClientFromCredentials(credentials);
+
+			expect(ACTPClient.create).toHaveBeenCalledWith(
+				expect.objectContaining({
+					requesterAddress: '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266',
+				}),
+			);
+		});
+
+		it('should derive from the account index', async () => {
+			const { ACTPClient } = require('@agirails/sdk');
+			const credentials = {
+				environment: 'testnet',
+				walletType: 'mnemonic',
+				mnemonic,
+				accountIndex: 1,
+			};
+
+			await createClientFromCredentials(credentials);
+
+			expect(ACTPClient.create).toHaveBeenCalledWith(
+				expect.objectContaining({
+					requesterAddress: '0x70997970c51812dc3a010c7d01b50e0d17dc79c8',
+				}),
+			);
+		});
+
+		it('should prefer a custom derivation path over the account index', async () => {
+			const viaPath = await resolvePrivateKey({
+				walletType: 'mnemonic',
+				mnemonic,
+				accountIndex: 5,
+				derivationPath: "m/44'/60'/0'/0/1",
+			});
+			const viaIndex = await resolvePrivateKey({
+				walletType: 'mnemonic',
+				mnemonic,
+				accountIndex: 1,
+			});
+
+			expect(viaPath).toBe(viaIndex);
+		});
+
+		it('should throw on an invalid mnemonic', async () => {
+			const credentials = {
+				environment: 'testnet',
+				walletType: 'mnemonic',
+				mnemonic: 'not a real mnemonic phrase at all',
+			};
+
+			await expect(createClientFromCredentials(credentials)).rejects.toThrow('Invalid mnemonic');
+		});
+
+		it('should cache different accounts separately', async () => {
+			const client1 = await createClientFromCredentials({
+				environment: 'testnet',
+				walletType: 'mnemonic',
+				mnemonic,
+				accountIndex: 0,
+			});
+			const client2 = await createClientFromCredentials({
+				environment: 'testnet',
+				walletType: 'mnemonic',
+				mnemonic,
+				accountIndex: 1,
+			});
+
+			expect(client1).not.toBe(client2);
+		});
+	});
+
+	describe('keystore wallet', () => {
+		const privateKey = '0x' + 'c'.repeat(64);
+		const address = new (require('ethers').Wallet)(privateKey).address;
+		// Low scrypt cost keeps the test fast; decryption reads N from the JSON
+		const keystoreJson = encryptKeystoreJsonSync({ address, privateKey }, 'hunter2', {
+			scrypt: { N: 16 },
+		});
+
+		it('should decrypt the keystore', async () => {
+			const { ACTPClient } = require('@agirails/sdk');
+			const credentials = {
+				environment: 'mainnet',
+				walletType: 'keystore',
+				keystoreJson,
+				keystorePassword: 'hunter2',
+			};
+
+			await createClientFromCredentials(credentials);
+
+			expect(ACTPClient.create).toHaveBeenCalledWith(
+				expect.objectContaining({
+					mode: 'mainnet',
+					requesterAddress: address.toLowerCase(),
+					privateKey,
+				}),
+			);
+		});
+
+		it('should throw on a wrong password', async () => {
+			const credentials = {
+				environment: 'mainnet',
+				walletType: 'keystore',
+				keystoreJson,
+				keystorePassword: 'wrong',
+			};
+
+			await expect(createClientFromCredentials(credentials)).rejects.toThrow(
+				'Could not decrypt keystore JSON',
+			);
+		});
+	});
+
+	describe('remote signer', () => {
+		let server: Awaited<ReturnType<typeof startSignerServer>>;
+
+		beforeAll(async () => {
+			server = await startSignerServer('0x' + 'e'.repeat(64));
+		});
+
+		afterAll(async () => {
+			await server.close();
+		});
+
+		it('should create a client with a remote signer and no private key', async () => {
+			const { ACTPClient } = require('@agirails/sdk');
+			const credentials = {
+				environment: 'mainnet',
+				walletType: 'remote',
+				signerUrl: server.url,
+			};
+
+			await createClientFromCredentials(credentials);
+
+			const config = ACTPClient.create.mock.calls[0][0];
+			expect(config.mode).toBe('mainnet');
+			expect(config.requesterAddress).toBe(server.address.toLowerCase());
+			expect(config.privateKey).toBeUndefined();
+			expect(await config.signer.getAddress()).toBe(server.address);
+			expect(server.requests).toContain('eth_accounts');
+		});
+
+		it('should not expose a private key', async () => {
+			await expect(
+				resolvePrivateKey({ walletType: 'remote', signerUrl: server.url }),
+			).rejects.toThrow('do not expose a private key');
+		});
+	});
+
 	describe('unknown environment', () => {
 		it('should throw on unknown environment', async () => {
 			const credentials = {
@@ -273,6 +444,65 @@ describe('createClientFromCredentials', () => {
 	});
 });
 
+describe('createActpClient', () => {
+	const ADDRESS_1 = '0x' + '1'.repeat(40);
+	const ADDRESS_2 = '0x' + '2'.repeat(40);
+
+	const createMockContext = (addresses: string[]): IExecuteFunctions =>
+		({
+			getCredentials: jest.fn(async (_type: string, itemIndex: number) => ({
+				environment: 'mock',
+				mockAddress: addresses[itemIndex],
+			})),
+		}) as unknown as IExecuteFunctions;
+
+	beforeEach(() => {
+		clearClientCache();
+		jest.clearAllMocks();
+	});
+
+	it('should read credentials once per item and share the client', async () => {
+		const { ACTPClient } = require('@agirails/sdk');
+		const context = createMockContext([ADDRESS_1, ADDRESS_1]);
+
+		const client1 = await createActpClient(context, 0);
+		await createActpClient(context, 0);
+		const client2 = await createActpClient(context, 1);
+
+		expect(client1).toBe(client2);
+		expect(context.getCredentials).toHaveBeenCalledTimes(2);
+		expect(ACTPClient.create).toHaveBeenCalledTimes(1);
+	});
+
+	it('should respect per-item credential expressions', async () => {
+		const context = createMockContext([ADDRESS_1, ADDRESS_2]);
+
+		const client1 = await createActpClient(context, 0);
+		const client2 = await createActpClient(context, 1);
+
+		expect(client1).not.toBe(client2);
+	});
+
+	it('should read credentials again in a new execution', async () => {
+		const first = createMockContext([ADDRESS_1]);
+		const second = createMockContext([ADDRESS_1]);
+
+		await createActpClient(first, 0);
+		await createActpClient(second, 0);
+
+		expect(second.getCredentials).toHaveBeenCalledTimes(1);
+	});
+
+	it('should retry a failed client on the next item', async () => {
+		const { ACTPClient } = require('@agirails/sdk');
+		ACTPClient.create.mockRejectedValueOnce(new Error('rpc down'));
+		const context = createMockContext([ADDRESS_1, ADDRESS_1]);
+
+		await expect(createActpClient(context, 0)).rejects.toThrow('rpc down');
+		await expect(createActpClient(context, 1)).resolves.toBeDefined();
+	});
+});
+
 describe('sanitizeError', () => {
 	it('should redact 64-char hex strings (private keys)', () => {
 		const privateKey = '0x' + 'a'.repeat(64);
@@ -400,3 +630,83 @@ describe('sanitizeError', () => {
 		});
 	});
 });
+
+describe('withTimeout', () => {
+	it('should clear its timer once the promise settles', async () => {
+		const clearSpy = jest.spyOn(global, 'clearTimeout');
+
+		await expect(withTimeout(Promise.resolve('ok'), 60000, 'test')).resolves.toBe('ok');
+
+		expect(clearSpy).toHaveBeenCalled();
+		clearSpy.mockRestore();
+	});
+
+	it('should reject after the timeout', async () => {
+		await expect(withTimeout(new Promise(() => undefined), 10, 'slowOp')).rejects.toThrow(
+			'slowOp timed out after 10ms',
+		);
+	});
+});
+
+describe('classifyError', () => {
+	it('should classify transient errors', () => {
+		expect(classifyError(new Error('429 Too Many Requests'))).toBe('rateLimit');
+		expect(classifyError(new Error('request timeout'))).toBe('timeout');
+		expect(classifyError(new Error('socket hang up'))).toBe('network');
+	});
+
+	it('should not classify node timeouts or permanent errors', () => {
+		expect(classifyError(new Error('releaseEscrow timed out after 30000ms'))).toBeUndefined();
+		expect(classifyError(new Error('execution reverted'))).toBeUndefined();
+	});
+});
+
+describe('withRetry', () => {
+	it('should retry transient errors and report each retry', async () => {
+		const fn = jest
+			.fn()
+			.mockRejectedValueOnce(new Error('network error'))
+			.mockRejectedValueOnce(new Error('rate limit exceeded'))
+			.mockResolvedValue('ok');
+		const onRetry = jest.fn();
+
+		await expect(withRetry(fn, 3, 0, { onRetry })).resolves.toBe('ok');
+
+		expect(fn).toHaveBeenCalledTimes(3);
+		expect(onRetry).toHaveBeenCalledTimes(2);
+		expect(onRetry).toHaveBeenLastCalledWith(2, expect.any(Error));
+	});
+
+	it('should only retry the configured error classes', async () => {
+		const fn = jest.fn().mockRejectedValue(new Error('rate limit exceeded'));
+
+		await expect(withRetry(fn, 3, 0, { retryOn: ['network'] })).rejects.toThrow('rate limit');
+
+		expect(fn).toHaveBeenCalledTimes(1);
+	});
+
+	it('should keep jittered delays within the backoff', async () => {
+		const timeoutSpy = jest.spyOn(global, 'setTimeout');
+		const fn = jest.fn().mockRejectedValueOnce(new Error('network error')).mockResolvedValue('ok');
+
+		await withRetry(fn, 2, 8, { jitter: true });
+
+		const delay = timeoutSpy.mock.calls[timeoutSpy.mock.calls.length - 1][1] as number;
+		expect(delay).toBeGreaterThanOrEqual(4);
+		expect(delay).toBeLessThanOrEqual(8);
+		timeoutSpy.mockRestore();
+	});
+});
+
+describe('executeWithProtection', () => {
+	it('should apply the policy timeout and attempts', async () => {
+		const fn = jest.fn().mockImplementation(() => new Promise(() => undefined));
+
+		await expect(
+			executeWithProtection(fn, 'slowOp', { ...DEFAULT_RETRY_POLICY, timeoutMs: 10, baseDelayMs: 0 }),
+		).rejects.toThrow('slowOp timed out after 10ms');
+
+		// Node timeouts are never retried
+		expect(fn).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,65 @@
+/**
+ * Delivery Proof Unit Tests
+ *
+ * Tests for deliverable hashing and proof encoding.
+ */
+
+import { ethers } from 'ethers';
+import {
+	canonicalJson,
+	hashDeliverableBytes,
+	hashJsonDeliverable,
+	encodeDeliveryProof,
+} from '../../nodes/Actp/utils/delivery.helpers';
+
+describe('canonicalJson', () => {
+	it('should sort keys at every level', () => {
+		expect(canonicalJson({ b: 1, a: { d: [3, { f: 1, e: 2 }], c: null } })).toBe(
+			'{"a":{"c":null,"d":[3,{"e":2,"f":1}]},"b":1}',
+		);
+	});
+
+	it('should drop undefined properties like JSON.stringify', () => {
+		expect(canonicalJson({ a: 1, b: undefined })).toBe('{"a":1}');
+	});
+});
+
+describe('hashJsonDeliverable', () => {
+	it('should hash independent of key order', () => {
+		expect(hashJsonDeliverable({ a: 1, b: 2 }).contentHash).toBe(
+			hashJsonDeliverable('{"b":2,"a":1}').contentHash,
+		);
+	});
+
+	it('should throw on invalid JSON strings', () => {
+		expect(() => hashJsonDeliverable('{not json')).toThrow('not valid JSON');
+	});
+});
+
+describe('hashDeliverableBytes', () => {
+	it('should return keccak256 and size', () => {
+		const bytes = ethers.toUtf8Bytes('hello');
+		expect(hashDeliverableBytes(bytes)).toEqual({
+			contentHash: ethers.keccak256(bytes),
+			sizeBytes: 5,
+		});
+	});
+});
+
+describe('encodeDeliveryProof', () => {
+	const abiCoder = ethers.AbiCoder.defaultAbiCoder();
+
+	it('should encode only the dispute window without a hash', () => {
+		expect(encodeDeliveryProof(172800)).toBe(abiCoder.encode(['uint256'], [172800]));
+	});
+
+	it('should keep the dispute window as the first word', () => {
+		const hash = '0x' + 'ab'.repeat(32);
+		const proof = encodeDeliveryProof(3600, hash);
+		const [window] = abiCoder.decode(['uint256'], ethers.dataSlice(proof, 0, 32));
+		const [, decodedHash] = abiCoder.decode(['uint256', 'bytes32'], proof);
+
+		expect(window).toBe(3600n);
+		expect(decodedHash).toBe(hash);
+	});
+});
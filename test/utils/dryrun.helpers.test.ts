@@ -0,0 +1,133 @@
+/**
+ * Dry Run Unit Tests
+ *
+ * Tests for the Dry Run toggle, typical gas costs and release previews.
+ */
+
+import type { ACTPClient } from '@agirails/sdk';
+import { JsonRpcProvider } from 'ethers';
+import {
+	isDryRun,
+	getTypicalGasCost,
+	formatDryRun,
+	previewRelease,
+} from '../../nodes/Actp/utils/dryrun.helpers';
+import { PROTOCOL_CONSTANTS } from '../../nodes/Actp/utils/constants';
+import { createMockContext, TESTNET_CREDENTIALS } from '../fixtures';
+
+const TX_ID = '0x' + 'a'.repeat(64);
+const REQUESTER = '0x' + '1'.repeat(40);
+const PROVIDER = '0x' + '2'.repeat(40);
+
+const createClient = (mode: string) =>
+	({ info: { mode }, getAddress: () => REQUESTER }) as unknown as ACTPClient;
+
+const deliveredTx = {
+	txId: TX_ID,
+	requester: REQUESTER,
+	provider: PROVIDER,
+	amount: '100000000',
+	state: 'DELIVERED',
+	deadline: 0,
+	disputeWindow: 3600,
+	createdAt: 0,
+	updatedAt: 0,
+};
+
+afterEach(() => {
+	jest.restoreAllMocks();
+});
+
+describe('isDryRun', () => {
+	it('should default to off', () => {
+		expect(isDryRun(createMockContext(), 0)).toBe(false);
+	});
+
+	it('should read the dryRun parameter', () => {
+		expect(isDryRun(createMockContext({ dryRun: true }), 0)).toBe(true);
+	});
+});
+
+describe('getTypicalGasCost', () => {
+	it('should price zero cost in mock mode', async () => {
+		const gas = await getTypicalGasCost(createMockContext(), createClient('mock'), 'cancel', 0);
+
+		expect(gas.typicalGasUnits).toBe(PROTOCOL_CONSTANTS.DRY_RUN_GAS_UNITS.cancel.toString());
+		expect(gas.approximateCostWei).toBe('0');
+	});
+
+	it('should multiply the gas budget by the current max fee', async () => {
+		jest.spyOn(JsonRpcProvider.prototype, 'getFeeData').mockResolvedValue({
+			maxFeePerGas: 2000000000n,
+			gasPrice: 1000000000n,
+		} as any);
+
+		const context = createMockContext({}, TESTNET_CREDENTIALS);
+		const gas = await getTypicalGasCost(context, createClient('testnet'), 'sendPayment', 0);
+
+		expect(gas.gasPriceWei).toBe('2000000000');
+		expect(gas.approximateCostWei).toBe((PROTOCOL_CONSTANTS.DRY_RUN_GAS_UNITS.sendPayment * 2000000000n).toString());
+	});
+});
+
+describe('formatDryRun', () => {
+	it('should flag the result and say nothing was sent', () => {
+		const result = formatDryRun('cancel', { state: 'CANCELLED', message: 'would cancel' }, {
+			typicalGasUnits: '1',
+			gasPriceWei: '0',
+			approximateCostWei: '0',
+			approximateCost: '0.0 ETH',
+			note: 'typical',
+		});
+
+		expect(result.success).toBe(true);
+		expect(result.dryRun).toBe(true);
+		expect(result.state).toBe('CANCELLED');
+		expect(result.message).toBe('Dry run: would cancel. Nothing was sent.');
+	});
+});
+
+describe('previewRelease', () => {
+	it('should keep a pasted attestation UID', async () => {
+		const uid = '0x' + 'c'.repeat(64);
+		const preview = await previewRelease(
+			createMockContext({}, TESTNET_CREDENTIALS),
+			createClient('mock'),
+			TX_ID,
+			deliveredTx,
+			uid,
+			'create',
+			0,
+		);
+
+		expect(preview).toEqual({ attestationUID: uid, attestationWouldBeCreated: false });
+	});
+
+	it('should report that an attestation would be created', async () => {
+		const preview = await previewRelease(
+			createMockContext({}, TESTNET_CREDENTIALS),
+			createClient('mock'),
+			TX_ID,
+			deliveredTx,
+			'',
+			'create',
+			0,
+		);
+
+		expect(preview.attestationWouldBeCreated).toBe(true);
+	});
+
+	it('should reject a release the state machine does not allow', async () => {
+		await expect(
+			previewRelease(
+				createMockContext({}, TESTNET_CREDENTIALS),
+				createClient('mock'),
+				TX_ID,
+				{ ...deliveredTx, state: 'COMMITTED' },
+				'',
+				'none',
+				0,
+			),
+		).rejects.toThrow();
+	});
+});
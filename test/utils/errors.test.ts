@@ -0,0 +1,158 @@
+/**
+ * Error Taxonomy Unit Tests
+ *
+ * Tests for ActpError codes and mapping of SDK, ethers and plain errors.
+ */
+
+import type { IExecuteFunctions, INode } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { makeError } from 'ethers';
+import {
+	ActpError,
+	InsufficientFundsError,
+	RpcUnavailableError,
+	TimeoutError,
+	TransactionNotFoundError,
+	classifyActpError,
+	toActpError,
+	formatActpError,
+	formatFailedItem,
+} from '../../nodes/Actp/utils/errors';
+
+const node = { name: 'ACTP' } as INode;
+
+const namedError = (name: string, message: string) => {
+	const error = new Error(message);
+	error.name = name;
+	return error;
+};
+
+describe('ActpError', () => {
+	it('should carry a code, retryable flag and default description', () => {
+		const error = new InsufficientFundsError(node, 'Insufficient USDC balance', { itemIndex: 2 });
+
+		expect(error).toBeInstanceOf(NodeOperationError);
+		expect(error.code).toBe('INSUFFICIENT_FUNDS');
+		expect(error.retryable).toBe(false);
+		expect(error.description).toContain('Top up');
+		expect(error.context.itemIndex).toBe(2);
+		expect(error.context.code).toBe('INSUFFICIENT_FUNDS');
+	});
+
+	it('should keep an explicit description', () => {
+		const error = new ActpError(node, 'RPC_UNAVAILABLE', 'down', { description: 'custom' });
+
+		expect(error.description).toBe('custom');
+		expect(error.retryable).toBe(true);
+	});
+});
+
+describe('classifyActpError', () => {
+	it('should map SDK error classes by name', () => {
+		expect(classifyActpError(namedError('TransactionNotFoundError', 'missing'))).toBe('TX_NOT_FOUND');
+		expect(classifyActpError(namedError('DeadlinePassedError', 'late'))).toBe('DEADLINE_PASSED');
+		expect(classifyActpError(namedError('InvalidAddressError', 'bad'))).toBe('INVALID_INPUT');
+	});
+
+	it('should map ethers error codes', () => {
+		expect(classifyActpError(makeError('no funds', 'INSUFFICIENT_FUNDS'))).toBe('INSUFFICIENT_FUNDS');
+		expect(classifyActpError(makeError('reverted', 'CALL_EXCEPTION'))).toBe('TX_REVERTED');
+		expect(classifyActpError(makeError('bad gateway', 'SERVER_ERROR'))).toBe('RPC_UNAVAILABLE');
+	});
+
+	it('should map transient errors', () => {
+		expect(classifyActpError(new Error('429 Too Many Requests'))).toBe('RATE_LIMITED');
+		expect(classifyActpError(new Error('connect ECONNREFUSED'))).toBe('RPC_UNAVAILABLE');
+		expect(classifyActpError(new Error('pay timed out after 30000ms'))).toBe('TIMEOUT');
+	});
+
+	it('should fall back to message patterns', () => {
+		expect(classifyActpError(new Error('Invalid Ethereum address: 0x123'))).toBe('INVALID_INPUT');
+		expect(classifyActpError(new Error('Server responded 402 Payment Required'))).toBe(
+			'X402_PAYMENT_REJECTED',
+		);
+		expect(classifyActpError(new Error('something odd'))).toBe('UNKNOWN');
+	});
+});
+
+describe('toActpError', () => {
+	it('should return ActpErrors unchanged', () => {
+		const error = new TransactionNotFoundError(node, 'Transaction 0x1 not found');
+
+		expect(toActpError(node, error)).toBe(error);
+	});
+
+	it('should build the subclass for the code', () => {
+		const error = toActpError(node, makeError('bad gateway', 'SERVER_ERROR'), 1);
+
+		expect(error).toBeInstanceOf(RpcUnavailableError);
+		expect(error.retryable).toBe(true);
+		expect(error.context.itemIndex).toBe(1);
+	});
+
+	it('should not mark our own timeouts as retryable', () => {
+		const error = toActpError(node, new Error('releaseEscrow timed out after 30000ms'));
+
+		expect(error).toBeInstanceOf(TimeoutError);
+		expect(error.retryable).toBe(false);
+	});
+
+	it('should keep the description of a NodeOperationError', () => {
+		const error = toActpError(
+			node,
+			new NodeOperationError(node, 'Insufficient ETH for gas', { description: 'Send 0.01 ETH' }),
+		);
+
+		expect(error.code).toBe('INSUFFICIENT_FUNDS');
+		expect(error.description).toBe('Send 0.01 ETH');
+	});
+
+	it('should sanitize secrets in messages', () => {
+		const key = '0x' + 'ab'.repeat(32);
+		const error = toActpError(node, new Error(`bad key ${key}`));
+
+		expect(error.message).not.toContain(key);
+	});
+});
+
+describe('formatActpError', () => {
+	it('should produce output item fields', () => {
+		const error = new InsufficientFundsError(node, 'Insufficient USDC balance', {
+			description: 'Top up 5 USDC',
+		});
+
+		expect(formatActpError(error)).toEqual({
+			success: false,
+			error: 'Insufficient USDC balance',
+			code: 'INSUFFICIENT_FUNDS',
+			retryable: false,
+			description: 'Top up 5 USDC',
+		});
+	});
+});
+
+describe('formatFailedItem', () => {
+	const createContext = (onError?: string): IExecuteFunctions =>
+		({
+			getNode: jest.fn(() => ({ ...node, onError })),
+			getInputData: jest.fn(() => [{ json: { orderId: 1 } }, { json: { orderId: 2 } }]),
+		}) as unknown as IExecuteFunctions;
+	const error = new TransactionNotFoundError(node, 'Transaction 0x1 not found');
+
+	it('should pair the failure with its input item', () => {
+		const item = formatFailedItem(createContext(), error, 1, { operation: 'cancel' });
+
+		expect(item.pairedItem).toEqual({ item: 1 });
+		expect(item.json).toEqual(
+			expect.objectContaining({ code: 'TX_NOT_FOUND', operation: 'cancel', itemIndex: 1 }),
+		);
+		expect(item.json.orderId).toBeUndefined();
+	});
+
+	it('should keep the input JSON when the Error output is enabled', () => {
+		const item = formatFailedItem(createContext('continueErrorOutput'), error, 1);
+
+		expect(item.json.orderId).toBe(2);
+		expect(item.json.error).toBe('Transaction 0x1 not found');
+	});
+});
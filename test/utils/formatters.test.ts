@@ -7,11 +7,13 @@
 
 import {
 	formatAmount,
+	formatEth,
 	formatTimestamp,
 	formatState,
 	formatTransactionSimple,
 	formatTransactionAdvanced,
 	formatStatusCheck,
+	formatQuoteComparison,
 	formatDuration,
 	formatSuccess,
 	formatError,
@@ -51,6 +53,36 @@ describe('formatAmount', () => {
 	});
 });
 
+describe('formatEth', () => {
+	it('should format wei to ETH string', () => {
+		expect(formatEth(1000000000000000000n)).toBe('1.0 ETH');
+	});
+
+	it('should format string amount', () => {
+		expect(formatEth('2500000000000000')).toBe('0.0025 ETH');
+	});
+
+	it('should format zero', () => {
+		expect(formatEth(0n)).toBe('0.0 ETH');
+	});
+});
+
+describe('formatQuoteComparison', () => {
+	it('should show a positive difference for higher quotes', () => {
+		const result = formatQuoteComparison(100000000n, 150000000n);
+		expect(result.originalAmount).toBe('$100.0 USDC');
+		expect(result.quotedAmount).toBe('$150.0 USDC');
+		expect(result.difference).toBe('+$50.0 USDC');
+		expect(result.differenceRaw).toBe('50000000');
+	});
+
+	it('should show a negative difference for lower quotes', () => {
+		const result = formatQuoteComparison('100000000', '75500000');
+		expect(result.difference).toBe('-$24.5 USDC');
+		expect(result.differenceRaw).toBe('-24500000');
+	});
+});
+
 describe('formatTimestamp', () => {
 	it('should format Unix timestamp to ISO string', () => {
 		const timestamp = 1700000000;
@@ -0,0 +1,249 @@
+/**
+ * Gas & Fee Unit Tests
+ *
+ * Tests for the gas price cap and per-operation fee reporting.
+ */
+
+import { NodeOperationError } from 'n8n-workflow';
+import type { ACTPClient } from '@agirails/sdk';
+import { FeeData, JsonRpcProvider } from 'ethers';
+import {
+	parseGasPriceCap,
+	checkGasPriceCap,
+	summarizeReceipts,
+	beginFeeTracking,
+	collectFees,
+	getResultTxHash,
+	type ReceiptCost,
+} from '../../nodes/Actp/utils/gas.helpers';
+import { createMockContext, TESTNET_CREDENTIALS } from '../fixtures';
+
+const WALLET = '0x' + '1'.repeat(40);
+const OTHER = '0x' + '2'.repeat(40);
+const GWEI = 1000000000n;
+
+const createClient = (mode: string) =>
+	({ info: { mode }, getAddress: () => WALLET }) as unknown as ACTPClient;
+
+afterEach(() => {
+	jest.restoreAllMocks();
+});
+
+describe('parseGasPriceCap', () => {
+	it('should parse gwei values to wei', () => {
+		const cap = parseGasPriceCap({ maxGasPriceGwei: 0.5, maxPriorityFeeGwei: '2' });
+
+		expect(cap.maxFeePerGas).toBe(GWEI / 2n);
+		expect(cap.maxPriorityFeePerGas).toBe(2n * GWEI);
+	});
+
+	it('should treat zero and empty values as no cap', () => {
+		expect(parseGasPriceCap({ maxGasPriceGwei: 0, maxPriorityFeeGwei: '' })).toEqual({
+			maxFeePerGas: undefined,
+			maxPriorityFeePerGas: undefined,
+		});
+	});
+
+	it('should reject negative values', () => {
+		expect(() => parseGasPriceCap({ maxGasPriceGwei: -1 })).toThrow('non-negative');
+	});
+});
+
+describe('checkGasPriceCap', () => {
+	it('should allow fees within the cap', () => {
+		const feeData = new FeeData(null, 1n * GWEI, 1n * GWEI);
+
+		expect(checkGasPriceCap({ maxFeePerGas: 2n * GWEI }, feeData)).toBeUndefined();
+	});
+
+	it('should block a max fee above the cap', () => {
+		const feeData = new FeeData(null, 3n * GWEI, 1n * GWEI);
+
+		expect(checkGasPriceCap({ maxFeePerGas: 2n * GWEI }, feeData)?.title).toContain('gas price');
+	});
+
+	it('should fall back to the legacy gas price', () => {
+		const feeData = new FeeData(3n * GWEI, null, null);
+
+		expect(checkGasPriceCap({ maxFeePerGas: 2n * GWEI }, feeData)).toBeDefined();
+	});
+
+	it('should block a priority fee above the cap', () => {
+		const feeData = new FeeData(null, 1n * GWEI, 1n * GWEI);
+
+		expect(
+			checkGasPriceCap({ maxPriorityFeePerGas: GWEI / 2n }, feeData)?.title,
+		).toContain('priority fee');
+	});
+});
+
+describe('summarizeReceipts', () => {
+	it('should report zero for no transactions', () => {
+		expect(summarizeReceipts([])).toEqual(
+			expect.objectContaining({ gasUsed: '0', feeWei: '0', effectiveGasPrice: '0' }),
+		);
+	});
+
+	it('should total gas and fees across transactions', () => {
+		const report = summarizeReceipts([
+			{ hash: '0xa', blockNumber: 10, gasUsed: 100n, gasPrice: 2n },
+			{ hash: '0xb', blockNumber: 11, gasUsed: 300n, gasPrice: 4n },
+		]);
+
+		expect(report.txHash).toBe('0xb');
+		expect(report.txHashes).toEqual(['0xa', '0xb']);
+		expect(report.blockNumber).toBe(11);
+		expect(report.gasUsed).toBe('400');
+		expect(report.feeWei).toBe('1400');
+		expect(report.effectiveGasPrice).toBe('3');
+	});
+});
+
+describe('beginFeeTracking', () => {
+	it('should skip the RPC in mock mode', async () => {
+		const context = createMockContext({}, TESTNET_CREDENTIALS);
+
+		const tracking = await beginFeeTracking(context, createClient('mock'), 0);
+
+		expect(tracking.mock).toBe(true);
+		expect(context.getCredentials).not.toHaveBeenCalled();
+	});
+
+	it('should abort when the network is above the gas price cap', async () => {
+		jest
+			.spyOn(JsonRpcProvider.prototype, 'getFeeData')
+			.mockResolvedValue(new FeeData(null, 50n * GWEI, 1n * GWEI));
+		const context = createMockContext({}, { ...TESTNET_CREDENTIALS, maxGasPriceGwei: 10 });
+
+		await expect(beginFeeTracking(context, createClient('testnet'), 0)).rejects.toThrow(
+			NodeOperationError,
+		);
+	});
+
+	it('should capture the block and nonce', async () => {
+		jest.spyOn(JsonRpcProvider.prototype, 'getBlockNumber').mockResolvedValue(100);
+		jest.spyOn(JsonRpcProvider.prototype, 'getTransactionCount').mockResolvedValue(7);
+
+		const context = createMockContext({}, TESTNET_CREDENTIALS);
+		const tracking = await beginFeeTracking(context, createClient('testnet'), 0);
+
+		expect(tracking).toEqual(expect.objectContaining({ mock: false, startBlock: 100, startNonce: 7 }));
+		expect(tracking.provider).toBeDefined();
+	});
+
+	it('should share one provider across the items of an execution', async () => {
+		jest.spyOn(JsonRpcProvider.prototype, 'getBlockNumber').mockResolvedValue(100);
+		jest.spyOn(JsonRpcProvider.prototype, 'getTransactionCount').mockResolvedValue(7);
+		const context = createMockContext({}, TESTNET_CREDENTIALS);
+
+		const first = await beginFeeTracking(context, createClient('testnet'), 0);
+		const second = await beginFeeTracking(context, createClient('testnet'), 1);
+
+		expect(second.provider).toBe(first.provider);
+		expect(context.getCredentials).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe('getResultTxHash', () => {
+	it('should read the hash from SDK and contract results', () => {
+		const hash = '0x' + 'c'.repeat(64);
+		expect(getResultTxHash({ txHash: hash })).toBe(hash);
+		expect(getResultTxHash({ transactionHash: hash })).toBe(hash);
+		expect(getResultTxHash({ hash })).toBe(hash);
+	});
+
+	it('should ignore results without a transaction hash', () => {
+		expect(getResultTxHash(undefined)).toBeUndefined();
+		expect(getResultTxHash('0x' + 'a'.repeat(64))).toBeUndefined();
+		expect(getResultTxHash({ txId: '0x' + 'a'.repeat(64) })).toBeUndefined();
+		expect(getResultTxHash({ txHash: '0xabc' })).toBeUndefined();
+	});
+});
+
+describe('collectFees', () => {
+	const createProvider = (nonce: number, blocks: Record<number, any[]>) => ({
+		getTransactionCount: jest.fn().mockResolvedValue(nonce),
+		getBlockNumber: jest.fn().mockResolvedValue(102),
+		getBlock: jest.fn(async (n: number) => ({ prefetchedTransactions: blocks[n] ?? [] })),
+		getTransactionReceipt: jest.fn(async (hash: string): Promise<ReceiptCost | null> => ({
+			hash,
+			blockNumber: 101,
+			gasUsed: 21000n,
+			gasPrice: GWEI,
+		})),
+	});
+
+	it('should report zero in mock mode', async () => {
+		const report = await collectFees({ mock: true, address: WALLET, startBlock: 0, startNonce: 0 });
+
+		expect(report.gasUsed).toBe('0');
+		expect(report.feeEth).toBe('0.0 ETH');
+	});
+
+	it('should find the wallet transactions sent since tracking began', async () => {
+		const provider = createProvider(7, {
+			101: [
+				{ hash: '0xother', from: OTHER, nonce: 5 },
+				{ hash: '0xold', from: WALLET, nonce: 5 },
+				{ hash: '0xmine', from: WALLET, nonce: 6 },
+			],
+		});
+
+		const report = await collectFees({
+			mock: false,
+			provider: provider as any,
+			address: WALLET,
+			startBlock: 100,
+			startNonce: 6,
+		});
+
+		expect(report.txHash).toBe('0xmine');
+		expect(report.gasUsed).toBe('21000');
+		expect(report.feeWei).toBe((21000n * GWEI).toString());
+		expect(provider.getTransactionReceipt).toHaveBeenCalledTimes(1);
+	});
+
+	it('should read receipts by hash without scanning blocks', async () => {
+		const hash = '0x' + 'c'.repeat(64);
+		const provider = createProvider(7, {});
+
+		const report = await collectFees(
+			{ mock: false, provider: provider as any, address: WALLET, startBlock: 100, startNonce: 6 },
+			[hash],
+		);
+
+		expect(report.txHash).toBe(hash);
+		expect(report.gasUsed).toBe('21000');
+		expect(provider.getTransactionReceipt).toHaveBeenCalledWith(hash);
+		expect(provider.getBlock).not.toHaveBeenCalled();
+	});
+
+	it('should scan blocks when the hash has no receipt yet', async () => {
+		const provider = createProvider(7, { 101: [{ hash: '0xmine', from: WALLET, nonce: 6 }] });
+		provider.getTransactionReceipt.mockResolvedValueOnce(null);
+
+		const report = await collectFees(
+			{ mock: false, provider: provider as any, address: WALLET, startBlock: 100, startNonce: 6 },
+			['0x' + 'c'.repeat(64), undefined],
+		);
+
+		expect(report.txHash).toBe('0xmine');
+		expect(provider.getBlock).toHaveBeenCalled();
+	});
+
+	it('should report nothing when the RPC fails', async () => {
+		const provider = {
+			getTransactionCount: jest.fn().mockRejectedValue(new Error('rpc down')),
+		};
+
+		const report = await collectFees({
+			mock: false,
+			provider: provider as any,
+			address: WALLET,
+			startBlock: 100,
+			startNonce: 6,
+		});
+
+		expect(report).toEqual({});
+	});
+});
@@ -0,0 +1,198 @@
+/**
+ * Idempotency Unit Tests
+ *
+ * Tests for idempotency key parsing, recording and replay.
+ */
+
+import { NodeOperationError } from 'n8n-workflow';
+import { keccak256, toUtf8Bytes } from 'ethers';
+import {
+	parseIdempotencyKey,
+	findIdempotencyRecord,
+	recordIdempotencyKey,
+	findIdempotentPayment,
+	formatIdempotentReplay,
+	idempotencyTag,
+	bindIdempotencyKey,
+	IDEMPOTENCY_TTL_SECONDS,
+} from '../../nodes/Actp/utils/idempotency.helpers';
+import { createMockContext } from '../fixtures';
+
+const WALLET = '0x' + '1'.repeat(40);
+const PROVIDER = '0x' + '2'.repeat(40);
+const TX_ID = '0x' + 'a'.repeat(64);
+
+const createMockClient = (
+	tx: Record<string, any> | null = { state: 'COMMITTED', requester: WALLET },
+	transactions: Record<string, any>[] = [],
+) =>
+	({
+		info: { mode: 'mock' },
+		getAddress: () => WALLET,
+		advanced: { getAllTransactions: jest.fn().mockResolvedValue(transactions) },
+		standard: { getTransaction: jest.fn().mockResolvedValue(tx) },
+	}) as any;
+
+describe('bindIdempotencyKey', () => {
+	it('should tag descriptions with a hash of the key', () => {
+		const tag = idempotencyTag('order-42');
+
+		expect(tag).toMatch(/^\[idempotency:[0-9a-f]{16}\]$/);
+		expect(tag).not.toContain('order-42');
+		expect(idempotencyTag('order-42')).toBe(tag);
+		expect(bindIdempotencyKey('order-42')).toBe(tag);
+		expect(bindIdempotencyKey('order-42', 'Translation')).toBe(`Translation ${tag}`);
+	});
+});
+
+const payment = { transactionId: TX_ID, operation: 'sendPayment', provider: PROVIDER, amountWei: '100000000' };
+
+describe('parseIdempotencyKey', () => {
+	it('should trim keys and treat empty values as no key', () => {
+		expect(parseIdempotencyKey('  order-42 ')).toBe('order-42');
+		expect(parseIdempotencyKey('')).toBeUndefined();
+		expect(parseIdempotencyKey(undefined)).toBeUndefined();
+	});
+
+	it('should accept numeric keys from expressions', () => {
+		expect(parseIdempotencyKey(42)).toBe('42');
+	});
+
+	it('should reject overly long keys', () => {
+		expect(() => parseIdempotencyKey('x'.repeat(257))).toThrow('at most 256');
+	});
+});
+
+describe('recordIdempotencyKey', () => {
+	it('should record keys per wallet in static data', () => {
+		const staticData: Record<string, any> = {};
+		const context = createMockContext({}, {}, staticData);
+
+		recordIdempotencyKey(context, createMockClient(), 'order-42', payment, 1000);
+
+		expect(staticData.actpIdempotency[WALLET]['order-42']).toEqual({ ...payment, at: 1000 });
+		expect(findIdempotencyRecord(context, createMockClient(), 'order-42', 1000)?.transactionId).toBe(TX_ID);
+	});
+
+	it('should expire keys after the TTL', () => {
+		const context = createMockContext();
+		recordIdempotencyKey(context, createMockClient(), 'order-42', payment, 1000);
+
+		expect(
+			findIdempotencyRecord(context, createMockClient(), 'order-42', 1000 + IDEMPOTENCY_TTL_SECONDS),
+		).toBeUndefined();
+	});
+});
+
+describe('findIdempotentPayment', () => {
+	it('should return undefined for an unused key', async () => {
+		const result = await findIdempotentPayment(
+			createMockContext(),
+			createMockClient(),
+			'order-42',
+			PROVIDER,
+			100000000n,
+			0,
+		);
+
+		expect(result).toBeUndefined();
+	});
+
+	it('should return the existing payment for a reused key', async () => {
+		const context = createMockContext();
+		const client = createMockClient();
+		recordIdempotencyKey(context, client, 'order-42', payment);
+
+		const replay = await findIdempotentPayment(context, client, 'order-42', PROVIDER, 100000000n, 0);
+
+		expect(replay?.record.transactionId).toBe(TX_ID);
+		expect(replay?.tx.state).toBe('COMMITTED');
+		expect(formatIdempotentReplay('order-42', replay!).idempotentReplay).toBe(true);
+	});
+
+	it('should refuse a key reused for a different payment', async () => {
+		const context = createMockContext();
+		const client = createMockClient();
+		recordIdempotencyKey(context, client, 'order-42', payment);
+
+		await expect(
+			findIdempotentPayment(context, client, 'order-42', PROVIDER, 200000000n, 0),
+		).rejects.toThrow(NodeOperationError);
+	});
+
+	it('should find a payment bound to the key on-chain and record it', async () => {
+		const context = createMockContext();
+		const bound = {
+			id: TX_ID,
+			state: 'COMMITTED',
+			requester: WALLET,
+			provider: PROVIDER,
+			amount: '100000000',
+			serviceDescription: bindIdempotencyKey('order-42'),
+		};
+		const client = createMockClient(bound, [bound]);
+
+		const replay = await findIdempotentPayment(context, client, 'order-42', PROVIDER, 100000000n, 0);
+
+		expect(replay?.record.transactionId).toBe(TX_ID);
+		expect(findIdempotencyRecord(context, client, 'order-42')?.transactionId).toBe(TX_ID);
+	});
+
+	it('should match descriptions stored as a keccak256 hash', async () => {
+		const bound = {
+			id: TX_ID,
+			state: 'COMMITTED',
+			requester: WALLET,
+			provider: PROVIDER,
+			amount: '100000000',
+			serviceDescription: keccak256(toUtf8Bytes(bindIdempotencyKey('order-42', 'Translation'))),
+		};
+		const client = createMockClient(bound, [bound]);
+
+		const replay = await findIdempotentPayment(
+			createMockContext(),
+			client,
+			'order-42',
+			PROVIDER,
+			100000000n,
+			0,
+			'createTransaction',
+			'Translation',
+		);
+
+		expect(replay?.record.operation).toBe('createTransaction');
+	});
+
+	it('should ignore tagged transactions where the wallet is the provider', async () => {
+		const tx = {
+			id: TX_ID,
+			state: 'COMMITTED',
+			requester: PROVIDER,
+			provider: WALLET,
+			amount: '100000000',
+			serviceDescription: bindIdempotencyKey('order-42'),
+		};
+
+		const replay = await findIdempotentPayment(
+			createMockContext(),
+			createMockClient(tx, [tx]),
+			'order-42',
+			WALLET,
+			100000000n,
+			0,
+		);
+
+		expect(replay).toBeUndefined();
+	});
+
+	it('should forget a key whose transaction no longer exists', async () => {
+		const context = createMockContext();
+		const client = createMockClient(null);
+		recordIdempotencyKey(context, client, 'order-42', payment);
+
+		const replay = await findIdempotentPayment(context, client, 'order-42', PROVIDER, 100000000n, 0);
+
+		expect(replay).toBeUndefined();
+		expect(findIdempotencyRecord(context, client, 'order-42')).toBeUndefined();
+	});
+});
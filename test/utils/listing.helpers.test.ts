@@ -0,0 +1,166 @@
+/**
+ * Listing Helper Unit Tests
+ *
+ * Tests for transaction filtering and pagination.
+ */
+
+import { ethers } from 'ethers';
+import {
+	matchesTransactionFilter,
+	paginateTransactions,
+	scanTransactionIds,
+	type TransactionFilter,
+} from '../../nodes/Actp/utils/listing.helpers';
+import { DEFAULT_RETRY_POLICY } from '../../nodes/Actp/utils/client.factory';
+import type { RuntimeTransaction } from '../../nodes/Actp/utils/runtime.helpers';
+
+const ME = '0x' + '1'.repeat(40);
+const OTHER = '0x' + '2'.repeat(40);
+const THIRD = '0x' + '3'.repeat(40);
+
+const createTx = (overrides: Partial<RuntimeTransaction> = {}): RuntimeTransaction => ({
+	id: '0x' + 'a'.repeat(64),
+	state: 'DELIVERED',
+	amount: '100000000',
+	requester: ME,
+	provider: OTHER,
+	deadline: 1700086400,
+	createdAt: 1700000000,
+	...overrides,
+});
+
+const anyFilter: TransactionFilter = { role: 'any', states: [] };
+
+describe('matchesTransactionFilter', () => {
+	it('should exclude transactions the wallet is not party to', () => {
+		const tx = createTx({ requester: OTHER, provider: THIRD });
+		expect(matchesTransactionFilter(tx, ME, anyFilter)).toBe(false);
+	});
+
+	it('should filter by role', () => {
+		const tx = createTx();
+		expect(matchesTransactionFilter(tx, ME, { ...anyFilter, role: 'requester' })).toBe(true);
+		expect(matchesTransactionFilter(tx, ME, { ...anyFilter, role: 'provider' })).toBe(false);
+	});
+
+	it('should match both roles when the wallet pays itself', () => {
+		const selfPaid = createTx({ requester: ME, provider: ME });
+		expect(matchesTransactionFilter(selfPaid, ME, { ...anyFilter, role: 'requester' })).toBe(true);
+		expect(matchesTransactionFilter(selfPaid, ME, { ...anyFilter, role: 'provider' })).toBe(true);
+		expect(matchesTransactionFilter(selfPaid, ME, { ...anyFilter, counterparty: ME })).toBe(true);
+	});
+
+	it('should filter by state (numeric or named SDK states)', () => {
+		const filter = { ...anyFilter, states: ['DELIVERED'] };
+		expect(matchesTransactionFilter(createTx(), ME, filter)).toBe(true);
+		expect(matchesTransactionFilter(createTx({ state: '4' }), ME, filter)).toBe(true);
+		expect(matchesTransactionFilter(createTx({ state: 'SETTLED' }), ME, filter)).toBe(false);
+	});
+
+	it('should filter by counterparty from the wallet perspective', () => {
+		const asProvider = createTx({ requester: THIRD, provider: ME });
+		const filter = { ...anyFilter, counterparty: THIRD };
+		expect(matchesTransactionFilter(asProvider, ME, filter)).toBe(true);
+		expect(matchesTransactionFilter(createTx(), ME, filter)).toBe(false);
+	});
+
+	it('should filter by amount range (inclusive)', () => {
+		const tx = createTx();
+		expect(matchesTransactionFilter(tx, ME, { ...anyFilter, minAmount: 100000000n })).toBe(true);
+		expect(matchesTransactionFilter(tx, ME, { ...anyFilter, minAmount: 100000001n })).toBe(false);
+		expect(matchesTransactionFilter(tx, ME, { ...anyFilter, maxAmount: 99999999n })).toBe(false);
+	});
+
+	it('should filter by created-at range', () => {
+		const tx = createTx();
+		expect(matchesTransactionFilter(tx, ME, { ...anyFilter, createdAfter: 1700000001 })).toBe(false);
+		expect(matchesTransactionFilter(tx, ME, { ...anyFilter, createdBefore: 1700000000 })).toBe(true);
+	});
+});
+
+describe('paginateTransactions', () => {
+	const transactions = Array.from({ length: 5 }, (_, i) =>
+		createTx({ id: '0x' + String(i).repeat(64) }),
+	);
+
+	it('should return the requested page', () => {
+		const result = paginateTransactions(transactions, 2, 2);
+		expect(result.transactions.map((tx) => tx.id)).toEqual(['0x' + '2'.repeat(64), '0x' + '3'.repeat(64)]);
+		expect(result.total).toBe(5);
+		expect(result.totalPages).toBe(3);
+		expect(result.hasMore).toBe(true);
+	});
+
+	it('should report no more pages on the last page', () => {
+		const result = paginateTransactions(transactions, 3, 2);
+		expect(result.transactions).toHaveLength(1);
+		expect(result.hasMore).toBe(false);
+	});
+
+	it('should handle empty results', () => {
+		const result = paginateTransactions([], 1, 50);
+		expect(result.transactions).toHaveLength(0);
+		expect(result.totalPages).toBe(1);
+		expect(result.hasMore).toBe(false);
+	});
+});
+
+describe('scanTransactionIds', () => {
+	const KERNEL = '0x' + '4'.repeat(40);
+	const TX_ID = '0x' + 'a'.repeat(64);
+	const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1 };
+	const topic = (address: string) => ethers.zeroPadValue(address, 32);
+	const log = (blockNumber: number) => ({
+		address: KERNEL,
+		blockNumber,
+		blockHash: '0x' + '0'.repeat(64),
+		transactionHash: '0x' + 'b'.repeat(64),
+		transactionIndex: 0,
+		index: 0,
+		removed: false,
+		data: ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [100000000n]),
+		topics: [
+			ethers.id('TransactionCreated(bytes32,address,address,uint256)'),
+			TX_ID,
+			topic(ME),
+			topic(OTHER),
+		],
+	});
+
+	const createProvider = (getLogs: jest.Mock) => {
+		const provider = new ethers.JsonRpcProvider('http://localhost:8545', 84532, { staticNetwork: true });
+		jest.spyOn(provider, 'getBlockNumber').mockResolvedValue(25000);
+		jest.spyOn(provider, 'getLogs').mockImplementation(getLogs);
+		return provider;
+	};
+
+	it('should scan in chunks up to the latest block', async () => {
+		const getLogs = jest.fn().mockResolvedValue([]);
+		const provider = createProvider(getLogs);
+		getLogs.mockImplementation(async (filter: any) =>
+			filter.fromBlock === 5000 && filter.topics[2] ? [log(5500)] : [],
+		);
+
+		const ids = await scanTransactionIds(provider, KERNEL, ME, 5000, policy);
+
+		expect(ids).toEqual([TX_ID]);
+		// [5000-14999], [15000-24999], [25000-25000] for both roles
+		expect(getLogs).toHaveBeenCalledTimes(6);
+	});
+
+	it('should retry a failed chunk without restarting the scan', async () => {
+		const getLogs = jest
+			.fn()
+			.mockResolvedValueOnce([])
+			.mockResolvedValueOnce([])
+			.mockRejectedValueOnce(new Error('connect ECONNREFUSED'))
+			.mockResolvedValue([]);
+		const onRetry = jest.fn();
+
+		await scanTransactionIds(createProvider(getLogs), KERNEL, ME, 15000, policy, onRetry);
+
+		expect(onRetry).toHaveBeenCalledTimes(1);
+		// Two chunks for both roles, plus the one retried request
+		expect(getLogs).toHaveBeenCalledTimes(5);
+	});
+});
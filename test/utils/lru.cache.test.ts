@@ -0,0 +1,68 @@
+/**
+ * Bounded Cache Unit Tests
+ *
+ * Tests for LRU eviction and TTL expiry.
+ */
+
+import { LruCache } from '../../nodes/Actp/utils/lru.cache';
+
+describe('LruCache', () => {
+	let now: number;
+	const createCache = (maxEntries = 2, ttlMs = 1000) =>
+		new LruCache<string>({ maxEntries, ttlMs }, () => now);
+
+	beforeEach(() => {
+		now = 0;
+	});
+
+	it('should return stored values', () => {
+		const cache = createCache();
+		cache.set('a', 'A');
+
+		expect(cache.get('a')).toBe('A');
+		expect(cache.get('b')).toBeUndefined();
+	});
+
+	it('should evict the least recently used entry over the limit', () => {
+		const cache = createCache();
+		cache.set('a', 'A');
+		cache.set('b', 'B');
+		cache.get('a');
+		cache.set('c', 'C');
+
+		expect(cache.size).toBe(2);
+		expect(cache.get('a')).toBe('A');
+		expect(cache.get('b')).toBeUndefined();
+		expect(cache.get('c')).toBe('C');
+	});
+
+	it('should expire entries after the TTL', () => {
+		const cache = createCache();
+		cache.set('a', 'A');
+
+		now = 999;
+		expect(cache.get('a')).toBe('A');
+
+		now = 1000;
+		expect(cache.get('a')).toBeUndefined();
+		expect(cache.size).toBe(0);
+	});
+
+	it('should restart the TTL when an entry is set again', () => {
+		const cache = createCache();
+		cache.set('a', 'A');
+		now = 800;
+		cache.set('a', 'A2');
+
+		now = 1500;
+		expect(cache.get('a')).toBe('A2');
+	});
+
+	it('should clear all entries', () => {
+		const cache = createCache();
+		cache.set('a', 'A');
+		cache.clear();
+
+		expect(cache.size).toBe(0);
+	});
+});
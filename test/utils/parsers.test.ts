@@ -6,6 +6,7 @@
 
 import {
 	parseAmount,
+	parseAmountFilter,
 	parseDeadline,
 	parseDisputeWindow,
 	parseAddress,
@@ -155,6 +156,25 @@ describe('parseAmount', () => {
 	});
 });
 
+describe('parseAmountFilter', () => {
+	it('should accept amounts below the payment minimum', () => {
+		expect(parseAmountFilter('0.01')).toBe(10000n);
+		expect(parseAmountFilter('0')).toBe(0n);
+	});
+
+	it('should accept the same formats as parseAmount', () => {
+		expect(parseAmountFilter('$1,000')).toBe(1000000000n);
+	});
+
+	it('should reject negative amounts', () => {
+		expect(() => parseAmountFilter('-5', 'Min amount')).toThrow('Min amount cannot be negative');
+	});
+
+	it('should reject non-numeric input', () => {
+		expect(() => parseAmountFilter('abc')).toThrow('Invalid amount');
+	});
+});
+
 describe('parseDeadline', () => {
 	const mockNow = 1700000000; // Fixed timestamp for testing
 
@@ -0,0 +1,111 @@
+/**
+ * Spending Policy Unit Tests
+ *
+ * Tests for policy parsing, checks and the rolling spend ledger.
+ */
+
+import type { IExecuteFunctions } from 'n8n-workflow';
+import {
+	parseSpendingPolicy,
+	hasSpendingPolicy,
+	checkSpendingPolicy,
+	getRollingSpend,
+	recordSpend,
+	parseUsdcAmount,
+	SPEND_WINDOW_SECONDS,
+} from '../../nodes/Actp/utils/policy.helpers';
+
+const ALICE = '0x' + 'a'.repeat(40);
+const BOB = '0x' + 'b'.repeat(40);
+
+describe('parseSpendingPolicy', () => {
+	it('should parse limits and lists', () => {
+		const policy = parseSpendingPolicy({
+			maxPerTransaction: 100,
+			maxPer24Hours: 0.5,
+			recipientAllowlist: `${ALICE.toUpperCase().replace('0X', '0x')}, ${BOB}`,
+			x402HostDenylist: 'Evil.example.com\nbad.org',
+		});
+
+		expect(policy.maxPerTransaction).toBe(100000000n);
+		expect(policy.maxPer24Hours).toBe(500000n);
+		expect(policy.recipientAllowlist).toEqual([ALICE, BOB]);
+		expect(policy.hostDenylist).toEqual(['evil.example.com', 'bad.org']);
+	});
+
+	it('should treat zero and empty values as no policy', () => {
+		const policy = parseSpendingPolicy({ maxPerTransaction: 0, recipientDenylist: '' });
+
+		expect(policy.maxPerTransaction).toBeUndefined();
+		expect(hasSpendingPolicy(policy)).toBe(false);
+	});
+});
+
+describe('checkSpendingPolicy', () => {
+	const policy = parseSpendingPolicy({
+		maxPerTransaction: 100,
+		maxPer24Hours: 150,
+		recipientDenylist: BOB,
+		x402HostAllowlist: 'example.com',
+	});
+
+	it('should allow a payment within all limits', () => {
+		expect(checkSpendingPolicy(policy, { address: ALICE }, 50000000n, 0n)).toBeUndefined();
+	});
+
+	it('should block a denylisted recipient', () => {
+		expect(checkSpendingPolicy(policy, { address: BOB }, 1n, 0n)?.title).toContain('denylist');
+	});
+
+	it('should block a recipient missing from the allowlist', () => {
+		const allowOnly = parseSpendingPolicy({ recipientAllowlist: ALICE });
+
+		expect(checkSpendingPolicy(allowOnly, { address: BOB }, 1n, 0n)?.title).toContain('allowlist');
+	});
+
+	it('should match allowlisted hosts including subdomains', () => {
+		expect(checkSpendingPolicy(policy, { url: 'https://api.example.com/x' }, 1n, 0n)).toBeUndefined();
+		expect(
+			checkSpendingPolicy(policy, { url: 'https://notexample.com/x' }, 1n, 0n)?.title,
+		).toContain('allowlist');
+	});
+
+	it('should block a payment above the per-transaction limit', () => {
+		expect(
+			checkSpendingPolicy(policy, { address: ALICE }, 100000001n, 0n)?.title,
+		).toBe('Payment exceeds the per-transaction limit');
+	});
+
+	it('should block a payment that would exceed the 24-hour limit', () => {
+		const violation = checkSpendingPolicy(policy, { address: ALICE }, 60000000n, 100000000n);
+
+		expect(violation?.title).toBe('Payment exceeds the 24-hour spending limit');
+		expect(violation?.description).toContain('($50.0 USDC remaining)');
+	});
+});
+
+describe('rolling spend ledger', () => {
+	const client = { getAddress: () => ALICE.toUpperCase().replace('0X', '0x') } as any;
+
+	it('should sum spends within the window and prune older ones', () => {
+		const staticData: Record<string, any> = {};
+		const context = { getWorkflowStaticData: () => staticData } as unknown as IExecuteFunctions;
+		const now = 1700000000;
+
+		recordSpend(context, client, 10000000n, now - SPEND_WINDOW_SECONDS - 1);
+		recordSpend(context, client, 20000000n, now - 60);
+
+		expect(getRollingSpend(context, client, now)).toBe(20000000n);
+		expect(staticData.actpSpendLedger[ALICE]).toHaveLength(1);
+	});
+});
+
+describe('parseUsdcAmount', () => {
+	it('should allow amounts below the protocol minimum', () => {
+		expect(parseUsdcAmount('$0.01')).toBe(10000n);
+	});
+
+	it('should reject negative amounts', () => {
+		expect(() => parseUsdcAmount(-1)).toThrow('non-negative');
+	});
+});
@@ -0,0 +1,114 @@
+/**
+ * Remote Signer Unit Tests
+ *
+ * Tests for the JSON-RPC remote signer against a local in-process signer server.
+ */
+
+import { JsonRpcProvider, Transaction, verifyMessage } from 'ethers';
+import {
+	RemoteSigner,
+	createRemoteSigner,
+	discoverRemoteSignerAddress,
+} from '../../nodes/Actp/utils/remote.signer';
+import { startSignerServer } from '../fixtures';
+
+const PRIVATE_KEY = '0x' + 'd'.repeat(64);
+const RECIPIENT = '0x' + '2'.repeat(40);
+
+describe('RemoteSigner', () => {
+	let server: Awaited<ReturnType<typeof startSignerServer>>;
+
+	beforeAll(async () => {
+		server = await startSignerServer(PRIVATE_KEY, 'Bearer secret');
+	});
+
+	afterAll(async () => {
+		await server.close();
+	});
+
+	describe('discoverRemoteSignerAddress', () => {
+		it('should use the first account by default', async () => {
+			const address = await discoverRemoteSignerAddress({
+				url: server.url,
+				authorization: 'Bearer secret',
+			});
+
+			expect(address).toBe(server.address);
+		});
+
+		it('should reject an address the signer does not manage', async () => {
+			await expect(
+				discoverRemoteSignerAddress(
+					{ url: server.url, authorization: 'Bearer secret' },
+					'0x' + '9'.repeat(40),
+				),
+			).rejects.toThrow('does not manage address');
+		});
+
+		it('should fail without valid authorization', async () => {
+			await expect(discoverRemoteSignerAddress({ url: server.url })).rejects.toThrow('HTTP 401');
+		});
+	});
+
+	describe('createRemoteSigner', () => {
+		it('should create a signer from credentials', async () => {
+			const signer = await createRemoteSigner({
+				signerUrl: server.url,
+				signerAddress: server.address.toLowerCase(),
+				signerAuthorization: 'Bearer secret',
+			});
+
+			expect(signer).toBeInstanceOf(RemoteSigner);
+			expect(await signer.getAddress()).toBe(server.address);
+		});
+
+		it('should require a signer URL', async () => {
+			await expect(createRemoteSigner({ signerUrl: '' })).rejects.toThrow('Signer URL is required');
+		});
+	});
+
+	describe('signing', () => {
+		const signer = () =>
+			new RemoteSigner({ url: server.url, authorization: 'Bearer secret' }, server.address);
+
+		it('should sign a transaction remotely', async () => {
+			const raw = await signer().signTransaction({
+				type: 2,
+				chainId: 84532,
+				nonce: 3,
+				to: RECIPIENT,
+				value: 1000n,
+				gasLimit: 21000n,
+				maxFeePerGas: 2000000000n,
+				maxPriorityFeePerGas: 1000000n,
+			});
+			const tx = Transaction.from(raw);
+
+			expect(tx.from).toBe(server.address);
+			expect(tx.to?.toLowerCase()).toBe(RECIPIENT);
+			expect(tx.value).toBe(1000n);
+			expect(tx.gasLimit).toBe(21000n);
+			expect(tx.nonce).toBe(3);
+		});
+
+		it('should refuse a transaction from another address', async () => {
+			await expect(
+				signer().signTransaction({ from: '0x' + '9'.repeat(40), to: RECIPIENT }),
+			).rejects.toThrow('does not match remote signer');
+		});
+
+		it('should sign a message remotely', async () => {
+			const signature = await signer().signMessage('hello');
+
+			expect(verifyMessage('hello', signature)).toBe(server.address);
+		});
+
+		it('should keep the address when connected to a provider', () => {
+			const provider = new JsonRpcProvider('http://127.0.0.1:1', 84532, { staticNetwork: true });
+			const connected = signer().connect(provider);
+
+			expect(connected.address).toBe(server.address);
+			expect(connected.provider).toBe(provider);
+		});
+	});
+});
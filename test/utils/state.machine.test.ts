@@ -0,0 +1,119 @@
+/**
+ * State Machine Unit Tests
+ *
+ * Tests for the client-side ACTP transition graph.
+ */
+
+import {
+	STATE_TRANSITIONS,
+	getAllowedTransitions,
+	isTransitionAllowed,
+	formatAllowedTransitions,
+	validateStateTransition,
+} from '../../nodes/Actp/utils/state.machine';
+import { ACTPState } from '../../nodes/Actp/utils/constants';
+import { TEST_STATES } from '../fixtures';
+
+describe('STATE_TRANSITIONS', () => {
+	it('should define every state', () => {
+		for (const state of Object.values(TEST_STATES)) {
+			expect(STATE_TRANSITIONS[state as ACTPState]).toBeDefined();
+		}
+	});
+
+	it('should have no transitions out of terminal states', () => {
+		expect(Object.keys(STATE_TRANSITIONS[ACTPState.SETTLED])).toHaveLength(0);
+		expect(Object.keys(STATE_TRANSITIONS[ACTPState.CANCELLED])).toHaveLength(0);
+	});
+});
+
+describe('getAllowedTransitions', () => {
+	it('should list next states with parties', () => {
+		expect(getAllowedTransitions('COMMITTED')).toEqual([
+			{ state: 'IN_PROGRESS', parties: ['provider'] },
+			{ state: 'CANCELLED', parties: ['requester', 'provider'] },
+		]);
+	});
+
+	it('should accept enum values', () => {
+		expect(getAllowedTransitions(ACTPState.IN_PROGRESS).map((t) => t.state)).toEqual([
+			'DELIVERED',
+			'CANCELLED',
+		]);
+	});
+
+	it('should throw on unknown state', () => {
+		expect(() => getAllowedTransitions('FINISHED')).toThrow('Invalid state');
+	});
+});
+
+describe('isTransitionAllowed', () => {
+	it.each([
+		['INITIATED', 'COMMITTED'],
+		['INITIATED', 'QUOTED'],
+		['COMMITTED', 'IN_PROGRESS'],
+		['IN_PROGRESS', 'DELIVERED'],
+		['DELIVERED', 'SETTLED'],
+		['DELIVERED', 'DISPUTED'],
+	])('should allow %s → %s', (from, to) => {
+		expect(isTransitionAllowed(from, to)).toBe(true);
+	});
+
+	it.each([
+		['INITIATED', 'DELIVERED'],
+		['COMMITTED', 'DELIVERED'],
+		['COMMITTED', 'SETTLED'],
+		['DELIVERED', 'CANCELLED'],
+		['SETTLED', 'DISPUTED'],
+		['CANCELLED', 'COMMITTED'],
+	])('should reject %s → %s', (from, to) => {
+		expect(isTransitionAllowed(from, to)).toBe(false);
+	});
+
+	it('should check the acting party', () => {
+		expect(isTransitionAllowed('COMMITTED', 'IN_PROGRESS', 'provider')).toBe(true);
+		expect(isTransitionAllowed('COMMITTED', 'IN_PROGRESS', 'requester')).toBe(false);
+		expect(isTransitionAllowed('DISPUTED', 'SETTLED', 'requester')).toBe(false);
+	});
+
+	it('should allow a wallet holding several roles if any of them may transition', () => {
+		expect(isTransitionAllowed('COMMITTED', 'IN_PROGRESS', ['requester', 'provider'])).toBe(true);
+		expect(isTransitionAllowed('COMMITTED', 'IN_PROGRESS', ['requester'])).toBe(false);
+	});
+});
+
+describe('formatAllowedTransitions', () => {
+	it('should format next steps', () => {
+		expect(formatAllowedTransitions('IN_PROGRESS')).toBe(
+			'DELIVERED (provider), CANCELLED (requester, provider)',
+		);
+	});
+
+	it('should mark terminal states', () => {
+		expect(formatAllowedTransitions('SETTLED')).toBe('none (terminal state)');
+	});
+});
+
+describe('validateStateTransition', () => {
+	it('should pass for legal transitions', () => {
+		expect(() => validateStateTransition('IN_PROGRESS', 'DELIVERED', 'provider')).not.toThrow();
+	});
+
+	it('should list legal next steps on illegal transition', () => {
+		expect(() => validateStateTransition('COMMITTED', 'DELIVERED')).toThrow(
+			'Invalid state transition: COMMITTED → DELIVERED. Allowed next steps from COMMITTED: IN_PROGRESS (provider), CANCELLED (requester, provider).',
+		);
+	});
+
+	it('should reject the wrong party', () => {
+		expect(() => validateStateTransition('IN_PROGRESS', 'DELIVERED', 'requester')).toThrow(
+			'Only the provider can transition IN_PROGRESS → DELIVERED',
+		);
+	});
+
+	it('should pass when the wallet is both requester and provider', () => {
+		expect(() =>
+			validateStateTransition('IN_PROGRESS', 'DELIVERED', ['requester', 'provider']),
+		).not.toThrow();
+	});
+});